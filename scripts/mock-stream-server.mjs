@@ -0,0 +1,115 @@
+// Local stand-in for the bot's trade stream.
+// Usage: npm run mock:stream, then start the app with
+// VITE_TRADE_STREAM_URL=ws://localhost:8787
+import { WebSocketServer } from "ws"
+
+const PORT = Number(process.env.PORT ?? 8787)
+const TICK_MS = 2000
+// One funding "period" every few ticks so positions open and close quickly
+const TICKS_PER_PERIOD = 4
+const NOTIONAL = 10000
+const FEE_RATE = 0.0005
+// Labels as the app stores them: English, on the UTC calendar
+const DATE_LABEL = new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+
+const pairs = {
+  "BTC-USDT": { price: 43000, positions: [] },
+  "ETH-USDT": { price: 2500, positions: [] },
+  "XMR-USDT": { price: 180, positions: [] },
+}
+
+let tick = 0
+let nextId = 1
+
+const server = new WebSocketServer({ port: PORT })
+
+const broadcast = (message) => {
+  const payload = JSON.stringify(message)
+  for (const client of server.clients) {
+    if (client.readyState === client.OPEN) {
+      client.send(payload)
+    }
+  }
+}
+
+const closeTrade = (pair, state, position, now) => {
+  const startDate = new Date(position.startTime)
+  const duration = Math.max(1, Math.round(position.periods / 3))
+
+  broadcast({
+    type: "position_close",
+    pair,
+    trade: {
+      id: position.id,
+      type: position.side,
+      startTime: position.startTime,
+      endTime: now.toISOString(),
+      fundingTotal: position.fundingTotal,
+      periods: position.periods,
+      exchange: position.exchange,
+      size: position.size,
+      notional: position.size * position.startPrice,
+      leverage: position.leverage,
+      marginMode: position.marginMode,
+      fee: (position.startPrice + state.price) * position.size * FEE_RATE,
+      startPrice: position.startPrice,
+      endPrice: state.price,
+      duration,
+      dateLabel: DATE_LABEL.format(startDate),
+      startDay: 0,
+    },
+  })
+}
+
+setInterval(() => {
+  tick++
+  const now = new Date()
+
+  for (const [pair, state] of Object.entries(pairs)) {
+    state.price *= 1 + (Math.random() - 0.5) * 0.002
+    broadcast({ type: "mark_price", pair, price: state.price, time: now.toISOString() })
+
+    if (state.positions.length === 0 && Math.random() < 0.2) {
+      const position = {
+        id: `live-${pair}-${nextId++}`,
+        side: Math.random() > 0.5 ? "LONG" : "SHORT",
+        startTime: now.toISOString(),
+        startPrice: state.price,
+        size: NOTIONAL / state.price,
+        leverage: 3,
+        marginMode: "isolated",
+        exchange: "binance",
+        fundingTotal: 0,
+        periods: 0,
+      }
+      state.positions.push(position)
+      broadcast({ type: "position_open", pair, position })
+    }
+
+    if (tick % TICKS_PER_PERIOD !== 0) {
+      continue
+    }
+
+    for (const position of [...state.positions]) {
+      const rate = (Math.random() - 0.4) * 0.1
+      position.fundingTotal += position.side === "SHORT" ? rate : -rate
+      position.periods++
+      broadcast({
+        type: "funding_payment",
+        pair,
+        positionId: position.id,
+        time: now.toISOString(),
+        rate,
+      })
+
+      if (position.periods >= 3 && Math.random() < 0.3) {
+        state.positions.splice(state.positions.indexOf(position), 1)
+        closeTrade(pair, state, position, now)
+      }
+    }
+  }
+
+  broadcast({ type: "heartbeat", time: now.toISOString() })
+}, TICK_MS)
+
+console.log(`Mock trade stream listening on ws://localhost:${PORT}`)
@@ -0,0 +1,101 @@
+import toast from "react-hot-toast"
+import { FlaskConical, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useBacktestRunner } from "@/hooks/use-backtest"
+import { useI18n } from "@/hooks/use-i18n"
+import type { MessageKey } from "@/lib/i18n"
+import type { BacktestParams } from "@/lib/trading/backtest"
+import { summarizeTrades } from "@/lib/trading/stats"
+import type { TimeRange } from "@/lib/trading/types"
+import { useBacktestStore } from "@/stores/backtest-store"
+
+const FIELDS: { key: keyof BacktestParams; label: MessageKey; step: number; min: number }[] = [
+  { key: "entryThreshold", label: "backtest.entryThreshold", step: 0.001, min: 0 },
+  { key: "exitThreshold", label: "backtest.exitThreshold", step: 0.001, min: -1 },
+  { key: "maxHoldingPeriods", label: "backtest.maxHoldingPeriods", step: 1, min: 1 },
+  { key: "feePercent", label: "backtest.feePercent", step: 0.01, min: 0 },
+  { key: "notional", label: "backtest.notional", step: 1000, min: 1 },
+]
+
+// Strategy parameters and a run button; simulated trades then appear in every pair card
+export function BacktestPanel({ pairs, range }: { pairs: string[]; range: TimeRange }) {
+  const { params, results, resultRange, setParams, clear } = useBacktestStore()
+  const { run, isRunning } = useBacktestRunner()
+  const { t, format } = useI18n()
+  const simulated = Object.values(results).flat()
+  const summary = summarizeTrades(simulated)
+  const isStale =
+    resultRange !== null && (resultRange.from !== range.from || resultRange.to !== range.to)
+
+  const handleRun = async () => {
+    try {
+      const output = await run(pairs, range)
+      const count = Object.values(output).flat().length
+      toast.success(t("backtest.produced", { count, pairs: pairs.length }))
+    } catch (error) {
+      toast.error(t("backtest.failed", { message: (error as Error).message }))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="size-5" />
+          {t("backtest.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          {FIELDS.map(({ key, label, step, min }) => (
+            <label key={key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+              {t(label)}
+              <Input
+                type="number"
+                step={step}
+                min={min}
+                value={params[key]}
+                onChange={(event) => {
+                  const value = Number(event.target.value)
+                  if (event.target.value !== "" && Number.isFinite(value)) {
+                    setParams({ [key]: value })
+                  }
+                }}
+                className="w-24"
+              />
+            </label>
+          ))}
+          <Button onClick={handleRun} disabled={isRunning || pairs.length === 0}>
+            {isRunning ? t("backtest.running") : t("backtest.run")}
+          </Button>
+          {resultRange && (
+            <Button variant="ghost" onClick={clear}>
+              <Trash2 />
+              {t("backtest.clear")}
+            </Button>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {resultRange ? (
+            <>
+              {t("backtest.results", {
+                count: summary.count,
+                long: summary.longCount,
+                short: summary.shortCount,
+                funding: format.usd(summary.fundingPnl, { signed: true }),
+                net: format.usd(summary.netPnl, { signed: true }),
+              })}
+              {isStale && t("backtest.stale")}
+            </>
+          ) : (
+            t("backtest.description")
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,28 @@
+import { Link } from "react-router-dom"
+
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useI18n } from "@/hooks/use-i18n"
+import { useCacheStore } from "@/stores/cache-store"
+
+// Shown while pages are served from the local cache instead of the source
+export function CacheStatusBadge() {
+  const workOffline = useCacheStore((state) => state.workOffline)
+  const reachable = useCacheStore((state) => state.reachable)
+  const links = useAppLinks()
+  const { t } = useI18n()
+
+  if (!workOffline && reachable !== false) {
+    return null
+  }
+
+  return (
+    <Link
+      to={links.settings()}
+      className="inline-flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+      title={t("cache.title")}
+    >
+      <span className="size-2 rounded-full bg-yellow-500" />
+      {t(workOffline ? "cache.offline" : "cache.unreachable")}
+    </Link>
+  )
+}
@@ -0,0 +1,57 @@
+import { useI18n } from "@/hooks/use-i18n"
+import type { OpenPositionEstimate } from "@/lib/trading/open-positions"
+import { DAY_MS, type TradeBarData } from "@/lib/trading/types"
+
+type ChartDataTableProps = {
+  caption: string
+  trades: TradeBarData[]
+  openPositions?: OpenPositionEstimate[]
+  now: number // For how long open positions have been held
+}
+
+// What a trade chart draws, as a table only screen readers see
+export function ChartDataTable({ caption, trades, openPositions = [], now }: ChartDataTableProps) {
+  const { t, format } = useI18n()
+  const zone = format.zoneName()
+
+  return (
+    <table className="sr-only">
+      <caption>{caption}</caption>
+      <thead>
+        <tr>
+          <th scope="col">{t("dataTable.side")}</th>
+          <th scope="col">{t("dataTable.status")}</th>
+          <th scope="col">{t("trades.withZone", { label: t("dataTable.opened"), zone })}</th>
+          <th scope="col">{t("trades.withZone", { label: t("dataTable.closed"), zone })}</th>
+          <th scope="col">{t("dataTable.days")}</th>
+          <th scope="col">{t("trades.funding")}</th>
+          <th scope="col">{t("trades.netPnl")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {trades.map((trade) => (
+          <tr key={trade.id}>
+            <th scope="row">{t(`side.${trade.type}`)}</th>
+            <td>{t("dataTable.statusClosed")}</td>
+            <td>{format.dateTime(trade.startTime)}</td>
+            <td>{format.dateTime(trade.endTime)}</td>
+            <td>{format.number(trade.duration, 1)}</td>
+            <td>{format.signedPercent(trade.fundingTotal)}</td>
+            <td>{format.usd(trade.profitLoss, { signed: true })}</td>
+          </tr>
+        ))}
+        {openPositions.map(({ position, unrealizedPnl }) => (
+          <tr key={position.id}>
+            <th scope="row">{t(`side.${position.type}`)}</th>
+            <td>{t("dataTable.statusOpen")}</td>
+            <td>{format.dateTime(position.startTime)}</td>
+            <td>—</td>
+            <td>{format.number((now - Date.parse(position.startTime)) / DAY_MS, 1)}</td>
+            <td>{format.signedPercent(position.fundingTotal)}</td>
+            <td>{t("dataTable.unrealized", { value: format.usd(unrealizedPnl, { signed: true }) })}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,85 @@
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts"
+import type { TooltipProps } from "recharts"
+
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { useI18n } from "@/hooks/use-i18n"
+import { THEME_COLORS } from "@/lib/chart-colors"
+import type { Translate } from "@/lib/i18n"
+import type { DailyReturn } from "@/lib/trading/analytics"
+import { signClass } from "@/lib/trading/format"
+import { cn } from "@/lib/utils"
+
+const chartConfig = (t: Translate) =>
+  ({
+    gain: {
+      label: t("chart.series.upDay"),
+      ...THEME_COLORS.gain,
+    },
+    loss: {
+      label: t("chart.series.downDay"),
+      ...THEME_COLORS.loss,
+    },
+  }) satisfies ChartConfig
+
+const DailyTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t, format } = useI18n()
+
+  if (!active || !payload?.length) {
+    return null
+  }
+
+  const day: DailyReturn = payload[0].payload
+
+  return (
+    <div className="bg-background border rounded-lg p-3 shadow-lg text-xs">
+      <p className="font-semibold">{format.utcDay(day.day)} (UTC)</p>
+      <p className="text-muted-foreground mt-1">
+        {t("tooltip.pnl")}{" "}
+        <span className={signClass(day.pnl)}>
+          {format.usd(day.pnl, { signed: true })} ({format.signedPercent(day.return * 100)})
+        </span>
+      </p>
+    </div>
+  )
+}
+
+// Realized PnL per UTC day, the series the Sharpe and Sortino ratios are computed on
+export function DailyReturnsChart({
+  returns,
+  className,
+}: {
+  returns: DailyReturn[]
+  className?: string
+}) {
+  const { t, format } = useI18n()
+
+  return (
+    <ChartContainer config={chartConfig(t)} className={cn("h-[240px] w-full", className)}>
+      <BarChart data={returns} margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis
+          dataKey="day"
+          tickFormatter={(day: string) => format.utcDay(day, { year: false })}
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+          minTickGap={16}
+        />
+        <YAxis
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+          tickFormatter={(value: number) => format.usd(value)}
+          width={80}
+        />
+        <ChartTooltip content={<DailyTooltip />} />
+        <ReferenceLine y={0} stroke="var(--border)" />
+        <Bar dataKey="pnl" radius={[2, 2, 0, 0]} isAnimationActive={false}>
+          {returns.map((day) => (
+            <Cell key={day.day} fill={day.pnl >= 0 ? "var(--color-gain)" : "var(--color-loss)"} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,276 @@
+import { Fragment, useRef } from "react"
+import { ChevronLeft, ChevronRight, GripHorizontal, PanelLeftClose, PanelLeftOpen, SlidersHorizontal } from "lucide-react"
+import type { ImperativePanelHandle } from "react-resizable-panels"
+
+import { TradingChart } from "@/components/trading-chart"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+import { useI18n } from "@/hooks/use-i18n"
+import { useMediaQuery } from "@/hooks/use-media-query"
+import {
+  ALL_CARD_WIDGETS,
+  CARD_WIDGETS,
+  COLLAPSED_SIZE,
+  MIN_PANEL_SIZE,
+  chunkRows,
+  getCardWidgets,
+  orderPairs,
+  rowDefaultSizes,
+  type CardWidget,
+} from "@/lib/layout/dashboard-layout"
+import type { TimeRange } from "@/lib/trading/types"
+import { cn, moveItem } from "@/lib/utils"
+import { useLayoutStore } from "@/stores/layout-store"
+
+// Drag payload for reordering panels, so drops from elsewhere on the page are ignored
+const PANEL_DRAG_TYPE = "application/x-dashboard-pair"
+
+function WidgetMenu({ pair, widgets }: { pair: string; widgets: CardWidget[] }) {
+  const setWidgets = useLayoutStore((state) => state.setWidgets)
+  const { t } = useI18n()
+
+  const toggle = (widget: CardWidget, checked: boolean) =>
+    setWidgets(
+      pair,
+      ALL_CARD_WIDGETS.filter((w) => (w === widget ? checked : widgets.includes(w)))
+    )
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="size-7" aria-label={t("layout.widgetMenu", { pair })}>
+          <SlidersHorizontal />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("layout.show")}</DropdownMenuLabel>
+        {ALL_CARD_WIDGETS.map((widget) => (
+          <DropdownMenuCheckboxItem
+            key={widget}
+            checked={widgets.includes(widget)}
+            onCheckedChange={(checked) => toggle(widget, checked)}
+            // Keep the menu open so several widgets can be toggled in one go
+            onSelect={(event) => event.preventDefault()}
+          >
+            {t(CARD_WIDGETS[widget])}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+type DashboardPanelProps = {
+  pair: string
+  range: TimeRange
+  index: number // Position in the whole ordered list, for moves
+  count: number
+  order: number // Position within the row
+  defaultSize: number
+  collapsed: boolean
+  // Rows of one can't hand width to a neighbour, so the panel folds to its header instead
+  collapsible: boolean
+  // Last expanded panel in its row; it has to stay open to fill the row
+  canCollapse: boolean
+  widgets: CardWidget[]
+  onMove: (from: number, to: number) => void
+}
+
+function DashboardPanel({
+  pair,
+  range,
+  index,
+  count,
+  order,
+  defaultSize,
+  collapsed,
+  collapsible,
+  canCollapse,
+  widgets,
+  onMove,
+}: DashboardPanelProps) {
+  const setCollapsed = useLayoutStore((state) => state.setCollapsed)
+  const panelRef = useRef<ImperativePanelHandle>(null)
+  const { t } = useI18n()
+
+  // Sideways collapse goes through the panel so its neighbours take the width;
+  // onCollapse/onExpand then record it, the same as dragging a handle shut
+  const toggle = () => {
+    const panel = panelRef.current
+
+    if (collapsible && panel) {
+      if (collapsed) {
+        panel.expand()
+      } else {
+        panel.collapse()
+      }
+    } else {
+      setCollapsed(pair, !collapsed)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    const dragged = event.dataTransfer.getData(PANEL_DRAG_TYPE)
+
+    if (dragged) {
+      event.preventDefault()
+      onMove(Number(dragged), index)
+    }
+  }
+
+  return (
+    <ResizablePanel
+      ref={panelRef}
+      id={pair}
+      order={order}
+      defaultSize={defaultSize}
+      minSize={collapsible ? MIN_PANEL_SIZE : undefined}
+      collapsible={collapsible}
+      collapsedSize={COLLAPSED_SIZE}
+      onCollapse={() => setCollapsed(pair, true)}
+      onExpand={() => setCollapsed(pair, false)}
+      className="px-3 first:pl-0 last:pr-0"
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes(PANEL_DRAG_TYPE)) {
+          event.preventDefault()
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      {collapsed ? (
+        <div
+          className={cn(
+            "flex items-center gap-2 rounded-xl border bg-card text-sm font-medium",
+            collapsible ? "min-h-48 flex-col py-3" : "justify-between px-4 py-2"
+          )}
+        >
+          <span className={cn(collapsible && "[writing-mode:vertical-rl] order-last")}>{pair}</span>
+          <Button variant="ghost" size="icon" className="size-7" aria-label={t("layout.expand", { pair })} onClick={toggle}>
+            <PanelLeftOpen />
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <div className="flex items-center justify-end gap-0.5 text-muted-foreground">
+            <span
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.setData(PANEL_DRAG_TYPE, String(index))
+                event.dataTransfer.effectAllowed = "move"
+              }}
+              className="mr-auto cursor-grab rounded p-1 hover:bg-accent active:cursor-grabbing"
+              title={t("layout.dragHint")}
+              aria-hidden
+            >
+              <GripHorizontal className="size-4" />
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t("layout.moveEarlier", { pair })}
+              disabled={index === 0}
+              onClick={() => onMove(index, index - 1)}
+            >
+              <ChevronLeft />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t("layout.moveLater", { pair })}
+              disabled={index === count - 1}
+              onClick={() => onMove(index, index + 1)}
+            >
+              <ChevronRight />
+            </Button>
+            <WidgetMenu pair={pair} widgets={widgets} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t("layout.collapse", { pair })}
+              disabled={!canCollapse}
+              onClick={toggle}
+            >
+              <PanelLeftClose />
+            </Button>
+          </div>
+          <TradingChart pair={pair} range={range} widgets={widgets} />
+        </div>
+      )}
+    </ResizablePanel>
+  )
+}
+
+// The overview's pair cards in rows of resizable, collapsible and reorderable panels.
+// Narrow screens get one panel per row whatever the layout says.
+export function DashboardGrid({ pairs, range }: { pairs: string[]; range: TimeRange }) {
+  const layout = useLayoutStore((state) => state.current)
+  const revision = useLayoutStore((state) => state.revision)
+  const setOrder = useLayoutStore((state) => state.setOrder)
+  const setSizes = useLayoutStore((state) => state.setSizes)
+  const wide = useMediaQuery("(min-width: 1024px)")
+
+  const ordered = orderPairs(layout.order, pairs)
+  const columns = wide ? layout.columns : 1
+  const rows = chunkRows(ordered, columns)
+  const move = (from: number, to: number) => setOrder(moveItem(ordered, from, to))
+
+  return (
+    <div className="space-y-6">
+      {rows.map((row, rowIndex) => {
+        const start = rowIndex * columns
+        const sizes = rowDefaultSizes(row, layout)
+        const expandedCount = row.filter((pair) => !layout.collapsed.includes(pair)).length
+
+        return (
+          <ResizablePanelGroup
+            // New members or a swapped layout start over from the stored widths
+            key={`${revision}:${row.join(",")}`}
+            direction="horizontal"
+            className="items-start"
+            onLayout={(layoutSizes) =>
+              setSizes(
+                Object.fromEntries(
+                  row.flatMap((pair, index) =>
+                    row.length > 1 && layoutSizes[index] > COLLAPSED_SIZE ? [[pair, layoutSizes[index]]] : []
+                  )
+                )
+              )
+            }
+          >
+            {row.map((pair, index) => {
+              const collapsed = layout.collapsed.includes(pair)
+              return (
+                <Fragment key={pair}>
+                  {index > 0 && <ResizableHandle withHandle className="self-stretch" />}
+                  <DashboardPanel
+                    pair={pair}
+                    range={range}
+                    index={start + index}
+                    count={ordered.length}
+                    order={index}
+                    defaultSize={sizes[index]}
+                    collapsed={collapsed}
+                    collapsible={row.length > 1}
+                    canCollapse={row.length === 1 || expandedCount > 1}
+                    widgets={getCardWidgets(layout, pair)}
+                    onMove={move}
+                  />
+                </Fragment>
+              )
+            })}
+          </ResizablePanelGroup>
+        )
+      })}
+    </div>
+  )
+}
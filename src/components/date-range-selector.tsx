@@ -0,0 +1,90 @@
+import { useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useI18n } from "@/hooks/use-i18n"
+import {
+  RANGE_PRESETS,
+  isValidCustomRange,
+  toDayString,
+  type RangePreset,
+} from "@/lib/trading/date-range"
+import { cn } from "@/lib/utils"
+
+export function DateRangeSelector({ className }: { className?: string }) {
+  const { selection, range, setSelection } = useDateRange()
+  const { t } = useI18n()
+  // Days typed that don't make a range yet; shown with an error until they do
+  const [draft, setDraft] = useState<{ from: string; to: string } | null>(null)
+
+  // Custom inputs start from whatever range is currently shown
+  const customFrom = selection.preset === "custom" ? selection.from : toDayString(range.from)
+  const customTo = selection.preset === "custom" ? selection.to : toDayString(range.to)
+
+  const setCustomDay = (field: "from" | "to", value: string) => {
+    const next = { from: draft?.from ?? customFrom, to: draft?.to ?? customTo, [field]: value }
+    if (isValidCustomRange(next.from, next.to)) {
+      setDraft(null)
+      setSelection({ preset: "custom", ...next })
+    } else {
+      setDraft(next)
+    }
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-2", className)}>
+      <div className="flex gap-1 rounded-lg border p-1">
+        {(Object.keys(RANGE_PRESETS) as RangePreset[]).map((preset) => (
+          <Button
+            key={preset}
+            size="sm"
+            variant={selection.preset === preset ? "secondary" : "ghost"}
+            onClick={() => {
+              setDraft(null)
+              setSelection({ preset })
+            }}
+          >
+            {RANGE_PRESETS[preset].label}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant={selection.preset === "custom" ? "secondary" : "ghost"}
+          onClick={() => setSelection({ preset: "custom", from: customFrom, to: customTo })}
+        >
+          {t("range.custom")}
+        </Button>
+      </div>
+
+      {selection.preset === "custom" && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Input
+            type="date"
+            aria-label={t("range.from")}
+            aria-invalid={!!draft}
+            aria-describedby={draft ? "date-range-error" : undefined}
+            value={draft?.from ?? selection.from}
+            max={draft?.to ?? selection.to}
+            onChange={(event) => setCustomDay("from", event.target.value)}
+          />
+          <span className="text-muted-foreground">→</span>
+          <Input
+            type="date"
+            aria-label={t("range.to")}
+            aria-invalid={!!draft}
+            aria-describedby={draft ? "date-range-error" : undefined}
+            value={draft?.to ?? selection.to}
+            min={draft?.from ?? selection.from}
+            onChange={(event) => setCustomDay("to", event.target.value)}
+          />
+          {draft && (
+            <span id="date-range-error" role="alert" className="text-destructive">
+              {t("range.invalid")}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
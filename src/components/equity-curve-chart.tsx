@@ -0,0 +1,129 @@
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts"
+import type { TooltipProps } from "recharts"
+
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { useI18n } from "@/hooks/use-i18n"
+import type { Translate } from "@/lib/i18n"
+import type { EquityPoint } from "@/lib/trading/analytics"
+import { signClass } from "@/lib/trading/format"
+import { cn } from "@/lib/utils"
+
+const chartConfig = (t: Translate) =>
+  ({
+    equity: {
+      label: t("chart.series.equity"),
+      color: "var(--chart-1)",
+    },
+    drawdown: {
+      label: t("chart.series.drawdown"),
+      color: "var(--destructive)",
+    },
+  }) satisfies ChartConfig
+
+type EquityChartPoint = EquityPoint & { timestamp: number }
+
+const EquityTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t, format } = useI18n()
+
+  if (!active || !payload?.length) {
+    return null
+  }
+
+  const point: EquityChartPoint = payload[0].payload
+
+  return (
+    <div className="bg-background border rounded-lg p-3 shadow-lg text-xs">
+      <p className="font-semibold">
+        {format.dateTime(point.time)} {format.zoneName(point.time)}
+      </p>
+      <p className="text-muted-foreground mt-1">
+        {t("tooltip.equity")}{" "}
+        <span className={signClass(point.equity)}>
+          {format.usd(point.equity, { signed: true })}
+        </span>
+      </p>
+      <p className="text-muted-foreground">
+        {t("tooltip.drawdown", { value: format.usd(point.drawdown), percent: format.percent(point.drawdownPercent) })}
+      </p>
+    </div>
+  )
+}
+
+// Cumulative realized PnL stepping at each close, with the drawdown from its running peak below
+export function EquityCurveChart({
+  curve,
+  className,
+}: {
+  curve: EquityPoint[]
+  className?: string
+}) {
+  const { t, format } = useI18n()
+  const data: EquityChartPoint[] = curve.map((point) => ({
+    ...point,
+    timestamp: new Date(point.time).getTime(),
+  }))
+
+  const xAxis = (
+    <XAxis
+      dataKey="timestamp"
+      type="number"
+      scale="time"
+      domain={["dataMin", "dataMax"]}
+      tickFormatter={format.axisDate}
+      tick={{ fontSize: 10 }}
+      axisLine={false}
+      tickLine={false}
+    />
+  )
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <ChartContainer config={chartConfig(t)} className="h-[260px] w-full">
+        <AreaChart data={data} syncId="equity" margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          {xAxis}
+          <YAxis
+            tick={{ fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+            tickFormatter={(value: number) => format.usd(value)}
+            width={80}
+          />
+          <ChartTooltip content={<EquityTooltip />} />
+          <ReferenceLine y={0} stroke="var(--border)" />
+          <Area
+            dataKey="equity"
+            type="stepAfter"
+            stroke="var(--color-equity)"
+            fill="var(--color-equity)"
+            fillOpacity={0.15}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ChartContainer>
+      <ChartContainer config={chartConfig(t)} className="h-[120px] w-full">
+        <AreaChart data={data} syncId="equity" margin={{ top: 0, right: 30, left: 10, bottom: 5 }}>
+          {xAxis}
+          <YAxis
+            tick={{ fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+            tickFormatter={(value: number) => format.percent(value, 1)}
+            width={80}
+          />
+          <ChartTooltip content={<EquityTooltip />} />
+          <Area
+            dataKey="drawdownPercent"
+            type="stepAfter"
+            stroke="var(--color-drawdown)"
+            fill="var(--color-drawdown)"
+            fillOpacity={0.2}
+            strokeWidth={1}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import toast from "react-hot-toast"
+import { Download } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useI18n } from "@/hooks/use-i18n"
+import { findChartSvg, renderChartPng, serializeChartSvg } from "@/lib/export/chart-image"
+import { downloadBlob, downloadText } from "@/lib/export/download"
+import {
+  exportFileName,
+  summariesToCsv,
+  tradesToCsv,
+  tradesToJson,
+  type TradesByPair,
+} from "@/lib/export/trade-export"
+import { summarizeTrades } from "@/lib/trading/stats"
+import type { TimeRange } from "@/lib/trading/types"
+
+type ExportMenuProps = {
+  // File name prefix, e.g. the pair or "watchlist"
+  subject: string
+  range: TimeRange
+  trades: TradesByPair
+  // Card whose rendered chart can be saved as an image; omitted on the overview
+  chartRef?: React.RefObject<HTMLElement | null>
+  disabled?: boolean
+}
+
+export function ExportMenu({ subject, range, trades, chartRef, disabled }: ExportMenuProps) {
+  const { t, format } = useI18n()
+  const fileName = (kind: string, extension: string) =>
+    exportFileName(`${subject}-${kind}`, range, extension)
+
+  const exportSummary = () => {
+    const summaries = Object.fromEntries(
+      Object.entries(trades).map(([pair, pairTrades]) => [pair, summarizeTrades(pairTrades)])
+    )
+    downloadText(summariesToCsv(summaries), fileName("summary", "csv"), "text/csv")
+  }
+
+  const exportChart = async (kind: "png" | "svg") => {
+    const svg = chartRef?.current && findChartSvg(chartRef.current)
+    if (!svg) {
+      toast.error(t("export.noImage"))
+      return
+    }
+
+    try {
+      if (kind === "svg") {
+        const { markup } = serializeChartSvg(svg)
+        downloadText(markup, fileName("chart", "svg"), "image/svg+xml")
+      } else {
+        downloadBlob(await renderChartPng(svg), fileName("chart", "png"))
+      }
+    } catch (error) {
+      toast.error(t("export.chartFailed", { message: (error as Error).message }))
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t("export.label", { subject })} disabled={disabled}>
+          <Download />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("export.trades")}</DropdownMenuLabel>
+        <DropdownMenuItem
+          onSelect={() =>
+            downloadText(tradesToCsv(trades, format.axisDate), fileName("trades", "csv"), "text/csv")
+          }
+        >
+          {t("export.tradesCsv")}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() =>
+            downloadText(tradesToJson(trades), fileName("trades", "json"), "application/json")
+          }
+        >
+          {t("export.tradesJson")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={exportSummary}>{t("export.summaryCsv")}</DropdownMenuItem>
+        {chartRef && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>{t("export.chart")}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => void exportChart("png")}>{t("export.chartPng")}</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => void exportChart("svg")}>{t("export.chartSvg")}</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,144 @@
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts"
+import type { TooltipProps } from "recharts"
+
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { useI18n } from "@/hooks/use-i18n"
+import { EXCHANGES, getExchangeLabel, type ExchangeId } from "@/lib/trading/exchanges"
+import type { SpreadRow } from "@/lib/trading/funding-spread"
+import type { TradeBarData } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+
+const VENUE_COLORS: Record<ExchangeId, string> = {
+  binance: "var(--chart-4)",
+  bybit: "var(--chart-5)",
+  okx: "var(--chart-1)",
+}
+
+const chartConfig = {
+  ...Object.fromEntries(
+    (Object.keys(EXCHANGES) as ExchangeId[]).map((exchange) => [
+      exchange,
+      { label: EXCHANGES[exchange], color: VENUE_COLORS[exchange] },
+    ])
+  ),
+  spread: {
+    label: "Spread",
+    color: "var(--muted-foreground)",
+  },
+} satisfies ChartConfig
+
+type ComparisonPoint = { timestamp: number; spread: number; high: string; low: string } & Record<string, number | string>
+
+const ComparisonTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t, format } = useI18n()
+
+  if (!active || !payload?.length) {
+    return null
+  }
+
+  const point: ComparisonPoint = payload[0].payload
+
+  return (
+    <div className="bg-background border rounded-lg p-3 shadow-lg text-xs space-y-0.5">
+      <p className="font-semibold">
+        {format.dateTime(point.timestamp, { seconds: false })} {format.zoneName(point.timestamp)}
+      </p>
+      {(Object.keys(EXCHANGES) as ExchangeId[])
+        .filter((exchange) => typeof point[exchange] === "number")
+        .map((exchange) => (
+          <p key={exchange} className="text-muted-foreground">
+            {EXCHANGES[exchange]}: <span className="font-mono">{format.signedPercent(point[exchange] as number, 4)}</span>
+            {point.high === exchange && " ▲"}
+            {point.low === exchange && " ▼"}
+          </p>
+        ))}
+      <p className="font-medium pt-1">{t("tooltip.spread", { spread: format.percent(point.spread, 4) })}</p>
+    </div>
+  )
+}
+
+// Each venue's rate per period, the high-low spread shaded underneath, and every trade's
+// open window tinted in the color of the venue it ran on
+export function FundingComparisonChart({
+  rows,
+  trades,
+  className,
+}: {
+  rows: SpreadRow[]
+  trades: TradeBarData[]
+  className?: string
+}) {
+  const { t, format } = useI18n()
+  const data: ComparisonPoint[] = rows.map(({ timestamp, rates, spread, high, low }) => ({
+    timestamp,
+    spread,
+    high,
+    low,
+    ...rates,
+  }))
+
+  return (
+    <ChartContainer
+      // The legend shows the spread's label, so it follows the language
+      config={{ ...chartConfig, spread: { ...chartConfig.spread, label: t("pair.spread") } }}
+      className={cn("h-[360px] w-full", className)}
+    >
+      <ComposedChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={format.axisDate}
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+        />
+        <YAxis
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+          tickFormatter={(value: number) => format.percent(value, 3)}
+          label={{ value: t("chart.axis.fundingRate"), angle: -90, position: "insideLeft" }}
+        />
+        <ChartTooltip content={<ComparisonTooltip />} />
+        <ChartLegend content={<ChartLegendContent />} />
+
+        {trades.map((trade) => (
+          <ReferenceArea
+            key={trade.id}
+            x1={Date.parse(trade.startTime)}
+            x2={Date.parse(trade.endTime)}
+            fill={trade.exchange in VENUE_COLORS ? VENUE_COLORS[trade.exchange as ExchangeId] : "var(--muted)"}
+            fillOpacity={0.12}
+            ifOverflow="hidden"
+            label={{ value: getExchangeLabel(trade.exchange), position: "insideTop", fontSize: 9 }}
+          />
+        ))}
+        <ReferenceLine y={0} stroke="var(--border)" />
+
+        <Area
+          dataKey="spread"
+          type="stepAfter"
+          stroke="none"
+          fill="var(--color-spread)"
+          fillOpacity={0.2}
+          isAnimationActive={false}
+        />
+        {(Object.keys(EXCHANGES) as ExchangeId[]).map((exchange) => (
+          <Line
+            key={exchange}
+            dataKey={exchange}
+            type="stepAfter"
+            stroke={`var(--color-${exchange})`}
+            strokeWidth={1.5}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,125 @@
+import { useId } from "react"
+import { Area, AreaChart, CartesianGrid, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts"
+import type { TooltipProps } from "recharts"
+
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { useI18n } from "@/hooks/use-i18n"
+import { THEME_COLORS } from "@/lib/chart-colors"
+import type { Translate } from "@/lib/i18n"
+import { signClass } from "@/lib/trading/format"
+import type { FundingRatePoint, TradeBarData } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+
+const chartConfig = (t: Translate) =>
+  ({
+    rate: {
+      label: t("chart.mode.fundingRate"),
+      color: "var(--chart-1)",
+    },
+    long: {
+      label: t("chart.series.long"),
+      ...THEME_COLORS.long,
+    },
+    short: {
+      label: t("chart.series.short"),
+      ...THEME_COLORS.short,
+    },
+  }) satisfies ChartConfig
+
+type FundingChartPoint = { timestamp: number; rate: number }
+
+const FundingTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t, format } = useI18n()
+
+  if (!active || !payload?.length) {
+    return null
+  }
+
+  const point: FundingChartPoint = payload[0].payload
+
+  return (
+    <div className="bg-background border rounded-lg p-3 shadow-lg text-xs">
+      <p className="font-semibold">
+        {format.dateTime(point.timestamp, { seconds: false })} {format.zoneName(point.timestamp)}
+      </p>
+      <p className="text-muted-foreground mt-1">
+        {t("tooltip.rate")}{" "}
+        <span className={signClass(point.rate)}>
+          {format.signedPercent(point.rate, 4)}
+        </span>
+      </p>
+    </div>
+  )
+}
+
+// Funding rate for every 8h period, with each trade's open window shaded behind it
+export function FundingRateChart({
+  rates,
+  trades,
+  className,
+}: {
+  rates: FundingRatePoint[]
+  trades: TradeBarData[]
+  className?: string
+}) {
+  const fillId = `funding-rate-fill-${useId().replace(/:/g, "")}`
+  const { t, format } = useI18n()
+  const data: FundingChartPoint[] = rates.map((point) => ({
+    timestamp: new Date(point.time).getTime(),
+    rate: point.rate,
+  }))
+
+  return (
+    <ChartContainer config={chartConfig(t)} className={cn("h-[300px] w-full", className)}>
+      <AreaChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+        <defs>
+          <linearGradient id={fillId} x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="var(--color-rate)" stopOpacity={0.4} />
+            <stop offset="95%" stopColor="var(--color-rate)" stopOpacity={0.05} />
+          </linearGradient>
+        </defs>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={format.axisDate}
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+        />
+        <YAxis
+          tick={{ fontSize: 10 }}
+          axisLine={false}
+          tickLine={false}
+          tickFormatter={(value: number) => format.percent(value, 3)}
+          label={{ value: t("chart.axis.fundingRate"), angle: -90, position: "insideLeft" }}
+        />
+        <ChartTooltip content={<FundingTooltip />} />
+
+        {/* Trade open/close windows */}
+        {trades.map((trade) => (
+          <ReferenceArea
+            key={trade.id}
+            x1={new Date(trade.startTime).getTime()}
+            x2={new Date(trade.endTime).getTime()}
+            fill={trade.type === "LONG" ? "var(--color-long)" : "var(--color-short)"}
+            fillOpacity={0.15}
+            ifOverflow="hidden"
+          />
+        ))}
+        <ReferenceLine y={0} stroke="var(--border)" />
+
+        <Area
+          dataKey="rate"
+          type="stepAfter"
+          stroke="var(--color-rate)"
+          fill={`url(#${fillId})`}
+          strokeWidth={1.5}
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,136 @@
+import { useRef, useState } from "react"
+import toast from "react-hot-toast"
+import { Trash2, Upload } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/hooks/use-i18n"
+import type { Translate } from "@/lib/i18n"
+import type { ImportRowError } from "@/lib/import/exchange-import"
+import { cn } from "@/lib/utils"
+import { useImportStore } from "@/stores/import-store"
+import { useWatchlistStore } from "@/stores/watchlist-store"
+
+// Enough to spot a pattern without burying the screen in toasts
+const MAX_ERROR_TOASTS = 5
+
+function reportErrors(errors: ImportRowError[], t: Translate) {
+  for (const { file, line, message: key, params } of errors.slice(0, MAX_ERROR_TOASTS)) {
+    const message = t(key, params)
+    toast.error(line ? t("import.rowError", { file, line, message }) : t("import.fileError", { file, message }))
+  }
+
+  if (errors.length > MAX_ERROR_TOASTS) {
+    toast.error(t("import.moreErrors", { count: errors.length - MAX_ERROR_TOASTS }))
+  }
+}
+
+function countTrades(trades: Record<string, unknown[]>) {
+  return Object.values(trades).reduce((sum, pairTrades) => sum + pairTrades.length, 0)
+}
+
+// Accepts exchange CSV exports and native JSON, by drop anywhere on its children or the picker
+export function ImportDropZone({
+  children,
+  className,
+}: {
+  children: React.ReactNode
+  className?: string
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragDepth, setDragDepth] = useState(0)
+  const { importFiles, clear } = useImportStore()
+  const importedTrades = useImportStore((state) => state.data.trades)
+  const importedCount = countTrades(importedTrades)
+  const { t } = useI18n()
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    if (!files.length) {
+      return
+    }
+
+    let contents: { name: string; text: string }[]
+    try {
+      contents = await Promise.all(
+        files.map(async (file) => ({ name: file.name, text: await file.text() }))
+      )
+    } catch (error) {
+      // A file moved, deleted or unreadable since it was picked
+      toast.error(t("import.readFailed", { message: (error as Error).message }))
+      return
+    }
+    const errors = importFiles(contents)
+    reportErrors(errors, t)
+
+    const trades = useImportStore.getState().data.trades
+    const pairsWithTrades = Object.keys(trades).filter((pair) => trades[pair].length)
+    const { pairs, addPair } = useWatchlistStore.getState()
+    const skipped = pairsWithTrades.filter((pair) => !pairs.includes(pair) && addPair(pair))
+    const added = countTrades(trades) - importedCount
+
+    if (added > 0) {
+      toast.success(t("import.imported", { count: added, pairs: pairsWithTrades.length }))
+    } else if (!errors.length) {
+      toast(t("import.nothingNew"))
+    }
+
+    if (skipped.length) {
+      toast.error(t("import.unknownPairs", { pairs: skipped.join(", ") }))
+    }
+  }
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={(event) => {
+        if (event.dataTransfer.types.includes("Files")) {
+          setDragDepth((depth) => depth + 1)
+        }
+      }}
+      onDragLeave={() => setDragDepth((depth) => Math.max(0, depth - 1))}
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes("Files")) {
+          event.preventDefault()
+        }
+      }}
+      onDrop={(event) => {
+        event.preventDefault()
+        setDragDepth(0)
+        void handleFiles(event.dataTransfer.files)
+      }}
+    >
+      <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-sm text-muted-foreground">
+        <span>{t("import.hint")}</span>
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <Upload />
+          {t("import.button")}
+        </Button>
+        {importedCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={clear}>
+            <Trash2 />
+            {t("import.clear", { count: importedCount })}
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          multiple
+          hidden
+          onChange={(event) => {
+            void handleFiles(event.target.files)
+            event.target.value = ""
+          }}
+        />
+      </div>
+
+      {children}
+
+      {dragDepth > 0 && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-xl border-2 border-dashed border-primary bg-background/80 text-lg font-medium">
+          {t("import.dropOverlay")}
+        </div>
+      )}
+    </div>
+  )
+}
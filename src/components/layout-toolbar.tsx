@@ -0,0 +1,125 @@
+import { useState } from "react"
+import toast from "react-hot-toast"
+import { LayoutTemplate, RotateCcw } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useI18n } from "@/hooks/use-i18n"
+import { MAX_COLUMNS } from "@/lib/layout/dashboard-layout"
+import { cn } from "@/lib/utils"
+import { useLayoutStore } from "@/stores/layout-store"
+
+// Columns, legend and named layouts for the overview's panel grid
+export function LayoutToolbar({ className }: { className?: string }) {
+  const { current, saved, setColumns, setShowLegend, saveLayout, applyLayout, deleteLayout, reset } =
+    useLayoutStore()
+  const [name, setName] = useState("")
+  const { t } = useI18n()
+  const names = Object.keys(saved).sort((a, b) => a.localeCompare(b))
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = name.trim()
+
+    if (!trimmed) {
+      return
+    }
+
+    saveLayout(trimmed)
+    setName("")
+    toast.success(t(saved[trimmed] ? "layout.updatedToast" : "layout.savedToast", { name: trimmed }))
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-2 text-sm", className)}>
+      <div className="flex items-center gap-0.5 rounded-lg border p-0.5" role="group" aria-label={t("layout.panelsPerRow")}>
+        {Array.from({ length: MAX_COLUMNS }, (_, index) => index + 1).map((columns) => (
+          <Button
+            key={columns}
+            size="sm"
+            variant={current.columns === columns ? "secondary" : "ghost"}
+            className="h-7 px-2"
+            aria-label={t("layout.perRow", { count: columns })}
+            onClick={() => setColumns(columns)}
+          >
+            {columns}
+          </Button>
+        ))}
+      </div>
+
+      <Button
+        variant={current.showLegend ? "secondary" : "ghost"}
+        size="sm"
+        aria-pressed={current.showLegend}
+        onClick={() => setShowLegend(!current.showLegend)}
+      >
+        {t("layout.legend")}
+      </Button>
+
+      <form onSubmit={handleSave} className="flex items-center gap-1">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t("layout.namePlaceholder")}
+          aria-label={t("layout.nameLabel")}
+          className="h-8 w-32 rounded-md border bg-background px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!name.trim()}>
+          {t("common.save")}
+        </Button>
+      </form>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm">
+            <LayoutTemplate />
+            {t("layout.layouts")}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>{t("layout.saved")}</DropdownMenuLabel>
+          {names.length === 0 ? (
+            <DropdownMenuItem disabled>{t("layout.nothingSaved")}</DropdownMenuItem>
+          ) : (
+            names.map((layoutName) => (
+              <DropdownMenuItem key={layoutName} onSelect={() => applyLayout(layoutName)}>
+                {layoutName}
+              </DropdownMenuItem>
+            ))
+          )}
+          {names.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>{t("common.delete")}</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {names.map((layoutName) => (
+                  <DropdownMenuItem
+                    key={layoutName}
+                    variant="destructive"
+                    onSelect={() => deleteLayout(layoutName)}
+                  >
+                    {layoutName}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={reset}>
+            <RotateCcw />
+            {t("layout.reset")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
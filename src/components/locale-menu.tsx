@@ -0,0 +1,66 @@
+import { Languages } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useI18n } from "@/hooks/use-i18n"
+import { LOCALES, TIME_ZONES, resolveTimeZone, type Locale, type MessageKey, type TimeZoneOption } from "@/lib/i18n"
+import { useLocaleStore } from "@/stores/locale-store"
+
+const TIME_ZONE_LABELS: Record<TimeZoneOption, MessageKey> = {
+  UTC: "timeZone.UTC",
+  local: "timeZone.local",
+  "America/New_York": "timeZone.newYork",
+  "Europe/London": "timeZone.london",
+  "Europe/Madrid": "timeZone.madrid",
+  "Asia/Singapore": "timeZone.singapore",
+  "Asia/Tokyo": "timeZone.tokyo",
+}
+
+// Display language and the zone every axis, tooltip and trade list shows times in
+export function LocaleMenu() {
+  const { locale, timeZone, setLocale, setTimeZone } = useLocaleStore()
+  const { t } = useI18n()
+  const zoneLabel = (option: TimeZoneOption) =>
+    t(TIME_ZONE_LABELS[option], { zone: resolveTimeZone("local") })
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={t("locale.menu", { language: LOCALES[locale].label, timeZone: zoneLabel(timeZone) })}
+        >
+          <Languages />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("locale.language")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+          {(Object.keys(LOCALES) as Locale[]).map((option) => (
+            <DropdownMenuRadioItem key={option} value={option} lang={option}>
+              {LOCALES[option].label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t("locale.timeZone")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={timeZone} onValueChange={(value) => setTimeZone(value as TimeZoneOption)}>
+          {TIME_ZONES.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {zoneLabel(option)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,104 @@
+import { SideLabel } from "@/components/side-encoding"
+import { useI18n } from "@/hooks/use-i18n"
+import { useNow } from "@/hooks/use-now"
+import { getExchangeLabel } from "@/lib/trading/exchanges"
+import { signClass } from "@/lib/trading/format"
+import { getNextFundingTime, type OpenPositionEstimate } from "@/lib/trading/open-positions"
+import { cn } from "@/lib/utils"
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return [seconds / 3600, (seconds % 3600) / 60, seconds % 60]
+    .map((part) => String(Math.floor(part)).padStart(2, "0"))
+    .join(":")
+}
+
+// Ticks on its own so the rest of the card doesn't re-render every second
+function FundingCountdown() {
+  const now = useNow(1000)
+  const next = getNextFundingTime(now)
+  const { t } = useI18n()
+
+  return (
+    <span className="text-xs text-muted-foreground">
+      {t("positions.nextFunding")} <span className="font-mono text-foreground">{formatCountdown(next - now)}</span>
+    </span>
+  )
+}
+
+type OpenPositionsPanelProps = {
+  positions: OpenPositionEstimate[]
+  asset?: string
+  className?: string
+}
+
+// Positions still accruing funding, valued at mark; the next payment assumes the latest rate holds
+export function OpenPositionsPanel({ positions, asset, className }: OpenPositionsPanelProps) {
+  const { t, format } = useI18n()
+
+  if (positions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium text-sm">{t("positions.heading")}</h4>
+        <FundingCountdown />
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr className="border-b">
+              <th className="p-2 text-left font-medium">{t("positions.side")}</th>
+              <th className="p-2 text-left font-medium">{t("positions.venue")}</th>
+              <th className="p-2 text-right font-medium">{t("positions.size")}</th>
+              <th className="p-2 text-right font-medium">{t("positions.entryMark")}</th>
+              <th className="p-2 text-right font-medium">{t("positions.fundingSoFar")}</th>
+              <th className="p-2 text-right font-medium">{t("positions.estNext")}</th>
+              <th className="p-2 text-right font-medium">{t("positions.unrealized")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.map((estimate) => {
+              const { position } = estimate
+              return (
+                <tr key={position.id} className="border-b last:border-0">
+                  <td className="p-2 font-medium">
+                    <SideLabel type={position.type} />
+                  </td>
+                  <td className="p-2">
+                    {getExchangeLabel(position.exchange)} · {position.leverage}x
+                  </td>
+                  <td className="p-2 text-right tabular-nums">
+                    {format.number(position.size, 4)} {asset}
+                  </td>
+                  <td className="p-2 text-right tabular-nums">
+                    {format.number(position.startPrice)} → {format.number(estimate.markPrice)}
+                  </td>
+                  <td className={cn("p-2 text-right tabular-nums", signClass(estimate.fundingPnl))}>
+                    {format.usd(estimate.fundingPnl, { signed: true })}
+                    <span className="text-muted-foreground"> · {t("positions.periods", { count: position.periods })}</span>
+                  </td>
+                  <td
+                    className={cn("p-2 text-right tabular-nums", estimate.nextPayment !== undefined && signClass(estimate.nextPayment))}
+                    title={
+                      estimate.nextRate !== undefined
+                        ? t("positions.latestRate", { rate: format.signedPercent(estimate.nextRate, 4) })
+                        : undefined
+                    }
+                  >
+                    {estimate.nextPayment !== undefined ? format.usd(estimate.nextPayment, { signed: true }) : "—"}
+                  </td>
+                  <td className={cn("p-2 text-right font-medium tabular-nums", signClass(estimate.unrealizedPnl))}>
+                    {format.usd(estimate.unrealizedPnl, { signed: true })}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { Link } from "react-router-dom"
+
+import { SideLabel } from "@/components/side-encoding"
+import { StatTile } from "@/components/stat-tile"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useI18n } from "@/hooks/use-i18n"
+import { usePortfolioSummary } from "@/hooks/use-trade-stats"
+import { signClass, signTone } from "@/lib/trading/format"
+import type { TradeSummary } from "@/lib/trading/stats"
+import { cn } from "@/lib/utils"
+
+function BreakdownRow({ label, summary }: { label: React.ReactNode; summary: TradeSummary }) {
+  const { t, format } = useI18n()
+
+  return (
+    <tr className="border-b last:border-0">
+      <td className="p-2 font-medium">{label}</td>
+      <td className="p-2 text-right">{summary.count}</td>
+      <td className={cn("p-2 text-right", signClass(summary.fundingPnl))}>
+        {format.usd(summary.fundingPnl, { signed: true })}
+      </td>
+      <td className="p-2 text-right">{format.usd(summary.fees)}</td>
+      <td className={cn("p-2 text-right", signClass(summary.netPnl))}>
+        {format.usd(summary.netPnl, { signed: true })}
+      </td>
+      <td className="p-2 text-right">{format.percent(summary.winRate * 100, 0)}</td>
+      <td className="p-2 text-right">
+        {t("portfolio.holdingDays", { days: format.number(summary.avgHoldingDays, 1) })}
+      </td>
+    </tr>
+  )
+}
+
+// Totals across every watchlist pair for the active range, above the per-pair cards
+export function PortfolioSummary({
+  pairs,
+  isPending,
+  className,
+}: {
+  pairs: string[]
+  isPending?: boolean
+  className?: string
+}) {
+  const links = useAppLinks()
+  const { t, format } = useI18n()
+  const { total, byPair, bySide } = usePortfolioSummary(pairs)
+  const value = (text: string) => (isPending ? "…" : text)
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-baseline justify-between">
+          {t("portfolio.title")}
+          <span className="text-sm font-normal text-muted-foreground">
+            {t("common.pairs", { count: pairs.length })}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+          <StatTile
+            label={t("stat.trades")}
+            value={value(
+              t("common.longShortCounts", { count: total.count, long: total.longCount, short: total.shortCount })
+            )}
+          />
+          <StatTile
+            label={t("stat.netFunding")}
+            value={value(format.usd(total.fundingPnl, { signed: true }))}
+            tone={isPending ? undefined : signTone(total.fundingPnl)}
+          />
+          <StatTile label={t("stat.fees")} value={value(format.usd(total.fees))} />
+          <StatTile
+            label={t("stat.realizedPnl")}
+            value={value(format.usd(total.netPnl, { signed: true }))}
+            tone={isPending ? undefined : signTone(total.netPnl)}
+          />
+          <StatTile label={t("stat.winRate")} value={value(format.percent(total.winRate * 100, 0))} />
+          <StatTile
+            label={t("stat.avgHolding")}
+            value={value(t("common.days", { count: Number(total.avgHoldingDays.toFixed(1)) }))}
+          />
+        </div>
+
+        {!isPending && total.count > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-muted-foreground text-left">
+                <tr className="border-b">
+                  <th className="p-2">{t("portfolio.breakdown")}</th>
+                  <th className="p-2 text-right">{t("stat.trades")}</th>
+                  <th className="p-2 text-right">{t("stat.netFunding")}</th>
+                  <th className="p-2 text-right">{t("stat.fees")}</th>
+                  <th className="p-2 text-right">{t("stat.netPnl")}</th>
+                  <th className="p-2 text-right">{t("stat.winRate")}</th>
+                  <th className="p-2 text-right">{t("stat.avgHold")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.filter((pair) => byPair[pair]).map((pair) => (
+                  <BreakdownRow
+                    key={pair}
+                    label={
+                      <Link to={links.pair(pair)} className="hover:underline">
+                        {pair}
+                      </Link>
+                    }
+                    summary={byPair[pair]}
+                  />
+                ))}
+                <BreakdownRow label={<SideLabel type="LONG" />} summary={bySide.LONG} />
+                <BreakdownRow label={<SideLabel type="SHORT" />} summary={bySide.SHORT} />
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,37 @@
+import { TrendingDown, TrendingUp } from "lucide-react"
+
+import { useI18n } from "@/hooks/use-i18n"
+import { sidePatternId } from "@/lib/chart-colors"
+import type { TradeType } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+
+// SVG defs for hatched SHORT fills; render inside the chart and fill with sideFill
+export function SidePatterns({ id }: { id: string }) {
+  return (
+    <defs>
+      <pattern
+        id={sidePatternId(id)}
+        width={6}
+        height={6}
+        patternUnits="userSpaceOnUse"
+        patternTransform="rotate(45)"
+      >
+        <rect width={6} height={6} fill="var(--color-short)" />
+        <rect width={2} height={6} fill="var(--background)" fillOpacity={0.6} />
+      </pattern>
+    </defs>
+  )
+}
+
+// Side name with an arrow, so it reads without relying on the colour
+export function SideLabel({ type, className }: { type: TradeType; className?: string }) {
+  const Icon = type === "LONG" ? TrendingUp : TrendingDown
+  const { t } = useI18n()
+
+  return (
+    <span className={cn("inline-flex items-center gap-0.5", type === "LONG" ? "text-long" : "text-short", className)}>
+      <Icon className="size-[1em] shrink-0" aria-hidden />
+      {t(`side.${type}`)}
+    </span>
+  )
+}
@@ -0,0 +1,29 @@
+import { cn } from "@/lib/utils"
+
+// Label over a single headline figure, for summary strips
+export function StatTile({
+  label,
+  value,
+  tone,
+  className,
+}: {
+  label: string
+  value: React.ReactNode
+  tone?: "positive" | "negative"
+  className?: string
+}) {
+  return (
+    <div className={cn("rounded-lg border bg-muted/30 p-3", className)}>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div
+        className={cn(
+          "mt-1 text-lg font-semibold tabular-nums",
+          tone === "positive" && "text-positive",
+          tone === "negative" && "text-negative"
+        )}
+      >
+        {value}
+      </div>
+    </div>
+  )
+}
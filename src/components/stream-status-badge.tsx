@@ -0,0 +1,38 @@
+import { useI18n } from "@/hooks/use-i18n"
+import { usePairStreamHealth } from "@/hooks/use-trade-stream"
+import type { MessageKey } from "@/lib/i18n"
+import type { StreamHealth } from "@/lib/trading/stream"
+import { cn } from "@/lib/utils"
+import { useStreamStore } from "@/stores/stream-store"
+
+const HEALTH_STYLES: Record<StreamHealth, { label: MessageKey; dot: string }> = {
+  live: { label: "stream.live", dot: "bg-green-500 animate-pulse" },
+  stale: { label: "stream.stale", dot: "bg-yellow-500" },
+  disconnected: { label: "stream.disconnected", dot: "bg-red-500" },
+}
+
+export function StreamStatusBadge({ pair, className }: { pair: string; className?: string }) {
+  const enabled = useStreamStore((state) => state.enabled)
+  const health = usePairStreamHealth(pair)
+  const { t } = useI18n()
+
+  if (!enabled) {
+    return null
+  }
+
+  const { dot } = HEALTH_STYLES[health]
+  const label = t(HEALTH_STYLES[health].label)
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs font-normal text-muted-foreground",
+        className
+      )}
+      title={t("stream.title", { status: label.toLowerCase() })}
+    >
+      <span className={cn("size-2 rounded-full", dot)} />
+      {label}
+    </span>
+  )
+}
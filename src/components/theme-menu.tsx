@@ -0,0 +1,61 @@
+import { Monitor, Moon, Sun } from "lucide-react"
+
+import { useTheme, type Theme } from "@/components/theme-provider"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useI18n } from "@/hooks/use-i18n"
+import type { MessageKey } from "@/lib/i18n"
+import { PALETTES, type PaletteId } from "@/lib/chart-colors"
+
+const THEME_OPTIONS: Record<Theme, { label: MessageKey; icon: typeof Sun }> = {
+  light: { label: "theme.light", icon: Sun },
+  dark: { label: "theme.dark", icon: Moon },
+  system: { label: "theme.system", icon: Monitor },
+}
+
+export function ThemeMenu() {
+  const { theme, resolvedTheme, setTheme, palette, setPalette } = useTheme()
+  const { t } = useI18n()
+  const TriggerIcon = resolvedTheme === "dark" ? Moon : Sun
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t("theme.menu", { theme: t(THEME_OPTIONS[theme].label), palette: t(PALETTES[palette]) })}>
+          <TriggerIcon />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("theme.heading")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={theme} onValueChange={(value) => setTheme(value as Theme)}>
+          {(Object.keys(THEME_OPTIONS) as Theme[]).map((option) => {
+            const { label, icon: Icon } = THEME_OPTIONS[option]
+            return (
+              <DropdownMenuRadioItem key={option} value={option}>
+                <Icon />
+                {t(label)}
+              </DropdownMenuRadioItem>
+            )
+          })}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t("palette.heading")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={palette} onValueChange={(value) => setPalette(value as PaletteId)}>
+          {(Object.keys(PALETTES) as PaletteId[]).map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {t(PALETTES[option])}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,6 +1,9 @@
 import { createContext, useContext, useEffect, useState } from "react"
 
-type Theme = "dark" | "light" | "system"
+import { useMediaQuery } from "@/hooks/use-media-query"
+import { PALETTES, type PaletteId } from "@/lib/chart-colors"
+
+export type Theme = "dark" | "light" | "system"
 
 type ThemeProviderProps = {
   children: React.ReactNode
@@ -10,12 +13,19 @@ type ThemeProviderProps = {
 
 type ThemeProviderState = {
   theme: Theme
+  // What "system" currently stands for, or the chosen theme itself
+  resolvedTheme: "dark" | "light"
   setTheme: (theme: Theme) => void
+  palette: PaletteId
+  setPalette: (palette: PaletteId) => void
 }
 
 const initialState: ThemeProviderState = {
   theme: "system",
+  resolvedTheme: "light",
   setTheme: () => null,
+  palette: "default",
+  setPalette: () => null,
 }
 
 const ThemeProviderContext = createContext<ThemeProviderState>(initialState)
@@ -29,31 +39,46 @@ export function ThemeProvider({
   const [theme, setTheme] = useState<Theme>(
     () => (localStorage.getItem(storageKey) as Theme) || defaultTheme
   )
+  const paletteKey = `${storageKey}-palette`
+  const [palette, setPalette] = useState<PaletteId>(() => {
+    const stored = localStorage.getItem(paletteKey)
+    return stored && stored in PALETTES ? (stored as PaletteId) : "default"
+  })
+  // Follows OS changes while the page is open, not just the preference at load
+  const systemDark = useMediaQuery("(prefers-color-scheme: dark)")
+  const resolvedTheme = theme === "system" ? (systemDark ? "dark" : "light") : theme
 
   useEffect(() => {
     const root = window.document.documentElement
 
     root.classList.remove("light", "dark")
+    root.classList.add(resolvedTheme)
+  }, [resolvedTheme])
 
-    if (theme === "system") {
-      const systemTheme = window.matchMedia("(prefers-color-scheme: dark)")
-        .matches
-        ? "dark"
-        : "light"
+  // The palette rides on <html> as palette-<id>; the default palette needs no class
+  useEffect(() => {
+    const root = window.document.documentElement
+    const paletteClass = `palette-${palette}`
 
-      root.classList.add(systemTheme)
-      return
+    if (palette !== "default") {
+      root.classList.add(paletteClass)
     }
 
-    root.classList.add(theme)
-  }, [theme])
+    return () => root.classList.remove(paletteClass)
+  }, [palette])
 
   const value = {
     theme,
+    resolvedTheme,
     setTheme: (theme: Theme) => {
       localStorage.setItem(storageKey, theme)
       setTheme(theme)
     },
+    palette,
+    setPalette: (palette: PaletteId) => {
+      localStorage.setItem(paletteKey, palette)
+      setPalette(palette)
+    },
   }
 
   return (
@@ -0,0 +1,18 @@
+import type { TradeDataSource } from "@/lib/trading/data-source"
+import { TradeDataSourceContext } from "@/lib/trading/data-source-context"
+
+type TradeDataSourceProviderProps = {
+  children: React.ReactNode
+  source: TradeDataSource
+}
+
+export function TradeDataSourceProvider({
+  children,
+  source,
+}: TradeDataSourceProviderProps) {
+  return (
+    <TradeDataSourceContext.Provider value={source}>
+      {children}
+    </TradeDataSourceContext.Provider>
+  )
+}
@@ -0,0 +1,302 @@
+import { useMemo, useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { ArrowDown, ArrowUp, X } from "lucide-react"
+
+import { SideLabel } from "@/components/side-encoding"
+import { Button } from "@/components/ui/button"
+import { Input, NativeSelect } from "@/components/ui/input"
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useI18n } from "@/hooks/use-i18n"
+import { useVirtualRows } from "@/hooks/use-virtual-rows"
+import type { Translate } from "@/lib/i18n"
+import { getExchangeLabel } from "@/lib/trading/exchanges"
+import { signClass, type Formatters } from "@/lib/trading/format"
+import {
+  DEFAULT_TRADE_FILTERS,
+  DEFAULT_TRADE_SORT,
+  hasActiveFilters,
+  sortTrades,
+  type TradeFilters,
+  type TradeSort,
+  type TradeSortKey,
+} from "@/lib/trading/trade-filters"
+import type { TradeBarData } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+import { useAppStore } from "@/stores/app-store"
+
+// Rows are exactly h-8 with no borders, so row offsets can be computed for virtualization
+const ROW_HEIGHT = 32
+
+type Column = {
+  id: string
+  label: string
+  sortKey?: TradeSortKey
+  align?: "right"
+  render: (trade: TradeBarData) => React.ReactNode
+  className?: (trade: TradeBarData) => string
+}
+
+// Built per language and zone; the time columns name the zone their times are shown in
+const buildColumns = (t: Translate, format: Formatters): Column[] => [
+  {
+    id: "type",
+    label: t("trades.type"),
+    sortKey: "type",
+    render: (trade) => <SideLabel type={trade.type} className="font-semibold" />,
+  },
+  {
+    id: "start",
+    label: t("trades.withZone", { label: t("trades.start"), zone: format.zoneName() }),
+    sortKey: "startTime",
+    render: (trade) => format.dateTime(trade.startTime),
+  },
+  {
+    id: "end",
+    label: t("trades.withZone", { label: t("trades.end"), zone: format.zoneName() }),
+    sortKey: "endTime",
+    render: (trade) => format.dateTime(trade.endTime),
+  },
+  {
+    id: "days",
+    label: t("trades.days"),
+    sortKey: "duration",
+    align: "right",
+    render: (trade) => format.number(trade.duration, 1),
+  },
+  {
+    id: "funding",
+    label: t("trades.funding"),
+    sortKey: "fundingTotal",
+    align: "right",
+    render: (trade) => format.signedPercent(trade.fundingTotal),
+    className: (trade) => signClass(trade.fundingTotal),
+  },
+  { id: "periods", label: t("trades.periods"), sortKey: "periods", align: "right", render: (trade) => trade.periods },
+  { id: "notional", label: t("trades.notional"), align: "right", render: (trade) => format.usd(trade.notional) },
+  { id: "fee", label: t("trades.fee"), sortKey: "fee", align: "right", render: (trade) => format.usd(trade.fee) },
+  {
+    id: "netPnl",
+    label: t("trades.netPnl"),
+    sortKey: "profitLoss",
+    align: "right",
+    render: (trade) => format.usd(trade.profitLoss, { signed: true }),
+    className: (trade) => signClass(trade.profitLoss),
+  },
+  { id: "exchange", label: t("trades.exchange"), render: (trade) => getExchangeLabel(trade.exchange) },
+  { id: "id", label: t("trades.id"), render: (trade) => trade.id, className: () => "text-muted-foreground" },
+]
+
+function TradeFilterBar({
+  filters,
+  onChange,
+}: {
+  filters: TradeFilters
+  onChange: (filters: TradeFilters) => void
+}) {
+  const update = (patch: Partial<TradeFilters>) => onChange({ ...filters, ...patch })
+  const { t } = useI18n()
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex gap-0.5 rounded-md border p-0.5">
+        {(["all", "LONG", "SHORT"] as const).map((side) => (
+          <Button
+            key={side}
+            size="sm"
+            variant={filters.side === side ? "secondary" : "ghost"}
+            className="h-7 px-2 text-xs"
+            onClick={() => update({ side })}
+          >
+            {t(`side.${side}`)}
+          </Button>
+        ))}
+      </div>
+      <NativeSelect
+        aria-label={t("trades.fundingSign")}
+        value={filters.fundingSign}
+        onChange={(event) => update({ fundingSign: event.target.value as TradeFilters["fundingSign"] })}
+        className="text-xs"
+      >
+        <option value="all">{t("trades.anyFunding")}</option>
+        <option value="positive">{t("trades.fundingCollected")}</option>
+        <option value="negative">{t("trades.fundingPaid")}</option>
+      </NativeSelect>
+      <Input
+        type="date"
+        aria-label={t("trades.startedFrom")}
+        value={filters.from}
+        max={filters.to || undefined}
+        onChange={(event) => update({ from: event.target.value })}
+        className="text-xs"
+      />
+      <span className="text-xs text-muted-foreground">{t("trades.to")}</span>
+      <Input
+        type="date"
+        aria-label={t("trades.startedTo")}
+        value={filters.to}
+        min={filters.from || undefined}
+        onChange={(event) => update({ to: event.target.value })}
+        className="text-xs"
+      />
+      <Input
+        type="search"
+        aria-label={t("trades.search")}
+        placeholder={t("trades.searchPlaceholder")}
+        value={filters.search}
+        onChange={(event) => update({ search: event.target.value })}
+        className="w-32 text-xs"
+      />
+      {hasActiveFilters(filters) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange(DEFAULT_TRADE_FILTERS)}
+        >
+          <X />
+          {t("common.clear")}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+type TradeTableProps = {
+  pair: string
+  // Already filtered, so callers can reuse the same list (e.g. for export)
+  trades: TradeBarData[]
+  totalCount: number
+  filters: TradeFilters
+  onFiltersChange: (filters: TradeFilters) => void
+  // Height of the scrolling body; rows outside it aren't rendered
+  bodyClassName?: string
+  className?: string
+}
+
+// Trade history for a pair with sorting, filters and windowed rows; rows open the trade page
+export function TradeTable({
+  pair,
+  trades,
+  totalCount,
+  filters,
+  onFiltersChange,
+  bodyClassName = "h-[480px]",
+  className,
+}: TradeTableProps) {
+  const links = useAppLinks()
+  const navigate = useNavigate()
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const { t, format } = useI18n()
+  const columns = useMemo(() => buildColumns(t, format), [t, format])
+  const [sort, setSort] = useState<TradeSort>(DEFAULT_TRADE_SORT)
+  const rows = useMemo(() => sortTrades(trades, sort), [trades, sort])
+  const { start, end, paddingTop, paddingBottom } = useVirtualRows(scrollRef, {
+    count: rows.length,
+    rowHeight: ROW_HEIGHT,
+  })
+
+  // First click sorts descending (largest, latest first); the second flips it
+  const toggleSort = (key: TradeSortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "desc" ? "asc" : "desc" }
+        : { key, direction: "desc" }
+    )
+
+  const selectedId = useAppStore((state) => (state.selectedTrade?.pair === pair ? state.selectedTrade.id : null))
+  const selectTrade = useAppStore((state) => state.selectTrade)
+
+  const openTrade = (trade: TradeBarData) => {
+    selectTrade({ pair, id: trade.id })
+    navigate(links.trade(pair, trade.id))
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <TradeFilterBar filters={filters} onChange={onFiltersChange} />
+        <span className="text-xs text-muted-foreground">
+          {trades.length === totalCount
+            ? t("common.trades", { count: totalCount })
+            : t("trades.filteredCount", { shown: trades.length, total: totalCount })}
+        </span>
+      </div>
+
+      <div ref={scrollRef} className={cn("overflow-auto rounded-md border", bodyClassName)}>
+        <table className="w-full text-xs font-mono" aria-rowcount={rows.length + 1}>
+          <thead className="sticky top-0 z-10 bg-card text-muted-foreground text-left shadow-[0_1px_0_var(--border)]">
+            <tr>
+              {columns.map((column) => {
+                const active = column.sortKey && sort.key === column.sortKey
+                return (
+                  <th
+                    key={column.id}
+                    className={cn("p-2 whitespace-nowrap font-medium", column.align === "right" && "text-right")}
+                    aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : undefined}
+                  >
+                    {column.sortKey ? (
+                      <button
+                        type="button"
+                        className={cn("inline-flex items-center gap-1 hover:text-foreground", active && "text-foreground")}
+                        onClick={() => toggleSort(column.sortKey!)}
+                      >
+                        {column.label}
+                        {active &&
+                          (sort.direction === "asc" ? <ArrowUp className="size-3" /> : <ArrowDown className="size-3" />)}
+                      </button>
+                    ) : (
+                      column.label
+                    )}
+                  </th>
+                )
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {paddingTop > 0 && (
+              <tr aria-hidden style={{ height: paddingTop }}>
+                <td colSpan={columns.length} />
+              </tr>
+            )}
+            {rows.slice(start, end).map((trade, offset) => (
+              <tr
+                key={trade.id}
+                tabIndex={0}
+                aria-rowindex={start + offset + 2}
+                aria-current={trade.id === selectedId || undefined}
+                className={cn(
+                  "h-8 cursor-pointer hover:bg-muted focus-visible:bg-muted outline-none",
+                  (start + offset) % 2 === 1 && "bg-muted/40",
+                  trade.id === selectedId && "bg-accent text-accent-foreground"
+                )}
+                onClick={() => openTrade(trade)}
+                onKeyDown={(event) => event.key === "Enter" && openTrade(trade)}
+              >
+                {columns.map((column) => (
+                  <td
+                    key={column.id}
+                    className={cn(
+                      "px-2 py-0 whitespace-nowrap",
+                      column.align === "right" && "text-right",
+                      column.className?.(trade)
+                    )}
+                  >
+                    {column.render(trade)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {paddingBottom > 0 && (
+              <tr aria-hidden style={{ height: paddingBottom }}>
+                <td colSpan={columns.length} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="p-6 text-center text-sm text-muted-foreground">{t("trades.noMatches")}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useId, useMemo, useRef, useState } from "react"
+import { ComposedChart, ReferenceArea, XAxis, YAxis } from "recharts"
+import { ChevronLeft, ChevronRight, RotateCcw, ZoomIn, ZoomOut } from "lucide-react"
+
+import { SideLabel, SidePatterns } from "@/components/side-encoding"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart"
+import { useI18n } from "@/hooks/use-i18n"
+import { THEME_COLORS, sideFill } from "@/lib/chart-colors"
+import type { Translate } from "@/lib/i18n"
+import {
+  assignLanes,
+  clampDomain,
+  panDomain,
+  zoomDomain,
+  type TimeDomain,
+  type TimelineTrade,
+} from "@/lib/trading/timeline"
+import { DAY_MS, type TimeRange, type TradeBarData } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+
+const chartConfig = (t: Translate) =>
+  ({
+    long: {
+      label: t("chart.series.long"),
+      ...THEME_COLORS.long,
+    },
+    short: {
+      label: t("chart.series.short"),
+      ...THEME_COLORS.short,
+    },
+  }) satisfies ChartConfig
+
+const LANE_HEIGHT = 28
+const MIN_SPAN_MS = 6 * 60 * 60 * 1000
+
+// Horizontal start-to-end bars on a real time axis, overlapping trades in separate lanes
+export function TradeTimeline({
+  trades,
+  range,
+  onSelect,
+  className,
+}: {
+  trades: TradeBarData[]
+  range: TimeRange
+  onSelect?: (trade: TradeBarData) => void
+  className?: string
+}) {
+  const chartId = `trade-timeline-${useId().replace(/[^\w-]/g, "")}`
+  const { t, format } = useI18n()
+  const { items, laneCount } = useMemo(() => assignLanes(trades), [trades])
+
+  // Trades can run past either edge of the range; let the view reach them
+  const bounds = useMemo<TimeDomain>(
+    () => [
+      Math.min(new Date(range.from).getTime(), ...items.map((item) => item.start)),
+      Math.max(new Date(range.to).getTime(), ...items.map((item) => item.end)),
+    ],
+    [range, items]
+  )
+
+  const [view, setView] = useState<TimeDomain | null>(null)
+  // A new range starts unzoomed; trades arriving within it only keep the view inside bounds
+  const [viewRange, setViewRange] = useState(range)
+  if (viewRange !== range) {
+    setViewRange(range)
+    setView(null)
+  }
+  const domain = view ? clampDomain(view, bounds) : bounds
+  const [hovered, setHovered] = useState<TimelineTrade | null>(null)
+  const drag = useRef<{ x: number; domain: TimeDomain } | null>(null)
+  // Set once the pointer moves far enough that releasing it shouldn't count as a click
+  const dragged = useRef(false)
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!drag.current) {
+      return
+    }
+
+    const width = event.currentTarget.clientWidth || 1
+    dragged.current ||= Math.abs(drag.current.x - event.clientX) > 3
+    const fraction = (drag.current.x - event.clientX) / width
+    setView(panDomain(drag.current.domain, fraction, bounds))
+  }
+
+  const lanes = Array.from({ length: laneCount }, (_, lane) => lane + 0.5)
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-end gap-1">
+        <Button variant="ghost" size="icon" aria-label={t("timeline.panBack")} onClick={() => setView(panDomain(domain, -0.25, bounds))}>
+          <ChevronLeft />
+        </Button>
+        <Button variant="ghost" size="icon" aria-label={t("timeline.panForward")} onClick={() => setView(panDomain(domain, 0.25, bounds))}>
+          <ChevronRight />
+        </Button>
+        <Button variant="ghost" size="icon" aria-label={t("timeline.zoomIn")} onClick={() => setView(zoomDomain(domain, 0.5, bounds, MIN_SPAN_MS))}>
+          <ZoomIn />
+        </Button>
+        <Button variant="ghost" size="icon" aria-label={t("timeline.zoomOut")} onClick={() => setView(zoomDomain(domain, 2, bounds, MIN_SPAN_MS))}>
+          <ZoomOut />
+        </Button>
+        <Button variant="ghost" size="icon" aria-label={t("timeline.resetZoom")} disabled={!view} onClick={() => setView(null)}>
+          <RotateCcw />
+        </Button>
+      </div>
+
+      <div
+        className="cursor-grab active:cursor-grabbing select-none"
+        onMouseDown={(event) => {
+          drag.current = { x: event.clientX, domain }
+          dragged.current = false
+        }}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => {
+          drag.current = null
+        }}
+        onMouseLeave={() => {
+          drag.current = null
+        }}
+      >
+        <ChartContainer
+          config={chartConfig(t)}
+          className="aspect-auto w-full"
+          style={{ height: Math.max(160, laneCount * LANE_HEIGHT + 60) }}
+        >
+          <ComposedChart data={[]} margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+            <SidePatterns id={chartId} />
+            <XAxis
+              type="number"
+              dataKey="time"
+              domain={domain}
+              allowDataOverflow
+              // Spans under three days need the hour to tell ticks apart
+              tickFormatter={(value: number) =>
+                domain[1] - domain[0] < 3 * DAY_MS ? format.axisDateTime(value) : format.axisDate(value)
+              }
+              tick={{ fontSize: 10 }}
+              axisLine={false}
+              tickLine={false}
+            />
+            <YAxis
+              type="number"
+              domain={[0, Math.max(1, laneCount)]}
+              ticks={lanes}
+              tickFormatter={(value: number) => t("timeline.lane", { lane: Math.floor(value) + 1 })}
+              reversed
+              width={30}
+              tick={{ fontSize: 10 }}
+              axisLine={false}
+              tickLine={false}
+            />
+            {items.map((item) => (
+              <ReferenceArea
+                key={item.trade.id}
+                x1={item.start}
+                x2={item.end}
+                y1={item.lane + 0.15}
+                y2={item.lane + 0.85}
+                ifOverflow="hidden"
+                fill={sideFill(item.trade.type, chartId)}
+                fillOpacity={hovered?.trade.id === item.trade.id ? 1 : 0.8}
+                radius={3}
+                onMouseEnter={() => setHovered(item)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => !dragged.current && onSelect?.(item.trade)}
+              />
+            ))}
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      <p className="text-xs text-muted-foreground font-mono min-h-4">
+        {hovered ? (
+          <>
+            <SideLabel type={hovered.trade.type} />
+            {" "}
+            {format.dateTime(hovered.start, { seconds: false })} →{" "}
+            {format.dateTime(hovered.end, { seconds: false })} {format.zoneName(hovered.start)}
+            {" | "}
+            {t("timeline.periods", { count: hovered.trade.periods })}
+            {" | "}
+            {t("timeline.funding", { value: format.signedPercent(hovered.trade.fundingTotal) })}
+            {" | "}
+            {t("timeline.pnl", { value: format.usd(hovered.trade.profitLoss, { signed: true }) })}
+          </>
+        ) : (
+          t("timeline.hint")
+        )}
+      </p>
+    </div>
+  )
+}
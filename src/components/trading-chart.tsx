@@ -0,0 +1,474 @@
+import { useId, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell, ReferenceLine } from "recharts";
+import type { TooltipProps } from "recharts";
+
+import { ChartDataTable } from "@/components/chart-data-table";
+import { ExportMenu } from "@/components/export-menu";
+import { StreamStatusBadge } from "@/components/stream-status-badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import type { ChartConfig } from "@/components/ui/chart";
+import { FundingRateChart } from "@/components/funding-rate-chart";
+import { OpenPositionsPanel } from "@/components/open-positions-panel";
+import { SideLabel, SidePatterns } from "@/components/side-encoding";
+import { TradeTable } from "@/components/trade-table";
+import { TradeTimeline } from "@/components/trade-timeline";
+import { useAppLinks } from "@/hooks/use-app-links";
+import { useI18n } from "@/hooks/use-i18n";
+import { useOpenPositions } from "@/hooks/use-open-positions";
+import { useTradeFilters } from "@/hooks/use-trade-filters";
+import { useFundingRates, useTrades } from "@/hooks/use-trades";
+import { computeMargin } from "@/lib/trading/accounting";
+import { BACKTEST_EXCHANGE } from "@/lib/trading/backtest";
+import { THEME_COLORS, sideFill } from "@/lib/chart-colors";
+import type { Translate } from "@/lib/i18n";
+import { ALL_CARD_WIDGETS, type CardWidget } from "@/lib/layout/dashboard-layout";
+import { getExchangeLabel } from "@/lib/trading/exchanges";
+import { signClass } from "@/lib/trading/format";
+import type { OpenPositionEstimate } from "@/lib/trading/open-positions";
+import { getBaseAsset } from "@/lib/trading/pairs";
+import { DAY_MS, type TimeRange, type TradeBarData } from "@/lib/trading/types";
+import {
+  CHART_MODES,
+  selectChartMode,
+  selectTradeSummary,
+  selectTrades,
+  useAppStore,
+} from "@/stores/app-store";
+
+// Built per render so the series labels follow the language
+const chartConfig = (t: Translate) =>
+  ({
+    profitLoss: {
+      label: t('chart.mode.profitLoss'),
+      color: 'var(--chart-1)',
+    },
+    long: {
+      label: t('chart.series.long'),
+      ...THEME_COLORS.long,
+    },
+    short: {
+      label: t('chart.series.short'),
+      ...THEME_COLORS.short,
+    },
+  }) satisfies ChartConfig;
+
+// An open position on the bar chart: height is time held and unrealized PnL so far
+type OpenPositionBar = {
+  open: true;
+  id: string;
+  type: TradeBarData['type'];
+  startTime: string;
+  duration: number;
+  profitLoss: number;
+  estimate: OpenPositionEstimate;
+};
+
+type ChartRow = TradeBarData | OpenPositionBar;
+
+const toOpenPositionBar = (estimate: OpenPositionEstimate, now: number): OpenPositionBar => {
+  const { position } = estimate;
+  return {
+    open: true,
+    id: position.id,
+    type: position.type,
+    startTime: position.startTime,
+    duration: Math.round(((now - new Date(position.startTime).getTime()) / DAY_MS) * 10) / 10,
+    profitLoss: estimate.unrealizedPnl,
+    estimate,
+  };
+};
+
+// Fee as a share of entry notional, shown next to the dollar figure
+const feePercent = (trade: TradeBarData) => (trade.notional > 0 ? (trade.fee / trade.notional) * 100 : 0);
+
+const OpenPositionTooltip = ({ bar, asset }: { bar: OpenPositionBar; asset?: string }) => {
+  const { position, notional, markPrice, pricePnl, fundingPnl, unrealizedPnl } = bar.estimate;
+  const { t, tNodes, format } = useI18n();
+  return (
+    <div className="bg-background border rounded-lg p-3 shadow-lg">
+      <p className="font-semibold text-sm">
+        {tNodes('tooltip.position', { side: <SideLabel type={position.type} /> })}
+        <span className="ml-2 text-xs font-normal text-muted-foreground">{t('tooltip.openBadge')}</span>
+      </p>
+      <p className="text-xs text-muted-foreground mt-1">
+        {t('tooltip.held', { days: t('common.days', { count: bar.duration }), periods: position.periods })}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {t('tooltip.size', { size: format.number(position.size, 4), asset: asset ?? '', notional: format.usd(notional) })}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {t('tooltip.entryMark', {
+          entry: format.number(position.startPrice),
+          mark: format.number(markPrice),
+          exchange: getExchangeLabel(position.exchange),
+        })}
+      </p>
+      <div className="mt-2 pt-2 border-t space-y-0.5 text-xs text-muted-foreground">
+        <p>{t('tooltip.pricePnl')} <span className={signClass(pricePnl)}>{format.usd(pricePnl, { signed: true })}</span></p>
+        <p>{t('tooltip.fundingPnl')} <span className={signClass(fundingPnl)}>{format.usd(fundingPnl, { signed: true })}</span></p>
+        <p className="font-semibold text-foreground">
+          {t('tooltip.unrealized')} <span className={signClass(unrealizedPnl)}>{format.usd(unrealizedPnl, { signed: true })}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+// Custom tooltip for bar chart
+const CustomTooltip = ({ active, payload, asset }: TooltipProps<number, string> & { asset?: string }) => {
+  const { t, tNodes, format } = useI18n();
+  if (active && payload && payload.length > 0) {
+    const row: ChartRow = payload[0].payload;
+    if ('open' in row) {
+      return <OpenPositionTooltip bar={row} asset={asset} />;
+    }
+    const trade = row;
+    return (
+      <div className="bg-background border rounded-lg p-3 shadow-lg">
+        <p className="font-semibold text-sm">
+          {tNodes('tooltip.trade', { side: <SideLabel type={trade.type} /> })}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('tooltip.duration', { days: t('common.days', { count: trade.duration }) })}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t('tooltip.funding')} <span className={signClass(trade.fundingTotal)}>
+            {format.signedPercent(trade.fundingTotal)} ({format.usd(trade.fundingPnl, { signed: true })})
+          </span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t('tooltip.periods', { periods: trade.periods })}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t('tooltip.size', { size: format.number(trade.size, 4), asset: asset ?? '', notional: format.usd(trade.notional) })}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t('tooltip.margin', {
+            leverage: trade.leverage,
+            mode: t(`marginMode.${trade.marginMode}`),
+            margin: format.usd(computeMargin(trade.notional, trade.leverage)),
+            exchange: getExchangeLabel(trade.exchange),
+          })}
+        </p>
+        <div className="mt-2 pt-2 border-t space-y-0.5 text-xs text-muted-foreground">
+          <p>{t('tooltip.pricePnl')} <span className={signClass(trade.pricePnl)}>{format.usd(trade.pricePnl, { signed: true })}</span></p>
+          <p>{t('tooltip.fundingPnl')} <span className={signClass(trade.fundingPnl)}>{format.usd(trade.fundingPnl, { signed: true })}</span></p>
+          <p>{t('tooltip.fees', { fee: format.usd(-trade.fee), percent: format.percent(feePercent(trade)) })}</p>
+          <p className="font-semibold text-foreground">
+            {t('tooltip.netPnl')} <span className={signClass(trade.profitLoss)}>
+              {format.usd(trade.profitLoss, { signed: true })} ({format.signedPercent(trade.netReturn)})
+            </span>
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Placeholder shown in the chart slot while loading, on error or with no trades
+const ChartPlaceholder = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-[300px] w-full flex flex-col items-center justify-center gap-3 rounded-lg border border-dashed text-sm text-muted-foreground">
+    {children}
+  </div>
+);
+
+type TradingChartProps = {
+  pair: string;
+  range: TimeRange;
+  // "detail" is the full-size pair page version, which shows its own trade table
+  variant?: "card" | "detail";
+  // Sections the card shows; the detail variant always shows all of them
+  widgets?: CardWidget[];
+};
+
+export const TradingChart = ({ pair, range, variant = "card", widgets = ALL_CARD_WIDGETS }: TradingChartProps) => {
+  const { isPending, isError, error, refetch } = useTrades(pair, range);
+  // Trades, their summary, filters and chart mode come from the app store, shared with
+  // the pair page, the portfolio totals and any other view of this pair
+  const trades = useAppStore(selectTrades(pair));
+  const links = useAppLinks();
+  const navigate = useNavigate();
+  const { t, format } = useI18n();
+  const chartHeight = variant === "detail" ? "h-[480px]" : "h-[300px]";
+  const mode = useAppStore(selectChartMode(pair));
+  const setChartMode = useAppStore((state) => state.setChartMode);
+  const selectedTrade = useAppStore((state) => state.selectedTrade);
+  const selectTrade = useAppStore((state) => state.selectTrade);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartId = `trading-chart-${useId().replace(/[^\w-]/g, "")}`;
+  // Bar under the pointer or the keyboard cursor, so Enter can open it like a click
+  const [activeIndex, setActiveIndex] = useState<number>();
+  const { filters, setFilters, filtered: filteredTrades } = useTradeFilters(pair);
+  const shows = (widget: CardWidget) => variant === "detail" || widgets.includes(widget);
+  const fundingRates = useFundingRates(pair, range, { enabled: shows("chart") && mode === "fundingRate" });
+  const { positions: openPositions, markPrice } = useOpenPositions(pair, trades);
+  const openCount = openPositions.length;
+  const now = Date.now();
+  const chartRows: ChartRow[] = [
+    ...trades,
+    ...openPositions.map((estimate) => toOpenPositionBar(estimate, now)),
+  ];
+
+  const openTrade = (trade: TradeBarData) => {
+    selectTrade({ pair, id: trade.id });
+    navigate(links.trade(pair, trade.id));
+  };
+
+  const openRow = (row: ChartRow | undefined) => {
+    if (row && !('open' in row)) {
+      openTrade(row);
+    }
+  };
+
+  const {
+    longCount: longTrades,
+    shortCount: shortTrades,
+    avgFunding,
+    netPnl,
+    notional,
+  } = useAppStore(selectTradeSummary(pair));
+  // Notional of every trade in view plus any open positions, valued at mark when known
+  const exposure =
+    notional + openPositions.reduce((sum, p) => sum + p.position.size * p.markPrice, 0);
+
+  // Arrow keys step between bars with the tooltip following (recharts' accessibility layer)
+  const renderBarChart = () => (
+    <ChartContainer
+      config={chartConfig(t)}
+      className={`${chartHeight} w-full [&_.recharts-surface:focus-visible]:outline-ring`}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter' && activeIndex !== undefined) {
+          openRow(chartRows[activeIndex]);
+        }
+      }}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={chartRows}
+          margin={{ top: 10, right: 30, left: 10, bottom: 5 }}
+          accessibilityLayer
+          title={t('chart.title', { pair, mode: t(`chart.mode.${mode}`).toLowerCase() })}
+          desc={t('chart.description')}
+          onMouseMove={(state) => setActiveIndex(state.activeTooltipIndex)}
+        >
+          <SidePatterns id={chartId} />
+          <XAxis 
+            dataKey="startTime" 
+            tickFormatter={format.axisDate}
+            tick={{ fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis 
+            tick={{ fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+            label={{ value: t(`chart.axis.${mode}`), angle: -90, position: 'insideLeft' }}
+          />
+          <ChartTooltip content={<CustomTooltip asset={getBaseAsset(pair)} />} />
+          {mode === "profitLoss" && <ReferenceLine y={0} stroke="var(--border)" />}
+          
+          {/* Trade bars */}
+          <Bar
+            dataKey={mode}
+            radius={[2, 2, 0, 0]}
+            className="cursor-pointer"
+            onClick={(data: { payload: ChartRow }) => openRow(data.payload)}
+          >
+            {chartRows.map((row, index) => {
+              const color = row.type === 'LONG' ? 'var(--color-long)' : 'var(--color-short)';
+              // The trade last opened stays outlined when coming back to the chart
+              const selected = selectedTrade?.pair === pair && selectedTrade.id === row.id;
+              // Open positions are outlined and dashed: their figures still move
+              return 'open' in row ? (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={sideFill(row.type, chartId)}
+                  fillOpacity={0.2}
+                  stroke={color}
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                />
+              ) : (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={sideFill(row.type, chartId)}
+                  fillOpacity={row.exchange === BACKTEST_EXCHANGE ? 0.45 : 1}
+                  stroke={selected ? 'var(--foreground)' : undefined}
+                  strokeWidth={selected ? 2 : undefined}
+                />
+              );
+            })}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+
+  const renderFundingChart = () => {
+    if (fundingRates.isPending) {
+      return <ChartPlaceholder>{t('common.loadingFundingRates')}</ChartPlaceholder>;
+    }
+
+    if (fundingRates.isError) {
+      return (
+        <ChartPlaceholder>
+          <span className="text-destructive">{t('common.failedFundingRates', { message: fundingRates.error.message })}</span>
+          <Button variant="outline" size="sm" onClick={() => fundingRates.refetch()}>
+            {t('common.retry')}
+          </Button>
+        </ChartPlaceholder>
+      );
+    }
+
+    if (fundingRates.data.length === 0) {
+      return <ChartPlaceholder>{t('chart.noFunding', { pair })}</ChartPlaceholder>;
+    }
+
+    return <FundingRateChart rates={fundingRates.data} trades={trades} className={chartHeight} />;
+  };
+
+  const renderBody = () => {
+    if (isPending) {
+      return <ChartPlaceholder>{t('common.loadingTrades')}</ChartPlaceholder>;
+    }
+
+    if (isError) {
+      return (
+        <ChartPlaceholder>
+          <span className="text-destructive">{t('common.failedTrades', { message: error.message })}</span>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            {t('common.retry')}
+          </Button>
+        </ChartPlaceholder>
+      );
+    }
+
+    if (trades.length === 0 && openCount === 0) {
+      return <ChartPlaceholder>{t('chart.noTrades', { pair })}</ChartPlaceholder>;
+    }
+
+    return (
+      <>
+        {shows("chart") && (
+          <>
+            <div className="flex justify-end gap-1">
+              {CHART_MODES.map((key) => (
+                <Button
+                  key={key}
+                  variant={mode === key ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setChartMode(pair, key)}
+                >
+                  {t(`chart.mode.${key}`)}
+                </Button>
+              ))}
+            </div>
+            <div ref={chartRef}>
+              {mode === "fundingRate"
+                ? renderFundingChart()
+                : mode === "timeline"
+                  ? (
+                    <TradeTimeline
+                      trades={trades}
+                      range={range}
+                      onSelect={openTrade}
+                    />
+                  )
+                  : renderBarChart()}
+            </div>
+            <ChartDataTable
+              caption={t('chart.caption', { pair })}
+              trades={trades}
+              openPositions={openPositions}
+              now={now}
+            />
+          </>
+        )}
+
+        {shows("openPositions") && (
+          <OpenPositionsPanel positions={openPositions} asset={getBaseAsset(pair)} />
+        )}
+        
+        {/* Trade History */}
+        {variant === "card" && shows("trades") && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">{t('chart.recentTrades')}</h4>
+            <TradeTable
+              pair={pair}
+              trades={filteredTrades}
+              totalCount={trades.length}
+              filters={filters}
+              onFiltersChange={setFilters}
+              bodyClassName="h-64"
+            />
+          </div>
+        )}
+      </>
+    );
+  };
+  
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              {variant === "card" ? (
+                <Link to={links.pair(pair)} className="text-xl font-bold hover:underline">
+                  {pair}
+                </Link>
+              ) : (
+                <span className="text-xl font-bold">{pair}</span>
+              )}
+              <StreamStatusBadge pair={pair} />
+              <ExportMenu
+                subject={pair}
+                range={range}
+                trades={{ [pair]: variant === "card" ? filteredTrades : trades }}
+                chartRef={shows("chart") ? chartRef : undefined}
+                disabled={isPending || isError}
+              />
+            </div>
+            {markPrice !== undefined && (
+              <div className="text-sm text-muted-foreground mt-1 font-normal">
+                {t('chart.mark')} <span className="font-mono">{format.number(markPrice)}</span>
+              </div>
+            )}
+            {shows("summary") && (
+              <>
+                <div className="text-sm text-muted-foreground mt-1">
+                  {t('chart.avgFunding')}
+                  <span className={`ml-2 ${signClass(avgFunding)}`}>
+                    {format.signedPercent(avgFunding)}
+                  </span>
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  {t('chart.netPnl')}
+                  <span className={`ml-2 ${signClass(netPnl)}`}>
+                    {format.usd(netPnl, { signed: true })}
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+          {shows("summary") && (
+            <div className="text-right text-sm text-muted-foreground">
+              <div>{t('chart.long', { count: longTrades })}</div>
+              <div>{t('chart.short', { count: shortTrades })}</div>
+              {openCount > 0 && <div>{t('chart.open', { count: openCount })}</div>}
+              <div>{t('chart.exposure', { value: format.usd(exposure) })}</div>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderBody()}
+      </CardContent>
+    </Card>
+  );
+};
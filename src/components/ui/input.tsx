@@ -0,0 +1,30 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+const fieldClass =
+  "h-8 rounded-md border bg-background px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 aria-invalid:border-destructive disabled:pointer-events-none disabled:opacity-50"
+
+function Input({ className, type, ...props }: React.ComponentProps<"input">) {
+  return (
+    <input
+      type={type}
+      data-slot="input"
+      className={cn(fieldClass, className)}
+      {...props}
+    />
+  )
+}
+
+// A plain <select> styled like the inputs it sits beside
+function NativeSelect({ className, ...props }: React.ComponentProps<"select">) {
+  return (
+    <select
+      data-slot="native-select"
+      className={cn(fieldClass, className)}
+      {...props}
+    />
+  )
+}
+
+export { Input, NativeSelect }
@@ -0,0 +1,94 @@
+import { useState } from "react"
+import toast from "react-hot-toast"
+import { ChevronLeft, ChevronRight, Plus, RotateCcw, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/hooks/use-i18n"
+import { KNOWN_PAIRS, normalizePairSymbol } from "@/lib/trading/pairs"
+import { cn } from "@/lib/utils"
+import { useWatchlistStore } from "@/stores/watchlist-store"
+
+export function WatchlistEditor({ className }: { className?: string }) {
+  const { pairs, addPair, removePair, movePair, reset } = useWatchlistStore()
+  const [symbol, setSymbol] = useState("")
+  const { t } = useI18n()
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault()
+    const error = addPair(symbol)
+
+    if (error) {
+      toast.error(t(error, { symbol: normalizePairSymbol(symbol) }))
+      return
+    }
+
+    setSymbol("")
+  }
+
+  const suggestions = Object.keys(KNOWN_PAIRS).filter((pair) => !pairs.includes(pair))
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-2", className)}>
+      {pairs.map((pair, index) => (
+        <div
+          key={pair}
+          className="flex items-center gap-0.5 rounded-full border bg-muted/50 pl-1 pr-1 text-sm"
+        >
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            aria-label={t("watchlist.moveLeft", { pair })}
+            disabled={index === 0}
+            onClick={() => movePair(index, index - 1)}
+          >
+            <ChevronLeft />
+          </Button>
+          <span className="px-1 font-medium">{pair}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            aria-label={t("watchlist.moveRight", { pair })}
+            disabled={index === pairs.length - 1}
+            onClick={() => movePair(index, index + 1)}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            aria-label={t("watchlist.remove", { pair })}
+            onClick={() => removePair(pair)}
+          >
+            <X />
+          </Button>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-1">
+        <input
+          list="known-pairs"
+          value={symbol}
+          onChange={(event) => setSymbol(event.target.value)}
+          placeholder={t("watchlist.addPlaceholder")}
+          aria-label={t("watchlist.addLabel")}
+          className="h-8 w-32 rounded-md border bg-background px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        />
+        <datalist id="known-pairs">
+          {suggestions.map((pair) => (
+            <option key={pair} value={pair} />
+          ))}
+        </datalist>
+        <Button type="submit" variant="outline" size="sm" disabled={!symbol.trim()}>
+          <Plus />
+          {t("common.add")}
+        </Button>
+        <Button type="button" variant="ghost" size="icon" aria-label={t("watchlist.reset")} onClick={reset}>
+          <RotateCcw />
+        </Button>
+      </form>
+    </div>
+  )
+}
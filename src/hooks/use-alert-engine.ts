@@ -0,0 +1,165 @@
+import { useEffect } from "react"
+import toast from "react-hot-toast"
+import { keepPreviousData, useQueries } from "@tanstack/react-query"
+import { useShallow } from "zustand/react/shallow"
+
+import { useI18n } from "@/hooks/use-i18n"
+import { useNow } from "@/hooks/use-now"
+import { useTradeDataSource } from "@/hooks/use-trade-data-source"
+import { diffMatches, evaluateRule, type AlertEvent } from "@/lib/alerts/rules"
+import type { Translate } from "@/lib/i18n"
+import { mergeOpenPositions } from "@/lib/trading/open-positions"
+import { DAY_MS, type FundingRatePoint, type OpenPosition, type TradeBarData } from "@/lib/trading/types"
+import { useAlertStore } from "@/stores/alert-store"
+import { useStreamStore } from "@/stores/stream-store"
+
+// Position durations are re-checked on this tick even when no data arrives
+const EVALUATE_EVERY_MS = 30_000
+// Fetched windows move in these steps, so query keys stay put between steps
+const REFRESH_EVERY_MS = 5 * 60_000
+
+function notifyBrowser(event: AlertEvent, t: Translate) {
+  if ("Notification" in window && Notification.permission === "granted") {
+    new Notification(t("alerts.notificationTitle"), { body: event.message, tag: event.key })
+  }
+}
+
+// Watches the source and the live stream for the enabled rules' pairs. Each condition fires
+// once when it starts holding, through a toast, a browser notification and the history.
+export function useAlertEngine() {
+  const source = useTradeDataSource()
+  const rules = useAlertStore((state) => state.rules)
+  const recordEvents = useAlertStore((state) => state.recordEvents)
+  const activeKeys = useAlertStore((state) => state.activeKeys)
+  const setActiveKeys = useAlertStore((state) => state.setActiveKeys)
+  const now = useNow(EVALUATE_EVERY_MS)
+  const { t, format } = useI18n()
+
+  const enabled = rules.filter((rule) => rule.enabled)
+  const rulePairs = [...new Set(enabled.map((rule) => rule.pair))]
+  // Only what the rules read: mark prices and heartbeats leave these untouched, so stream
+  // traffic doesn't re-render the app
+  const liveFunding = useStreamStore(
+    useShallow((state) =>
+      Object.fromEntries(rulePairs.map((pair) => [pair, state.pairs[pair]?.lastFunding]))
+    )
+  )
+  const livePositions = useStreamStore(
+    useShallow((state) =>
+      Object.fromEntries(rulePairs.map((pair) => [pair, state.pairs[pair]?.openPositions]))
+    )
+  )
+  const fundingPairs = [...new Set(enabled.filter((r) => r.kind === "funding-rate").map((r) => r.pair))]
+  const durationPairs = [...new Set(enabled.filter((r) => r.kind === "position-duration").map((r) => r.pair))]
+  const netFundingRules = enabled.filter((r) => r.kind === "net-funding")
+  const tradePairs = [...new Set(netFundingRules.map((r) => r.pair))]
+  const windowDays = Math.max(1, ...netFundingRules.map((r) => r.windowDays))
+
+  const anchor = Math.floor(now / REFRESH_EVERY_MS) * REFRESH_EVERY_MS
+  const to = new Date(anchor).toISOString()
+  const fundingFrom = new Date(anchor - DAY_MS).toISOString()
+  const tradesFrom = new Date(anchor - windowDays * DAY_MS).toISOString()
+
+  // Windows move every refresh, so each key change would start empty; the previous window's
+  // data stands in until the new one loads. Pairs still loading for the first time are absent.
+  const latestFunding = useQueries({
+    queries: fundingPairs.map((pair) => ({
+      queryKey: ["funding-rates", source.id, pair, fundingFrom, to, null],
+      queryFn: () => source.getFundingRates(pair, { from: fundingFrom, to }),
+      placeholderData: keepPreviousData,
+    })),
+    combine: (results) =>
+      Object.fromEntries(
+        results.flatMap(({ data }, index): [string, FundingRatePoint | undefined][] =>
+          data ? [[fundingPairs[index], data[data.length - 1]]] : []
+        )
+      ),
+  })
+
+  const recentTrades = useQueries({
+    queries: tradePairs.map((pair) => ({
+      queryKey: ["trades", source.id, pair, tradesFrom, to],
+      queryFn: () => source.getTrades(pair, { from: tradesFrom, to }),
+      placeholderData: keepPreviousData,
+    })),
+    combine: (results) =>
+      Object.fromEntries(
+        results.flatMap(({ data }, index): [string, TradeBarData[]][] =>
+          data ? [[tradePairs[index], data]] : []
+        )
+      ),
+  })
+
+  const sourcePositions = useQueries({
+    queries: durationPairs.map((pair) => ({
+      queryKey: ["open-positions", source.id, pair],
+      queryFn: () => source.getOpenPositions(pair),
+      refetchInterval: REFRESH_EVERY_MS,
+    })),
+    combine: (results) =>
+      Object.fromEntries(
+        results.flatMap(({ data, isPending }, index): [string, OpenPosition[] | undefined][] =>
+          isPending ? [] : [[durationPairs[index], data]]
+        )
+      ),
+  })
+
+  // A rule whose data hasn't loaded yet is skipped rather than judged on nothing, which
+  // would read as $0 net funding or no open positions
+  const isLoading = (rule: (typeof enabled)[number]) => {
+    switch (rule.kind) {
+      case "funding-rate":
+        return !(rule.pair in latestFunding) && !liveFunding[rule.pair]
+      case "position-duration":
+        return !(rule.pair in sourcePositions)
+      case "net-funding":
+        return !(rule.pair in recentTrades)
+    }
+  }
+  const skipped = enabled.filter(isLoading)
+
+  const matches = enabled.flatMap((rule) => {
+    if (skipped.includes(rule)) {
+      return []
+    }
+
+    const live = liveFunding[rule.pair]
+    const fetched = latestFunding[rule.pair]
+    // The stream's settlement wins when it is the newer one
+    const funding = live && (!fetched || live.time >= fetched.time) ? live : fetched
+
+    return evaluateRule(
+      rule,
+      {
+        now,
+        latestFunding: funding,
+        openPositions: mergeOpenPositions(sourcePositions[rule.pair], livePositions[rule.pair], []),
+        recentTrades: recentTrades[rule.pair] ?? [],
+      },
+      t,
+      format
+    )
+  })
+  const skippedIds = skipped.map((rule) => rule.id)
+
+  useEffect(() => {
+    const active = new Set(activeKeys)
+    const { fired, active: next } = diffMatches(active, matches, skippedIds)
+
+    if (next.size !== active.size || [...next].some((key) => !active.has(key))) {
+      setActiveKeys([...next])
+    }
+
+    if (!fired.length) {
+      return
+    }
+
+    const events = fired.map((match) => ({ ...match, firedAt: Date.now() }))
+    recordEvents(events)
+
+    for (const event of events) {
+      toast(event.message, { icon: "🔔", id: event.key })
+      notifyBrowser(event, t)
+    }
+  }, [matches, skippedIds, activeKeys, setActiveKeys, recordEvents, t])
+}
@@ -0,0 +1,33 @@
+import { useMemo } from "react"
+import { useLocation, type To } from "react-router-dom"
+
+// Route targets that carry the current query string along, so the date range survives navigation
+export function useAppLinks() {
+  const { search } = useLocation()
+
+  return useMemo(() => {
+    const withSearch = (pathname: string, pair?: string): To => {
+      const params = new URLSearchParams(search)
+
+      if (pair) {
+        params.set("pair", pair)
+      } else {
+        params.delete("pair")
+      }
+
+      const query = params.toString()
+      return { pathname, search: query ? `?${query}` : "" }
+    }
+
+    return {
+      overview: () => withSearch("/"),
+      analytics: () => withSearch("/analytics"),
+      alerts: () => withSearch("/alerts"),
+      settings: () => withSearch("/settings"),
+      pair: (pair: string) => withSearch(`/pair/${encodeURIComponent(pair)}`),
+      // Trade ids are only unique per source and pair, so the pair rides along in the query
+      trade: (pair: string, id: string) =>
+        withSearch(`/trade/${encodeURIComponent(id)}`, pair),
+    }
+  }, [search])
+}
@@ -0,0 +1,58 @@
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+
+import { useTradeDataSource } from "@/hooks/use-trade-data-source"
+import { runBacktest } from "@/lib/trading/backtest"
+import { overlayPoints } from "@/lib/trading/series"
+import type { TimeRange, TradeBarData } from "@/lib/trading/types"
+import { useBacktestStore } from "@/stores/backtest-store"
+import { useImportStore } from "@/stores/import-store"
+
+// Runs the stored strategy over each pair's funding and price history, preferring imported
+// series over the source, and keeps the results in the backtest store
+export function useBacktestRunner() {
+  const source = useTradeDataSource()
+  const queryClient = useQueryClient()
+  const [isRunning, setIsRunning] = useState(false)
+
+  const run = async (pairs: string[], range: TimeRange) => {
+    const { params, setResults } = useBacktestStore.getState()
+    const imported = useImportStore.getState().data
+    setIsRunning(true)
+
+    try {
+      const entries = await Promise.all(
+        pairs.map(async (pair): Promise<[string, TradeBarData[]]> => {
+          const [rates, prices] = await Promise.all([
+            queryClient.fetchQuery({
+              queryKey: ["funding-rates", source.id, pair, range.from, range.to, null],
+              queryFn: () => source.getFundingRates(pair, range),
+            }),
+            queryClient.fetchQuery({
+              queryKey: ["prices", source.id, pair, range.from, range.to],
+              queryFn: () => source.getPrices(pair, range),
+            }),
+          ])
+
+          return [
+            pair,
+            runBacktest(
+              pair,
+              overlayPoints(rates, imported.fundingRates[pair], range),
+              overlayPoints(prices, imported.prices[pair], range),
+              params
+            ),
+          ]
+        })
+      )
+
+      const results = Object.fromEntries(entries)
+      setResults(results, range)
+      return results
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return { run, isRunning }
+}
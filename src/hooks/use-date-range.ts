@@ -0,0 +1,51 @@
+import { useLayoutEffect, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import {
+  isValidCustomRange,
+  parseDateRangeParams,
+  writeDateRangeParams,
+  type DateRangeSelection,
+} from "@/lib/trading/date-range"
+import { useAppStore } from "@/stores/app-store"
+
+// The active range, resolved once in the app store and shared by every view
+export function useDateRange() {
+  const [, setSearchParams] = useSearchParams()
+  const selection = useAppStore((state) => state.selection)
+  const range = useAppStore((state) => state.range)
+  const setStoreSelection = useAppStore((state) => state.setSelection)
+
+  // Custom days out of order are refused, as the URL parser would refuse them
+  const setSelection = (next: DateRangeSelection) => {
+    if (next.preset === "custom" && !isValidCustomRange(next.from, next.to)) {
+      return
+    }
+    setStoreSelection(next)
+    setSearchParams((params) => writeDateRangeParams(params, next))
+  }
+
+  return { selection, range, setSelection }
+}
+
+// The range lives in the URL so a link reproduces the exact view; this keeps the store on
+// it through back, forward and followed links. Mounted once, at the app root.
+export function useDateRangeSync() {
+  const [searchParams] = useSearchParams()
+  const setSelection = useAppStore((state) => state.setSelection)
+  const preset = searchParams.get("range")
+  const from = searchParams.get("from")
+  const to = searchParams.get("to")
+
+  // Keyed on the range params only, so unrelated URL changes don't shift "now"
+  const selection = useMemo(
+    () =>
+      parseDateRangeParams(
+        new URLSearchParams({ range: preset ?? "", from: from ?? "", to: to ?? "" })
+      ),
+    [preset, from, to]
+  )
+
+  // Before paint, so a range changed by navigation never shows the old one's trades
+  useLayoutEffect(() => setSelection(selection), [selection, setSelection])
+}
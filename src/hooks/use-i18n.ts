@@ -0,0 +1,22 @@
+import { useMemo } from "react"
+
+import { LOCALES, createTranslate, createTranslateNodes, resolveTimeZone } from "@/lib/i18n"
+import { createFormatters } from "@/lib/trading/format"
+import { useLocaleStore } from "@/stores/locale-store"
+
+// Translator and formatters for the chosen language and display zone
+export function useI18n() {
+  const locale = useLocaleStore((state) => state.locale)
+  const timeZoneOption = useLocaleStore((state) => state.timeZone)
+
+  return useMemo(() => {
+    const timeZone = resolveTimeZone(timeZoneOption)
+    return {
+      locale,
+      timeZone,
+      t: createTranslate(locale),
+      tNodes: createTranslateNodes(locale),
+      format: createFormatters({ locale: LOCALES[locale].intl, timeZone }),
+    }
+  }, [locale, timeZoneOption])
+}
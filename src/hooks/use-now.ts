@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+
+// Current time, re-read every intervalMs so countdowns and elapsed times keep moving
+export function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
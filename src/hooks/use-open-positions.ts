@@ -0,0 +1,64 @@
+import { useQueries, useQuery } from "@tanstack/react-query"
+
+import { useNow } from "@/hooks/use-now"
+import { useTradeDataSource } from "@/hooks/use-trade-data-source"
+import { getFundingPeriodStart } from "@/lib/trading/funding"
+import { estimateOpenPosition, mergeOpenPositions } from "@/lib/trading/open-positions"
+import { DAY_MS, type TradeBarData } from "@/lib/trading/types"
+import { useStreamStore } from "@/stores/stream-store"
+
+const REFETCH_MS = 60_000
+
+// Open positions on a pair, from the source and the stream, with unrealized PnL at mark and
+// the next payment estimated from each venue's latest rate. closedTrades are the pair's loaded
+// trades, so a position closed since the last fetch drops out straight away.
+export function useOpenPositions(pair: string, closedTrades: TradeBarData[]) {
+  const source = useTradeDataSource()
+  const live = useStreamStore((state) => state.pairs[pair]?.openPositions)
+  const liveMark = useStreamStore((state) => state.pairs[pair]?.markPrice)
+  // Rates and sampled prices only change at settlement, so the window moves once per period
+  const periodStart = getFundingPeriodStart(useNow(REFETCH_MS))
+  const from = new Date(periodStart - DAY_MS).toISOString()
+  const to = new Date(periodStart).toISOString()
+
+  const fetched = useQuery({
+    queryKey: ["open-positions", source.id, pair],
+    queryFn: () => source.getOpenPositions(pair),
+    refetchInterval: REFETCH_MS,
+  })
+
+  // Last sampled price stands in for the mark until the stream sends one
+  const prices = useQuery({
+    queryKey: ["prices", source.id, pair, from, to],
+    queryFn: () => source.getPrices(pair, { from, to }),
+    enabled: liveMark === undefined,
+  })
+
+  const positions = mergeOpenPositions(fetched.data, live, closedTrades)
+  const exchanges = [...new Set(positions.map((position) => position.exchange))]
+
+  const latestRates = useQueries({
+    queries: exchanges.map((exchange) => ({
+      queryKey: ["funding-rates", source.id, pair, from, to, exchange],
+      queryFn: () => source.getFundingRates(pair, { from, to }, exchange),
+    })),
+    combine: (results) =>
+      Object.fromEntries(
+        results.map(({ data }, index): [string, number | undefined] => [
+          exchanges[index],
+          data?.[data.length - 1]?.rate,
+        ])
+      ),
+  })
+
+  const markPrice = liveMark ?? prices.data?.[prices.data.length - 1]?.price
+
+  return {
+    positions: positions.map((position) =>
+      estimateOpenPosition(position, markPrice, latestRates[position.exchange])
+    ),
+    markPrice,
+    isPending: fetched.isPending,
+    error: fetched.error,
+  }
+}
@@ -0,0 +1,5 @@
+import { useContext } from "react"
+
+import { TradeDataSourceContext } from "@/lib/trading/data-source-context"
+
+export const useTradeDataSource = () => useContext(TradeDataSourceContext)
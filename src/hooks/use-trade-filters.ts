@@ -0,0 +1,23 @@
+import { useMemo } from "react"
+
+import { useI18n } from "@/hooks/use-i18n"
+import { filterTrades, type TradeFilters } from "@/lib/trading/trade-filters"
+import { selectFilters, selectTrades, useAppStore } from "@/stores/app-store"
+
+// A pair's filters from the app store, so its card and page table share them, plus the
+// filtered list for the table and anything exporting it
+export function useTradeFilters(pair: string) {
+  const trades = useAppStore(selectTrades(pair))
+  const filters = useAppStore(selectFilters(pair))
+  const setPairFilters = useAppStore((state) => state.setFilters)
+  const { format } = useI18n()
+  // Start-day bounds follow the display zone, matching the times the table shows
+  const filtered = useMemo(
+    () => filterTrades(trades, filters, format.dayKey),
+    [trades, filters, format]
+  )
+
+  const setFilters = (next: TradeFilters) => setPairFilters(pair, next)
+
+  return { filters, setFilters, filtered }
+}
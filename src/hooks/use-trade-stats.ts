@@ -0,0 +1,28 @@
+import { useMemo } from "react"
+import { useShallow } from "zustand/react/shallow"
+
+import { summarizePortfolio } from "@/lib/trading/stats"
+import type { TradeBarData } from "@/lib/trading/types"
+import { useAppStore } from "@/stores/app-store"
+
+// Published trades for the given pairs; pairs not loaded yet are absent. The object keeps
+// its identity until one of the lists changes.
+export function useTradesForPairs(pairs: string[]) {
+  return useAppStore(
+    useShallow((state) => {
+      const tradesByPair: Record<string, TradeBarData[]> = {}
+      for (const pair of pairs) {
+        if (state.tradesByPair[pair]) {
+          tradesByPair[pair] = state.tradesByPair[pair]
+        }
+      }
+      return tradesByPair
+    })
+  )
+}
+
+// Totals across pairs; per-pair rows reuse the summaries their cards already computed
+export function usePortfolioSummary(pairs: string[]) {
+  const tradesByPair = useTradesForPairs(pairs)
+  return useMemo(() => summarizePortfolio(tradesByPair), [tradesByPair])
+}
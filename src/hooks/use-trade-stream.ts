@@ -0,0 +1,132 @@
+import { useEffect } from "react"
+import { useQueryClient, type QueryClient } from "@tanstack/react-query"
+
+import { useNow } from "@/hooks/use-now"
+import { applyTradeAccounting } from "@/lib/trading/accounting"
+import { connectTradeStream, getStreamHealth } from "@/lib/trading/stream"
+import type { FundingRatePoint, OpenPosition, TradeBarData } from "@/lib/trading/types"
+import { useStreamStore } from "@/stores/stream-store"
+
+const STALE_AFTER_MS = 15000
+
+// Query keys are ["trades", sourceId, pair, from, to]; only ranges covering the trade get it
+function appendClosedTrade(queryClient: QueryClient, pair: string, trade: TradeBarData) {
+  queryClient.setQueriesData<TradeBarData[]>(
+    {
+      queryKey: ["trades"],
+      predicate: ({ queryKey: [, , keyPair, from, to] }) =>
+        keyPair === pair &&
+        trade.startTime >= String(from) &&
+        trade.startTime <= String(to),
+    },
+    (trades) =>
+      trades &&
+      [...trades.filter((t) => t.id !== trade.id), trade].sort(
+        (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+      )
+  )
+}
+
+// Keys are ["open-positions", sourceId, pair]; a closed position stops showing before the next refetch
+function removeOpenPosition(queryClient: QueryClient, pair: string, id: string) {
+  queryClient.setQueriesData<OpenPosition[]>(
+    {
+      queryKey: ["open-positions"],
+      predicate: ({ queryKey: [, , keyPair] }) => keyPair === pair,
+    },
+    (positions) => positions?.filter((position) => position.id !== id)
+  )
+}
+
+// Keys are ["funding-rates", sourceId, pair, from, to, exchange | null]; a payment settles
+// on the position's venue, and its rate also stands for the pair-wide series
+function appendFundingRate(
+  queryClient: QueryClient,
+  pair: string,
+  point: FundingRatePoint,
+  exchange: string | undefined
+) {
+  queryClient.setQueriesData<FundingRatePoint[]>(
+    {
+      queryKey: ["funding-rates"],
+      predicate: ({ queryKey: [, , keyPair, from, to, keyExchange] }) =>
+        keyPair === pair &&
+        (keyExchange === null || keyExchange === exchange) &&
+        point.time >= String(from) &&
+        point.time <= String(to),
+    },
+    (rates) =>
+      rates && [...rates.filter((p) => p.time !== point.time), point].sort((a, b) =>
+        a.time.localeCompare(b.time)
+      )
+  )
+}
+
+// Keeps one stream connection open for the app's lifetime; no-op without a URL
+export function useTradeStreamConnection(url: string | undefined) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!url) {
+      return
+    }
+
+    const { setEnabled, setStatus, applyMessage, clearOpenPositions } = useStreamStore.getState()
+    setEnabled(true)
+    let connectedBefore = false
+
+    const connection = connectTradeStream({
+      url,
+      onStatusChange: (status) => {
+        setStatus(status)
+        if (status !== "open") {
+          return
+        }
+        // Back after a drop: positions may have closed unseen, so drop the live ones and
+        // resync positions and trades from the source
+        if (connectedBefore) {
+          clearOpenPositions()
+          void queryClient.invalidateQueries({ queryKey: ["open-positions"] })
+          void queryClient.invalidateQueries({ queryKey: ["trades"] })
+        }
+        connectedBefore = true
+      },
+      onMessage: (message) => {
+        // A payment settles on the venue of the position it was paid to
+        const exchange =
+          message.type === "funding_payment"
+            ? useStreamStore.getState().pairs[message.pair]?.openPositions[message.positionId]?.exchange
+            : undefined
+        applyMessage(message)
+
+        if (message.type === "position_close") {
+          appendClosedTrade(queryClient, message.pair, applyTradeAccounting(message.trade))
+          removeOpenPosition(queryClient, message.pair, message.trade.id)
+        }
+
+        if (message.type === "funding_payment") {
+          appendFundingRate(
+            queryClient,
+            message.pair,
+            { time: message.time, rate: message.rate },
+            exchange
+          )
+        }
+      },
+    })
+
+    return () => {
+      connection.close()
+      setEnabled(false)
+    }
+  }, [url, queryClient])
+}
+
+// live / stale / disconnected for one pair, re-evaluated every few seconds
+export function usePairStreamHealth(pair: string) {
+  const status = useStreamStore((state) => state.status)
+  const lastMessageAt = useStreamStore((state) => state.pairs[pair]?.lastMessageAt)
+  const now = useNow(5000)
+
+  return getStreamHealth(status, lastMessageAt, Math.max(now, lastMessageAt ?? 0), STALE_AFTER_MS)
+}
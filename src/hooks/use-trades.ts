@@ -0,0 +1,159 @@
+import { useCallback, useLayoutEffect, useMemo } from "react"
+import { useQueries, useQuery } from "@tanstack/react-query"
+
+import { useTradeDataSource } from "@/hooks/use-trade-data-source"
+import { EXCHANGES, type ExchangeId } from "@/lib/trading/exchanges"
+import { overlayById, overlayPoints } from "@/lib/trading/series"
+import type { FundingRatePoint, FundingSeries, TimeRange, TradeBarData } from "@/lib/trading/types"
+import { useAppStore } from "@/stores/app-store"
+import { useBacktestStore } from "@/stores/backtest-store"
+import { useImportStore } from "@/stores/import-store"
+
+const byStartTime = (trade: TradeBarData) => trade.startTime
+
+interface MergedTrades {
+  imported: TradeBarData[] | undefined
+  backtest: TradeBarData[] | undefined
+  range: TimeRange
+  trades: TradeBarData[]
+}
+
+// Last merge per fetched list, so every hook reading a pair hands the store the same array
+const merged = new WeakMap<TradeBarData[], MergedTrades>()
+
+// Imported and backtested trades for one pair, on top of what the source returned
+function withLocalTrades(
+  trades: TradeBarData[],
+  imported: TradeBarData[] | undefined,
+  backtest: TradeBarData[] | undefined,
+  range: TimeRange
+) {
+  const cached = merged.get(trades)
+  if (
+    cached &&
+    cached.imported === imported &&
+    cached.backtest === backtest &&
+    cached.range.from === range.from &&
+    cached.range.to === range.to
+  ) {
+    return cached.trades
+  }
+
+  const result = overlayById(overlayById(trades, imported, range, byStartTime), backtest, range, byStartTime)
+  merged.set(trades, { imported, backtest, range, trades: result })
+  return result
+}
+
+// Loaded trades go to the app store, where charts, tables and summaries read them. Published
+// before paint, so a reader never shows a settled query with no trades.
+function usePublishTrades(range: TimeRange, tradesByPair: Record<string, TradeBarData[]>) {
+  const publishTrades = useAppStore((state) => state.publishTrades)
+  const { from, to } = range
+
+  useLayoutEffect(() => {
+    publishTrades({ from, to }, tradesByPair)
+  }, [publishTrades, from, to, tradesByPair])
+}
+
+export function useTrades(pair: string, range: TimeRange) {
+  const source = useTradeDataSource()
+  const { from, to } = range
+  const imported = useImportStore((state) => state.data.trades[pair])
+  const backtest = useBacktestStore((state) => state.results[pair])
+
+  const select = useCallback(
+    (trades: TradeBarData[]) => withLocalTrades(trades, imported, backtest, { from, to }),
+    [imported, backtest, from, to]
+  )
+
+  const query = useQuery({
+    queryKey: ["trades", source.id, pair, range.from, range.to],
+    queryFn: () => source.getTrades(pair, range),
+    select,
+  })
+  const { data } = query
+  usePublishTrades(range, useMemo(() => (data ? { [pair]: data } : {}), [pair, data]))
+
+  return query
+}
+
+// One query per pair, sharing the cache entries the per-pair charts use. Trades are read
+// from the app store; this returns the loading state.
+export function useTradesByPair(pairs: string[], range: TimeRange) {
+  const source = useTradeDataSource()
+  const { from, to } = range
+  const imported = useImportStore((state) => state.data.trades)
+  const backtest = useBacktestStore((state) => state.results)
+
+  const { tradesByPair, ...status } = useQueries({
+    queries: pairs.map((pair) => ({
+      queryKey: ["trades", source.id, pair, from, to],
+      queryFn: () => source.getTrades(pair, { from, to }),
+    })),
+    combine: (results) => {
+      // Pairs still loading are left out rather than published empty
+      const tradesByPair: Record<string, TradeBarData[]> = {}
+      results.forEach(({ data }, index) => {
+        const pair = pairs[index]
+        if (data) {
+          tradesByPair[pair] = withLocalTrades(data, imported[pair], backtest[pair], { from, to })
+        }
+      })
+
+      return {
+        tradesByPair,
+        isPending: results.some((result) => result.isPending),
+        error: results.find((result) => result.error)?.error ?? null,
+      }
+    },
+  })
+  usePublishTrades(range, tradesByPair)
+
+  return status
+}
+
+// Pair-wide rates by default, or one venue's; the key's last slot is the exchange or null
+export function useFundingRates(
+  pair: string,
+  range: TimeRange,
+  { enabled = true, exchange }: { enabled?: boolean; exchange?: string } = {}
+) {
+  const source = useTradeDataSource()
+  const { from, to } = range
+  const imported = useImportStore((state) => state.data.fundingRates[pair])
+  // Imports carry no venue, so they only stand in for the pair-wide series
+  const overlay = exchange ? undefined : imported
+
+  // Imported rates win over the source for the same period
+  const select = useCallback(
+    (rates: FundingRatePoint[]) => overlayPoints(rates, overlay, { from, to }),
+    [overlay, from, to]
+  )
+
+  return useQuery({
+    queryKey: ["funding-rates", source.id, pair, range.from, range.to, exchange ?? null],
+    queryFn: () => source.getFundingRates(pair, range, exchange),
+    enabled,
+    select,
+  })
+}
+
+// Every known venue's rates for a pair, for side-by-side comparison
+export function useFundingSeries(pair: string, range: TimeRange) {
+  const source = useTradeDataSource()
+  const { from, to } = range
+
+  return useQueries({
+    queries: (Object.keys(EXCHANGES) as ExchangeId[]).map((exchange) => ({
+      queryKey: ["funding-rates", source.id, pair, from, to, exchange],
+      queryFn: () => source.getFundingRates(pair, { from, to }, exchange),
+    })),
+    combine: (results) => ({
+      series: results.flatMap(({ data }, index): FundingSeries[] =>
+        data ? [{ exchange: Object.keys(EXCHANGES)[index], points: data }] : []
+      ),
+      isPending: results.some((result) => result.isPending),
+      error: results.find((result) => result.error)?.error ?? null,
+    }),
+  })
+}
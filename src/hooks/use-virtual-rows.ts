@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react"
+
+// Fixed-height row windowing: only rows in view, plus an overscan margin, get rendered
+export function useVirtualRows(
+  containerRef: React.RefObject<HTMLElement | null>,
+  { count, rowHeight, overscan = 8 }: { count: number; rowHeight: number; overscan?: number }
+) {
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+
+    const update = () =>
+      setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+
+    update()
+    container.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(container)
+
+    return () => {
+      container.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [containerRef])
+
+  const start = Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan)
+  const end = Math.min(count, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan)
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+  }
+}
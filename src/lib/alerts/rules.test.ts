@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest"
+
+import { createTranslate } from "@/lib/i18n"
+import { createFormatters, DEFAULT_DISPLAY_FORMAT } from "@/lib/trading/format"
+import type { TradeBarData } from "@/lib/trading/types"
+import { describeRule, diffMatches, evaluateRule, type AlertMatch, type AlertRule, type AlertSnapshot } from "./rules"
+
+const t = createTranslate("en")
+const format = createFormatters(DEFAULT_DISPLAY_FORMAT)
+
+const NOW = Date.parse("2024-05-10T12:00:00.000Z")
+const HOUR_MS = 60 * 60 * 1000
+
+const snapshot = (overrides: Partial<AlertSnapshot> = {}): AlertSnapshot => ({
+  now: NOW,
+  openPositions: [],
+  recentTrades: [],
+  ...overrides,
+})
+
+// A closed trade that only carries what the net-funding rule reads
+const closed = (id: string, endTime: string, fundingPnl: number) =>
+  ({ id, endTime, fundingPnl }) as TradeBarData
+
+const evaluate = (rule: AlertRule, overrides?: Partial<AlertSnapshot>) =>
+  evaluateRule(rule, snapshot(overrides), t, format)
+
+const match = (key: string): AlertMatch => ({
+  key,
+  ruleId: key.split(":")[0],
+  pair: "BTC-USDT",
+  message: key,
+})
+
+describe("evaluateRule", () => {
+  const fundingAbove: AlertRule = {
+    id: "r1",
+    pair: "BTC-USDT",
+    enabled: true,
+    kind: "funding-rate",
+    comparator: "above",
+    threshold: 0.03,
+  }
+
+  it("matches the latest funding rate strictly beyond the threshold", () => {
+    const at = (rate: number) => ({ latestFunding: { time: "2024-05-10T08:00:00.000Z", rate } })
+
+    expect(evaluate(fundingAbove, at(0.031))).toEqual([
+      {
+        key: "r1:rate",
+        ruleId: "r1",
+        pair: "BTC-USDT",
+        message: "BTC-USDT funding is 0.0310%, above 0.03%",
+      },
+    ])
+    expect(evaluate(fundingAbove, at(0.03))).toEqual([])
+    expect(evaluate({ ...fundingAbove, comparator: "below" }, at(-0.01))).toHaveLength(1)
+  })
+
+  it("doesn't match without a known rate or while disabled", () => {
+    expect(evaluate(fundingAbove)).toEqual([])
+    expect(
+      evaluate({ ...fundingAbove, enabled: false }, { latestFunding: { time: "2024-05-10T08:00:00.000Z", rate: 1 } })
+    ).toEqual([])
+  })
+
+  it("matches each position open longer than the limit, once per position", () => {
+    const rule: AlertRule = { id: "r2", pair: "BTC-USDT", enabled: true, kind: "position-duration", periods: 3 }
+    const openedHoursAgo = (id: string, hours: number) => ({
+      id,
+      type: "LONG" as const,
+      startTime: new Date(NOW - hours * HOUR_MS).toISOString(),
+      exchange: "binance",
+    })
+
+    const matches = evaluate(rule, {
+      openPositions: [openedHoursAgo("p1", 40), openedHoursAgo("p2", 31), openedHoursAgo("p3", 24)],
+    })
+
+    expect(matches.map((entry) => entry.key)).toEqual(["r2:p1"])
+    expect(matches[0].message).toBe("BTC-USDT LONG p1 has been open 5 periods")
+  })
+
+  it("sums funding from trades closed inside the window", () => {
+    const rule: AlertRule = {
+      id: "r3",
+      pair: "BTC-USDT",
+      enabled: true,
+      kind: "net-funding",
+      comparator: "below",
+      threshold: 0,
+      windowDays: 2,
+    }
+    const recentTrades = [
+      closed("a", "2024-05-09T00:00:00.000Z", -30),
+      closed("b", "2024-05-10T00:00:00.000Z", 10),
+      // Outside the 2-day window
+      closed("c", "2024-05-07T00:00:00.000Z", 100),
+    ]
+
+    expect(evaluate(rule, { recentTrades })).toEqual([
+      {
+        key: "r3:net",
+        ruleId: "r3",
+        pair: "BTC-USDT",
+        message: "BTC-USDT net funding over 2 days is -$20.00",
+      },
+    ])
+    expect(evaluate({ ...rule, comparator: "above" }, { recentTrades })).toEqual([])
+  })
+})
+
+describe("describeRule", () => {
+  it("keeps the threshold's typed digits", () => {
+    expect(
+      describeRule(
+        { id: "r1", pair: "ETH-USDT", enabled: true, kind: "funding-rate", comparator: "below", threshold: -0.0125 },
+        t,
+        format
+      )
+    ).toBe("Funding on ETH-USDT below -0.0125% per period")
+  })
+})
+
+describe("diffMatches", () => {
+  it("fires only matches that weren't active, and keeps what matches now", () => {
+    const { fired, active } = diffMatches(new Set(["r1:rate", "r2:p1"]), [match("r1:rate"), match("r2:p2")])
+
+    expect(fired.map((entry) => entry.key)).toEqual(["r2:p2"])
+    expect([...active]).toEqual(["r1:rate", "r2:p2"])
+  })
+
+  it("ends an episode when its condition stops holding, so it can fire again later", () => {
+    const ended = diffMatches(new Set(["r1:rate"]), []).active
+    const { fired } = diffMatches(ended, [match("r1:rate")])
+
+    expect(ended.size).toBe(0)
+    expect(fired).toHaveLength(1)
+  })
+
+  it("holds the matches of skipped rules without firing them again", () => {
+    const first = diffMatches(new Set(["r1:rate", "r3:net", "r10:rate"]), [], ["r1"])
+
+    expect([...first.active]).toEqual(["r1:rate"])
+
+    const second = diffMatches(first.active, [match("r1:rate")])
+
+    expect(second.fired).toEqual([])
+  })
+})
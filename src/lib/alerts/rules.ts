@@ -0,0 +1,162 @@
+import type { Translate } from "@/lib/i18n"
+import { FUNDING_PERIOD_MS } from "@/lib/trading/funding"
+import type { Formatters } from "@/lib/trading/format"
+import type { FundingRatePoint, TradeBarData, TradeType } from "@/lib/trading/types"
+
+export type AlertComparator = "above" | "below"
+
+interface AlertRuleBase {
+  id: string
+  pair: string
+  enabled: boolean
+}
+
+export type AlertRule = AlertRuleBase &
+  (
+    | { kind: "funding-rate"; comparator: AlertComparator; threshold: number } // Percent per period
+    | { kind: "position-duration"; periods: number } // Open longer than this many 8h periods
+    | { kind: "net-funding"; comparator: AlertComparator; threshold: number; windowDays: number } // USD
+  )
+
+export type AlertRuleKind = AlertRule["kind"]
+
+// Minimal position shape the engine needs; the stream's open positions satisfy it
+export interface WatchedPosition {
+  id: string
+  type: TradeType
+  startTime: string
+  exchange: string
+}
+
+// What is known about one pair at evaluation time
+export interface AlertSnapshot {
+  now: number
+  latestFunding?: FundingRatePoint
+  openPositions: WatchedPosition[]
+  // Closed trades in the trailing window of the pair's net-funding rules
+  recentTrades: TradeBarData[]
+}
+
+export interface AlertMatch {
+  // Identifies the condition instance, so a rule fires once per episode rather than every check
+  key: string
+  ruleId: string
+  pair: string
+  message: string
+}
+
+export interface AlertEvent extends AlertMatch {
+  firedAt: number
+}
+
+const compare = (value: number, comparator: AlertComparator, threshold: number) =>
+  comparator === "above" ? value > threshold : value < threshold
+
+// Thresholds keep the digits the user typed rather than the display default
+const formatThreshold = (value: number, format: Formatters) =>
+  format.percent(value, Math.min(value.toString().split(".")[1]?.length ?? 0, 6))
+
+export function describeRule(rule: AlertRule, t: Translate, format: Formatters) {
+  switch (rule.kind) {
+    case "funding-rate":
+      return t("alerts.describe.funding-rate", {
+        pair: rule.pair,
+        comparator: t(`alerts.comparator.${rule.comparator}`),
+        threshold: formatThreshold(rule.threshold, format),
+      })
+    case "position-duration":
+      return t("alerts.describe.position-duration", { pair: rule.pair, periods: rule.periods })
+    case "net-funding":
+      return t("alerts.describe.net-funding", {
+        pair: rule.pair,
+        comparator: t(`alerts.comparator.${rule.comparator}`),
+        threshold: format.usd(rule.threshold),
+        days: rule.windowDays,
+      })
+  }
+}
+
+// Messages are written in the reader's locale when the rule fires and kept that way in the history
+export function evaluateRule(
+  rule: AlertRule,
+  snapshot: AlertSnapshot,
+  t: Translate,
+  format: Formatters
+): AlertMatch[] {
+  if (!rule.enabled) {
+    return []
+  }
+
+  const match = (suffix: string, message: string): AlertMatch => ({
+    key: `${rule.id}:${suffix}`,
+    ruleId: rule.id,
+    pair: rule.pair,
+    message,
+  })
+
+  switch (rule.kind) {
+    case "funding-rate": {
+      const latest = snapshot.latestFunding
+      return latest && compare(latest.rate, rule.comparator, rule.threshold)
+        ? [
+            match(
+              "rate",
+              t("alerts.match.funding-rate", {
+                pair: rule.pair,
+                rate: format.percent(latest.rate, 4),
+                comparator: t(`alerts.comparator.${rule.comparator}`),
+                threshold: formatThreshold(rule.threshold, format),
+              })
+            ),
+          ]
+        : []
+    }
+    case "position-duration":
+      return snapshot.openPositions.flatMap((position) => {
+        const periods = Math.floor((snapshot.now - Date.parse(position.startTime)) / FUNDING_PERIOD_MS)
+        return periods > rule.periods
+          ? [
+              match(
+                position.id,
+                t("alerts.match.position-duration", {
+                  pair: rule.pair,
+                  side: t(`side.${position.type}`),
+                  id: position.id,
+                  periods,
+                })
+              ),
+            ]
+          : []
+      })
+    case "net-funding": {
+      const since = snapshot.now - rule.windowDays * 86_400_000
+      const net = snapshot.recentTrades
+        .filter((trade) => Date.parse(trade.endTime) >= since)
+        .reduce((sum, trade) => sum + trade.fundingPnl, 0)
+      return compare(net, rule.comparator, rule.threshold)
+        ? [
+            match(
+              "net",
+              t("alerts.match.net-funding", {
+                pair: rule.pair,
+                days: rule.windowDays,
+                net: format.usd(net, { signed: true }),
+              })
+            ),
+          ]
+        : []
+    }
+  }
+}
+
+// Matches not active at the previous check are new; everything matched now stays active.
+// Rules that couldn't be evaluated (their data still loading) keep their earlier matches, so
+// a condition that holds throughout neither ends nor fires again.
+export function diffMatches(active: Set<string>, matches: AlertMatch[], skippedRuleIds: string[] = []) {
+  const held = [...active].filter((key) => skippedRuleIds.some((id) => key.startsWith(`${id}:`)))
+
+  return {
+    fired: matches.filter((match) => !active.has(match.key)),
+    active: new Set([...held, ...matches.map((match) => match.key)]),
+  }
+}
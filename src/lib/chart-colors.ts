@@ -0,0 +1,27 @@
+import type { MessageKey } from "@/lib/i18n"
+
+export type PaletteId = "default" | "colorblind" | "high-contrast"
+
+// Message keys for each palette's name in the theme menu
+export const PALETTES: Record<PaletteId, MessageKey> = {
+  default: "palette.default",
+  colorblind: "palette.colorblind",
+  "high-contrast": "palette.high-contrast",
+}
+
+// Spread into a ChartConfig entry: { label, ...THEME_COLORS.long }. The colours stay the
+// long/short tokens from styles/index.css, which the theme and palette classes on <html> switch.
+export const THEME_COLORS = {
+  long: { color: "var(--long)" },
+  short: { color: "var(--short)" },
+  // PnL follows the side colours: gains read like longs, losses like shorts
+  gain: { color: "var(--long)" },
+  loss: { color: "var(--short)" },
+}
+
+// Sides differ in shape as well as colour: longs fill solid, shorts with the hatch
+// pattern SidePatterns defines under the same id
+export const sidePatternId = (chartId: string) => `${chartId}-short-hatch`
+
+export const sideFill = (type: "LONG" | "SHORT", chartId: string) =>
+  type === "LONG" ? "var(--color-long)" : `url(#${sidePatternId(chartId)})`
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+
+import { formatCsv, parseCsv, parseCsvRecords } from "./csv"
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\r\n1,2,3,4\r\n')).toEqual([
+      ["a", "b, c", 'say "hi"', "two\nlines"],
+      ["1", "2", "3", "4"],
+    ])
+  })
+
+  it("skips blank lines and keeps a last row without a line break", () => {
+    expect(parseCsv("a,b\n\n1,2\n   \n3,4")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ])
+  })
+})
+
+describe("parseCsvRecords", () => {
+  it("keys values by trimmed, lower-cased header and drops a byte order mark", () => {
+    const { columns, records } = parseCsvRecords("\uFEFFTime, Symbol \n 2024-05-01 , BTCUSDT\n")
+
+    expect(columns).toEqual(["time", "symbol"])
+    expect(records).toEqual([{ line: 2, values: { time: "2024-05-01", symbol: "BTCUSDT" } }])
+  })
+
+  it("reports the line each record starts on, counting breaks inside quoted fields", () => {
+    const text = [
+      "time,note",
+      '1,"first',
+      'note"',
+      "2,plain",
+      "",
+      '3,"a\r\nb\rc"',
+      "4,last",
+    ].join("\n")
+
+    expect(parseCsvRecords(text).records.map((record) => record.line)).toEqual([2, 4, 6, 9])
+  })
+
+  it("fills missing trailing fields with empty strings", () => {
+    expect(parseCsvRecords("a,b,c\n1").records[0].values).toEqual({ a: "1", b: "", c: "" })
+  })
+})
+
+describe("formatCsv", () => {
+  it("quotes only fields that need it and round-trips through the reader", () => {
+    const rows = [
+      ["id", "note", "value"],
+      ["1", 'has "quotes", commas', 2.5],
+      ["2", "line\nbreak", null],
+    ]
+    const text = formatCsv(rows)
+
+    expect(text).toBe('id,note,value\r\n1,"has ""quotes"", commas",2.5\r\n2,"line\nbreak",\r\n')
+    expect(parseCsv(text)).toEqual([
+      ["id", "note", "value"],
+      ["1", 'has "quotes", commas', "2.5"],
+      ["2", "line\nbreak", ""],
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+// Minimal RFC 4180 reader and writer: quoted fields, escaped quotes, CRLF or LF line endings
+
+interface CsvRow {
+  line: number // 1-based line the row starts on
+  fields: string[]
+}
+
+// Rows with the line each starts on; a quoted field spanning lines still counts them
+function readCsvRows(text: string) {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++
+        }
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++
+      }
+      row.push(field)
+      rows.push({ line: rowLine, fields: row })
+      row = []
+      field = ""
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push({ line: rowLine, fields: row })
+  }
+
+  // Blank lines come through as a single empty field
+  return rows.filter(({ fields }) => fields.length > 1 || fields[0].trim() !== "")
+}
+
+export function parseCsv(text: string) {
+  return readCsvRows(text).map((row) => row.fields)
+}
+
+export interface CsvRecord {
+  line: number // 1-based line in the file the record starts on, header included
+  values: Record<string, string>
+}
+
+// Keys are lower-cased, trimmed header names
+export function parseCsvRecords(text: string) {
+  const [header, ...rows] = readCsvRows(text.replace(/^\uFEFF/, ""))
+  const columns = (header?.fields ?? []).map((name) => name.trim().toLowerCase())
+
+  const records: CsvRecord[] = rows.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(columns.map((column, i) => [column, (fields[i] ?? "").trim()])),
+  }))
+
+  return { columns, records }
+}
+
+export type CsvValue = string | number | boolean | null | undefined
+
+// Quotes only the fields that need it; rows end with CRLF as the RFC asks
+export function formatCsv(rows: CsvValue[][]) {
+  const escape = (value: CsvValue) => {
+    const text = value === null || value === undefined ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return rows.map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n"
+}
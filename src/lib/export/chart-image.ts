@@ -0,0 +1,86 @@
+// Presentation properties copied inline so the SVG renders the same outside the page,
+// where theme CSS variables and Tailwind classes don't resolve
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+] as const
+
+// The largest recharts surface in the container, skipping legend icons
+export function findChartSvg(container: HTMLElement) {
+  const surfaces = Array.from(container.querySelectorAll<SVGSVGElement>("svg.recharts-surface"))
+  const area = (svg: SVGSVGElement) => svg.clientWidth * svg.clientHeight
+  return surfaces.sort((a, b) => area(b) - area(a))[0] ?? null
+}
+
+export function serializeChartSvg(svg: SVGSVGElement) {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const sources = [svg, ...Array.from(svg.querySelectorAll("*"))]
+  const targets = [clone, ...Array.from(clone.querySelectorAll("*"))]
+
+  sources.forEach((source, index) => {
+    const computed = getComputedStyle(source)
+    const target = targets[index] as SVGElement
+    target.removeAttribute("class")
+    for (const property of INLINED_STYLES) {
+      target.style.setProperty(property, computed.getPropertyValue(property))
+    }
+  })
+
+  const { width, height } = svg.getBoundingClientRect()
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`)
+
+  // Page background behind the chart, so dark-mode text stays readable
+  const background = document.createElementNS("http://www.w3.org/2000/svg", "rect")
+  background.setAttribute("width", "100%")
+  background.setAttribute("height", "100%")
+  background.setAttribute("fill", getComputedStyle(document.body).backgroundColor)
+  clone.insertBefore(background, clone.firstChild)
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height }
+}
+
+// Rasterizes at the device pixel ratio (at least 2x) so the PNG stays sharp in reports
+export async function renderChartPng(svg: SVGSVGElement) {
+  const { markup, width, height } = serializeChartSvg(svg)
+  const scale = Math.max(2, window.devicePixelRatio)
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }))
+
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("Canvas is not available")
+    }
+    context.scale(scale, scale)
+    context.drawImage(image, 0, 0, width, height)
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))),
+        "image/png"
+      )
+    )
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,14 @@
+// Saves generated content through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoked on the next task, after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+export function downloadText(text: string, fileName: string, type: string) {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), fileName)
+}
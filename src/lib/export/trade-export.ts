@@ -0,0 +1,110 @@
+import { formatCsv } from "@/lib/csv"
+import { NATIVE_FORMAT } from "@/lib/import/exchange-import"
+import { formatAxisDate } from "@/lib/trading/format"
+import type { TradeSummary } from "@/lib/trading/stats"
+import type { FundingRatePoint, TradeBarData } from "@/lib/trading/types"
+
+// Every TradeBarData field, in the order they read best in a spreadsheet
+export const TRADE_EXPORT_FIELDS = [
+  "id",
+  "type",
+  "startTime",
+  "endTime",
+  "exchange",
+  "size",
+  "notional",
+  "leverage",
+  "marginMode",
+  "startPrice",
+  "endPrice",
+  "duration",
+  "periods",
+  "fundingTotal",
+  "fee",
+  "pricePnl",
+  "fundingPnl",
+  "profitLoss",
+  "netReturn",
+  "dateLabel",
+  "startDay",
+] as const satisfies readonly (keyof TradeBarData)[]
+
+// Fails to compile when TradeBarData gains a field the export doesn't list
+type MissingExportField = Exclude<keyof TradeBarData, (typeof TRADE_EXPORT_FIELDS)[number]>
+const exportCoversEveryField: MissingExportField extends never ? true : never = true
+void exportCoversEveryField
+
+export type TradesByPair = Record<string, TradeBarData[]>
+
+// The date label is written in the reader's language and zone, as the dashboard shows it
+export function tradesToCsv(
+  tradesByPair: TradesByPair,
+  labelDate: (time: string) => string = formatAxisDate
+) {
+  const rows = Object.entries(tradesByPair).flatMap(([pair, trades]) =>
+    trades.map((trade) => [
+      pair,
+      ...TRADE_EXPORT_FIELDS.map((field) =>
+        field === "dateLabel" ? labelDate(trade.startTime) : trade[field]
+      ),
+    ])
+  )
+
+  return formatCsv([["pair", ...TRADE_EXPORT_FIELDS], ...rows])
+}
+
+// Written in the import's native format, so an export can be dropped straight back in
+export function tradesToJson(
+  tradesByPair: TradesByPair,
+  fundingRates: Record<string, FundingRatePoint[]> = {}
+) {
+  const trades = Object.entries(tradesByPair).flatMap(([pair, pairTrades]) =>
+    pairTrades.map((trade) => ({ pair, ...trade }))
+  )
+
+  return JSON.stringify(
+    { format: NATIVE_FORMAT, version: 1, exportedAt: new Date().toISOString(), trades, fundingRates },
+    null,
+    2
+  )
+}
+
+// One row per pair; percentages and USD amounts are left unformatted for spreadsheets
+export function summariesToCsv(summaries: Record<string, TradeSummary>) {
+  const header = [
+    "pair",
+    "trades",
+    "long",
+    "short",
+    "avgFundingPercent",
+    "fundingPnl",
+    "fees",
+    "netPnl",
+    "winRate",
+    "avgHoldingDays",
+    "notional",
+  ]
+
+  return formatCsv([
+    header,
+    ...Object.entries(summaries).map(([pair, summary]) => [
+      pair,
+      summary.count,
+      summary.longCount,
+      summary.shortCount,
+      summary.avgFunding,
+      summary.fundingPnl,
+      summary.fees,
+      summary.netPnl,
+      summary.winRate,
+      summary.avgHoldingDays,
+      summary.notional,
+    ]),
+  ])
+}
+
+// e.g. "btc-usdt-trades-2024-05-01_2024-05-31.csv"
+export function exportFileName(subject: string, range: { from: string; to: string }, extension: string) {
+  const day = (time: string) => time.slice(0, 10)
+  return `${subject.toLowerCase()}-${day(range.from)}_${day(range.to)}.${extension}`
+}
@@ -0,0 +1,84 @@
+import { Fragment, createElement, type ReactNode } from "react"
+
+import { en } from "./messages/en"
+import { es } from "./messages/es"
+
+export type Locale = "en" | "es"
+
+// A plain string, or singular/plural forms picked by the `count` parameter
+export type Message = string | { one: string; other: string }
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, Message>
+
+export type MessageParams = Record<string, string | number>
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+export type TranslateNodes = (key: MessageKey, params?: Record<string, ReactNode>) => ReactNode
+
+export const LOCALES: Record<Locale, { label: string; intl: string; messages: Messages }> = {
+  en: { label: "English", intl: "en-US", messages: en },
+  es: { label: "Español", intl: "es-ES", messages: es },
+}
+
+// "local" follows the browser's zone; the rest are IANA names offered in the menu
+export const TIME_ZONES = [
+  "UTC",
+  "local",
+  "America/New_York",
+  "Europe/London",
+  "Europe/Madrid",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+] as const
+
+export type TimeZoneOption = (typeof TIME_ZONES)[number]
+
+export function resolveTimeZone(option: TimeZoneOption) {
+  return option === "local" ? Intl.DateTimeFormat().resolvedOptions().timeZone : option
+}
+
+export function detectLocale(language: string | undefined): Locale {
+  return language?.toLowerCase().startsWith("es") ? "es" : "en"
+}
+
+// Message lookup with English fallback and plural selection, shared by both translators
+function createCatalog(locale: Locale) {
+  const plurals = new Intl.PluralRules(LOCALES[locale].intl)
+  const numbers = new Intl.NumberFormat(LOCALES[locale].intl, { maximumFractionDigits: 2 })
+
+  return {
+    template: (key: MessageKey, count: unknown) => {
+      const message = LOCALES[locale].messages[key] ?? en[key]
+      if (typeof message === "string") {
+        return message
+      }
+      return plurals.select(Number(count ?? 0)) === "one" ? message.one : message.other
+    },
+    // Numbers are written the locale's way; callers pass strings for fixed digits or units
+    fill: <T,>(value: T | number) => (typeof value === "number" ? numbers.format(value) : value),
+  }
+}
+
+// Looks the key up in the locale's catalog, falling back to English, and fills {name} slots
+export function createTranslate(locale: Locale): Translate {
+  const { template, fill } = createCatalog(locale)
+
+  return (key, params = {}) =>
+    template(key, params.count).replace(/\{(\w+)\}/g, (slot, name: string) =>
+      params[name] === undefined ? slot : fill(params[name])
+    )
+}
+
+// Like createTranslate, but slots can hold elements (a side label, a coloured figure) so
+// word order stays the catalog's rather than being split across several keys
+export function createTranslateNodes(locale: Locale): TranslateNodes {
+  const { template, fill } = createCatalog(locale)
+
+  return (key, params = {}) => {
+    // Splitting on a capturing group alternates text and slot names
+    const parts = template(key, params.count)
+      .split(/\{(\w+)\}/)
+      .map((part, index) => (index % 2 === 1 && params[part] !== undefined ? fill(params[part]) : part))
+    return createElement(Fragment, null, ...parts)
+  }
+}
@@ -0,0 +1,446 @@
+// English catalog, the reference every other locale is checked against. Keys are grouped by
+// the screen or component that shows them; {name} slots are filled by translate()
+
+export const en = {
+  // App shell
+  "app.title": "Trading Dashboard",
+  "app.subtitle": "Bar chart visualization of trading pairs showing trade duration and performance",
+  "nav.overview": "Overview",
+  "nav.analytics": "Analytics",
+  "nav.alerts": "Alerts",
+  "nav.settings": "Settings",
+  "notFound.message": "This page doesn't exist.",
+  "notFound.back": "Back to overview",
+
+  // Shared
+  "common.retry": "Retry",
+  "common.clear": "Clear",
+  "common.delete": "Delete",
+  "common.save": "Save",
+  "common.add": "Add",
+  "common.loadingTrades": "Loading trades…",
+  "common.loadingFundingRates": "Loading funding rates…",
+  "common.failedTrades": "Failed to load trades: {message}",
+  "common.failedFundingRates": "Failed to load funding rates: {message}",
+  "common.days": { one: "{count} day", other: "{count} days" },
+  "common.hours": { one: "{count} hour", other: "{count} hours" },
+  "common.trades": { one: "{count} trade", other: "{count} trades" },
+  "common.pairs": { one: "{count} pair", other: "{count} pairs" },
+  "common.longShortCounts": "{count} ({long}L / {short}S)",
+
+  // Sides and stat labels used across cards, tables and tooltips
+  "side.LONG": "LONG",
+  "side.SHORT": "SHORT",
+  "side.all": "All",
+  "marginMode.cross": "cross",
+  "marginMode.isolated": "isolated",
+  "stat.trades": "Trades",
+  "stat.netPnl": "Net PnL",
+  "stat.netFunding": "Net Funding",
+  "stat.fees": "Fees",
+  "stat.realizedPnl": "Realized PnL",
+  "stat.winRate": "Win Rate",
+  "stat.avgHolding": "Avg Holding",
+  "stat.avgHold": "Avg Hold",
+  "stat.avgFunding": "Avg Funding",
+  "stat.fundingCollected": "Funding Collected",
+  "stat.volume": "Volume",
+  "stat.notional": "Notional",
+  "stat.exchange": "Exchange",
+  "stat.funding": "Funding",
+  "stat.pricePnl": "Price PnL",
+  "stat.fundingPnl": "Funding PnL",
+  "stat.unrealized": "Unrealized",
+  "stat.leverage": "Leverage",
+  "stat.entryExit": "Entry / Exit",
+
+  // Header menus
+  "theme.menu": "Theme and palette: {theme}, {palette}",
+  "theme.heading": "Theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+  "palette.heading": "Palette",
+  "palette.default": "Default",
+  "palette.colorblind": "Colour-blind safe",
+  "palette.high-contrast": "High contrast",
+  "locale.menu": "Language and time zone: {language}, {timeZone}",
+  "locale.language": "Language",
+  "locale.timeZone": "Time zone",
+  "timeZone.UTC": "UTC",
+  "timeZone.local": "Local ({zone})",
+  "timeZone.newYork": "New York",
+  "timeZone.london": "London",
+  "timeZone.madrid": "Madrid",
+  "timeZone.singapore": "Singapore",
+  "timeZone.tokyo": "Tokyo",
+
+  // Date range selector
+  "range.custom": "Custom",
+  "range.from": "From",
+  "range.to": "To",
+  "range.invalid": "Start must be a day on or before the end",
+
+  // Stream status
+  "stream.live": "Live",
+  "stream.stale": "Stale",
+  "stream.disconnected": "Disconnected",
+  "stream.title": "Trade stream: {status}",
+
+  // Pair card
+  "chart.mode.duration": "Duration",
+  "chart.mode.profitLoss": "Net PnL",
+  "chart.mode.timeline": "Timeline",
+  "chart.mode.fundingRate": "Funding Rate",
+  "chart.axis.duration": "Duration (Days)",
+  "chart.axis.profitLoss": "Net PnL ($)",
+  "chart.axis.timeline": "Lane",
+  "chart.axis.fundingRate": "Rate / 8h",
+  "chart.title": "{pair} trades by {mode}",
+  "chart.description": "Use the left and right arrow keys to move between bars and Enter to open a closed trade",
+  "chart.caption": "{pair} trades in the selected range",
+  "chart.noTrades": "No trades for {pair} in this range",
+  "chart.noFunding": "No funding periods for {pair} in this range",
+  "chart.mark": "Mark:",
+  "chart.avgFunding": "Avg Funding:",
+  "chart.netPnl": "Net PnL:",
+  "chart.long": "Long: {count}",
+  "chart.short": "Short: {count}",
+  "chart.open": "Open: {count}",
+  "chart.exposure": "Exposure: {value}",
+  "chart.recentTrades": "Recent Trades",
+  "chart.series.long": "LONG Trade",
+  "chart.series.short": "SHORT Trade",
+  "chart.series.equity": "Equity",
+  "chart.series.drawdown": "Drawdown",
+  "chart.series.upDay": "Up day",
+  "chart.series.downDay": "Down day",
+
+  // Bar tooltips
+  "tooltip.position": "{side} Position",
+  "tooltip.trade": "{side} Trade",
+  "tooltip.openBadge": "open",
+  "tooltip.held": "Held: {days} · Periods: {periods}",
+  "tooltip.duration": "Duration: {days}",
+  "tooltip.funding": "Funding:",
+  "tooltip.periods": "Periods: {periods}",
+  "tooltip.size": "Size: {size} {asset} · Notional: {notional}",
+  "tooltip.entryMark": "Entry: {entry} · Mark: {mark} · {exchange}",
+  "tooltip.margin": "{leverage}x {mode} · Margin: {margin} · {exchange}",
+  "tooltip.pricePnl": "Price PnL:",
+  "tooltip.fundingPnl": "Funding PnL:",
+  "tooltip.fees": "Fees: {fee} ({percent})",
+  "tooltip.unrealized": "Unrealized:",
+  "tooltip.netPnl": "Net PnL:",
+  "tooltip.rate": "Rate:",
+  "tooltip.spread": "Spread: {spread}",
+  "tooltip.equity": "Equity:",
+  "tooltip.drawdown": "Drawdown: {value} ({percent})",
+  "tooltip.pnl": "PnL:",
+
+  // Screen reader chart table
+  "dataTable.side": "Side",
+  "dataTable.status": "Status",
+  "dataTable.opened": "Opened",
+  "dataTable.closed": "Closed",
+  "dataTable.days": "Days",
+  "dataTable.statusClosed": "Closed",
+  "dataTable.statusOpen": "Open",
+  "dataTable.unrealized": "{value} unrealized",
+
+  // Timeline
+  "timeline.panBack": "Pan back",
+  "timeline.panForward": "Pan forward",
+  "timeline.zoomIn": "Zoom in",
+  "timeline.zoomOut": "Zoom out",
+  "timeline.resetZoom": "Reset zoom",
+  "timeline.lane": "L{lane}",
+  "timeline.periods": { one: "{count} period", other: "{count} periods" },
+  "timeline.funding": "Funding {value}",
+  "timeline.pnl": "PnL {value}",
+  "timeline.hint": "Drag to pan, use the buttons to zoom. Hover a bar for details.",
+
+  // Trade table
+  "trades.type": "Type",
+  "trades.start": "Start",
+  "trades.end": "End",
+  "trades.days": "Days",
+  "trades.funding": "Funding",
+  "trades.periods": "Periods",
+  "trades.notional": "Notional",
+  "trades.fee": "Fee",
+  "trades.netPnl": "Net PnL",
+  "trades.exchange": "Exchange",
+  "trades.id": "ID",
+  "trades.withZone": "{label} ({zone})",
+  "trades.fundingSign": "Funding sign",
+  "trades.anyFunding": "Any funding",
+  "trades.fundingCollected": "Funding collected",
+  "trades.fundingPaid": "Funding paid",
+  "trades.startedFrom": "Started on or after",
+  "trades.startedTo": "Started on or before",
+  "trades.to": "to",
+  "trades.search": "Search trade id",
+  "trades.searchPlaceholder": "Trade id…",
+  "trades.filteredCount": "{shown} of {total} trades",
+  "trades.noMatches": "No trades match these filters",
+
+  // Open positions
+  "positions.heading": "Open Positions",
+  "positions.nextFunding": "Next funding in",
+  "positions.side": "Side",
+  "positions.venue": "Venue",
+  "positions.size": "Size",
+  "positions.entryMark": "Entry → Mark",
+  "positions.fundingSoFar": "Funding so far",
+  "positions.estNext": "Est. next",
+  "positions.unrealized": "Unrealized",
+  "positions.periods": "{count}p",
+  "positions.latestRate": "Latest rate {rate}",
+
+  // Portfolio summary
+  "portfolio.title": "Portfolio",
+  "portfolio.breakdown": "Breakdown",
+  "portfolio.holdingDays": "{days}d",
+
+  // Watchlist
+  "watchlist.moveLeft": "Move {pair} left",
+  "watchlist.moveRight": "Move {pair} right",
+  "watchlist.remove": "Remove {pair}",
+  "watchlist.addPlaceholder": "Add pair…",
+  "watchlist.addLabel": "Add pair",
+  "watchlist.reset": "Reset watchlist",
+  "watchlist.invalidSymbol": "\"{symbol}\" is not a pair symbol like BTC-USDT",
+  "watchlist.unknownPair": "{symbol} is not a known pair",
+  "watchlist.duplicatePair": "{symbol} is already on the watchlist",
+
+  // Export
+  "export.label": "Export {subject}",
+  "export.trades": "Trades",
+  "export.tradesCsv": "Trades as CSV",
+  "export.tradesJson": "Trades as JSON",
+  "export.summaryCsv": "Summary as CSV",
+  "export.chart": "Chart",
+  "export.chartPng": "Chart as PNG",
+  "export.chartSvg": "Chart as SVG",
+  "export.noImage": "This chart mode has no image to export",
+  "export.chartFailed": "Chart export failed: {message}",
+
+  // Import
+  "import.hint": "Drop exchange CSV exports or a JSON export anywhere here, or",
+  "import.button": "Import files",
+  "import.clear": "Clear {count} imported trades",
+  "import.dropOverlay": "Drop to import trades and funding history",
+  "import.rowError": "{file}, line {line}: {message}",
+  "import.fileError": "{file}: {message}",
+  "import.readFailed": "Couldn't read the files: {message}",
+  "import.moreErrors": "…and {count} more problems",
+  "import.imported": "Imported {count} trades across {pairs} pairs",
+  "import.nothingNew": "No new closed positions found in the import",
+  "import.unknownPairs": "Not charted, unknown pairs: {pairs}",
+  "import.invalidTime": "Invalid time \"{value}\"",
+  "import.missingSymbol": "Missing symbol",
+  "import.unknownSide": "Unknown side \"{value}\"",
+  "import.invalidPrice": "Invalid price \"{value}\"",
+  "import.invalidQuantity": "Invalid quantity \"{value}\"",
+  "import.invalidFee": "Invalid fee \"{value}\"",
+  "import.invalidFundingAmount": "Invalid funding amount \"{value}\"",
+  "import.invalidFundingRate": "Invalid funding rate \"{value}\"",
+  "import.invalidMarkPrice": "Invalid mark price \"{value}\"",
+  "import.invalidJson": "Invalid JSON: {reason}",
+  "import.notNativeExport": "Not a {format} export",
+  "import.tradeMissingFields": "Trade is missing {fields}",
+  "import.tradeInvalidFields": "Trade has invalid {fields}",
+  "import.missingColumns": "Expected time and symbol columns",
+  "import.unknownFileKind": "Not a trade fill (side, price, qty) or funding (amount or rate) export",
+  "import.positionStillOpen": "{pair} position is still open after the last fill; it was left out",
+
+  // Backtest
+  "backtest.title": "Funding Capture Backtest",
+  "backtest.entryThreshold": "Entry |rate| ≥ (%)",
+  "backtest.exitThreshold": "Exit collected < (%)",
+  "backtest.maxHoldingPeriods": "Max periods (8h)",
+  "backtest.feePercent": "Fee per side (%)",
+  "backtest.notional": "Notional ($)",
+  "backtest.running": "Running…",
+  "backtest.run": "Run on watchlist",
+  "backtest.clear": "Clear results",
+  "backtest.produced": "Backtest produced {count} trades across {pairs} pairs",
+  "backtest.failed": "Backtest failed: {message}",
+  "backtest.results":
+    "{count} simulated trades ({long}L / {short}S), funding {funding}, net {net}. They show in the cards with faded bars and \"Backtest\" as the exchange.",
+  "backtest.stale": " Results are for a different date range; run again to update them.",
+  "backtest.description":
+    "Shorts positive funding and longs negative funding once a settled rate crosses the entry threshold, then exits when collection falls below the exit threshold or after the holding limit. Imported funding and mark prices are used where available.",
+
+  // Dashboard layout
+  "widget.summary": "Summary",
+  "widget.chart": "Chart",
+  "widget.openPositions": "Open positions",
+  "widget.trades": "Recent trades",
+  "layout.widgetMenu": "Choose what the {pair} card shows",
+  "layout.show": "Show",
+  "layout.expand": "Expand {pair}",
+  "layout.collapse": "Collapse {pair}",
+  "layout.moveEarlier": "Move {pair} earlier",
+  "layout.moveLater": "Move {pair} later",
+  "layout.dragHint": "Drag onto another panel to reorder",
+  "layout.panelsPerRow": "Panels per row",
+  "layout.perRow": "{count} per row",
+  "layout.legend": "Legend",
+  "layout.namePlaceholder": "Layout name…",
+  "layout.nameLabel": "Layout name",
+  "layout.layouts": "Layouts",
+  "layout.saved": "Saved layouts",
+  "layout.nothingSaved": "Nothing saved yet",
+  "layout.reset": "Reset to default",
+  "layout.savedToast": "Saved layout \"{name}\"",
+  "layout.updatedToast": "Updated layout \"{name}\"",
+
+  // Overview
+  "overview.emptyWatchlist": "The watchlist is empty. Add a pair above to start charting it.",
+  "legend.title": "Trading Bar Chart Legend & Information",
+  "legend.elements": "Chart Elements",
+  "legend.longBar": "LONG Trade Bar (green, solid)",
+  "legend.shortBar": "SHORT Trade Bar (red, hatched)",
+  "legend.barHeight": "Bar Height = Trade Duration (Days) or Net PnL ($)",
+  "legend.information": "Trading Information",
+  "legend.bullet.bars": "Each solid bar represents one complete trade from open to close",
+  "legend.bullet.open": "Dashed outlined bars are positions still open, sized by time held or unrealized PnL so far",
+  "legend.bullet.height": "Bar height shows trade duration in days",
+  "legend.bullet.axis": "X-axis shows trade start dates over the selected range (shareable via the URL)",
+  "legend.bullet.sides":
+    "LONG trades (solid green bars) vs SHORT trades (hatched red bars); the theme menu has colour-blind safe and high-contrast palettes",
+  "legend.bullet.keyboard": "Tab to a chart and use the arrow keys to step between bars, Enter to open one",
+  "legend.bullet.hover": "Hover over bars for detailed trade information; click one to open the trade",
+  "legend.bullet.timeline": "Timeline mode draws each trade from open to close on a time axis, one lane per overlap",
+  "legend.bullet.fundingRate": "Funding Rate mode plots the rate for every 8h period, with trade windows shaded",
+  "legend.bullet.table":
+    "Trade history below sorts by any column header and filters by side, start day, funding sign or trade id; the pair name opens its full page",
+  "legend.bullet.fundingTotals": "Funding totals show net funding collected as a percentage of entry notional",
+  "legend.bullet.pnl": "PnL is realized: price move on position size, plus funding, minus fees",
+  "legend.bullet.openValuation":
+    "Open positions are valued at mark; the next payment estimate assumes the venue's latest rate holds",
+  "legend.bullet.layout":
+    "Drag the handles between panels to resize them, the grip to reorder, and collapse any panel to a strip; layouts save by name",
+  "legend.bullet.import":
+    "Imported fills are grouped into positions; funding payments count toward the position open at the time",
+  "legend.bullet.locale":
+    "Times show in the zone picked from the language menu; date filters and axes follow it too",
+
+  // Pair page
+  "pair.allTrades": "All Trades",
+  "pair.crossExchange": "Cross-Exchange Funding",
+  "pair.failedVenues": "Failed to load venue funding: {message}",
+  "pair.loadingVenues": "Loading venue funding…",
+  "pair.noVenues": "No overlapping venue funding in this range",
+  "pair.spread": "Spread",
+  "pair.avgSpread": "Avg Spread",
+  "pair.maxSpread": "Max Spread",
+  "pair.topVenue": "Highest Rate Most Often",
+  "pair.tradesByVenue": "Trades by Venue",
+
+  // Trade page
+  "trade.missingParams": "Trade links need both a trade id and its pair.",
+  "trade.loading": "Loading trade…",
+  "trade.notInRange": "Trade {id} isn't in the selected range for {pair}.",
+  "trade.fundingByPeriod": "Funding by Period",
+  "trade.settlement": "Settlement ({zone})",
+  "trade.rate": "Rate",
+  "trade.collected": "Collected",
+  "trade.payment": "Payment",
+  "trade.cumulative": "Cumulative",
+  "trade.breakdownSummary":
+    "{found} of {periods} periods found in the funding history, totalling {total} against {recorded} recorded on the trade.",
+
+  // Analytics page
+  "analytics.allPairs": "All pairs",
+  "analytics.capital": "Capital",
+  "analytics.noTrades": "No closed trades in this range",
+  "analytics.maxDrawdown": "Max Drawdown",
+  "analytics.drawdownDuration": "Drawdown Duration",
+  "analytics.drawdownOngoing": "Drawdown Duration (ongoing)",
+  "analytics.profitFactor": "Profit Factor",
+  "analytics.sharpe": "Sharpe (daily, ann.)",
+  "analytics.sortino": "Sortino (daily, ann.)",
+  "analytics.winRateStreaks": "Win Rate · Streaks",
+  "analytics.winRateStreaksValue": "{winRate} · {wins}W / {losses}L",
+  "analytics.fundingYield": "Funding Yield (ann.)",
+  "analytics.equityCurve": "Equity Curve & Drawdown",
+  "analytics.dailyPnl": "Daily PnL",
+  "analytics.bullet.returns":
+    "Returns are realized PnL per UTC day over capital plus PnL booked so far; capital defaults to the largest position",
+  "analytics.bullet.ratios": "Sharpe and Sortino assume a zero risk-free rate and annualize over 365 days",
+  "analytics.bullet.yield": "Funding yield is funding PnL over notional × years held, so longer holds weigh more",
+  "analytics.bullet.winStreak": { one: "Current streak: {count} winning trade", other: "Current streak: {count} winning trades" },
+  "analytics.bullet.lossStreak": { one: "Current streak: {count} losing trade", other: "Current streak: {count} losing trades" },
+
+  // Alerts page
+  "alerts.kind.funding-rate": "Funding rate",
+  "alerts.kind.position-duration": "Position duration",
+  "alerts.kind.net-funding": "Net funding",
+  "alerts.comparator.above": "above",
+  "alerts.comparator.below": "below",
+  "alerts.condition": "Condition",
+  "alerts.pair": "Pair",
+  "alerts.openLonger": "Open longer than (8h periods)",
+  "alerts.when": "When",
+  "alerts.rateThreshold": "Rate (% per period)",
+  "alerts.netThreshold": "Net funding (USD)",
+  "alerts.windowDays": "Over (days)",
+  "alerts.addRule": "Add rule",
+  "alerts.needPair": "Add a pair to the watchlist first",
+  "alerts.periodsInvalid": "Periods must be at least 1",
+  "alerts.thresholdInvalid": "Threshold must be a number",
+  "alerts.windowInvalid": "Window must be at least 1 day",
+  "alerts.watching": "Watching: {rule}",
+  "alerts.notificationsUnsupported": "Browser notifications are not supported here",
+  "alerts.notificationsOn": "Browser notifications on",
+  "alerts.notificationsBlocked": "Notifications are blocked in the browser settings",
+  "alerts.enableNotifications": "Enable browser notifications",
+  "alerts.notificationTitle": "Trading alert",
+  "alerts.rules": "Alert Rules",
+  "alerts.noRules": "No rules yet",
+  "alerts.pause": "Pause",
+  "alerts.resume": "Resume",
+  "alerts.deleteRule": "Delete rule: {rule}",
+  "alerts.history": "History",
+  "alerts.noHistory": "Nothing has fired yet",
+  "alerts.bullet.schedule": "Rules are checked every 30 seconds and on every live stream message while the app is open",
+  "alerts.bullet.episodes": "A rule fires once when its condition starts holding, and again only after it has cleared",
+  "alerts.bullet.latest": "Funding rates use the latest settlement for the pair across venues",
+  "alerts.describe.funding-rate": "Funding on {pair} {comparator} {threshold} per period",
+  "alerts.describe.position-duration": "{pair} position open longer than {periods} periods",
+  "alerts.describe.net-funding": "{pair} net funding {comparator} {threshold} over {days} days",
+  "alerts.match.funding-rate": "{pair} funding is {rate}, {comparator} {threshold}",
+  "alerts.match.position-duration": "{pair} {side} {id} has been open {periods} periods",
+  "alerts.match.net-funding": "{pair} net funding over {days} days is {net}",
+
+  // Settings page and offline storage
+  "cache.offline": "Offline",
+  "cache.unreachable": "Source unreachable",
+  "cache.title": "Showing cached history; see Settings",
+  "settings.storage": "Offline Storage",
+  "settings.source": "Source",
+  "settings.source.online": "Online",
+  "settings.source.unreachable": "Unreachable, showing cached history",
+  "settings.source.offline": "Working offline, showing cached history",
+  "settings.source.unknown": "Not contacted yet",
+  "settings.lastSynced": "Last synced",
+  "settings.notSynced": "Never",
+  "settings.unsupported": "This browser doesn't allow local storage, so history is fetched on every visit.",
+  "settings.used": "Storage Used",
+  "settings.usedOf": "{usage} of {quota}",
+  "settings.cachedPairs": "Cached Pairs",
+  "settings.cachedRecords": "Cached Records",
+  "settings.importedFiles": "Imported Files",
+  "settings.workOffline": "Work offline",
+  "settings.goOnline": "Go back online",
+  "settings.clear": "Clear cache",
+  "settings.cleared": "Cached history cleared",
+  "settings.clearFailed": "Couldn't clear the cache: {message}",
+  "settings.bullet.sync": "Trades, funding and prices are kept per pair; later visits only fetch what is new since the last one",
+  "settings.bullet.recent": "The last 15 minutes, and trades opened after a position that is still open, are fetched again each time",
+  "settings.bullet.offline": "Offline, or when the source can't be reached, charts show whatever history is cached for the range",
+  "settings.bullet.imports": "Imported files are kept as well and load with the page; clear them from the overview",
+}
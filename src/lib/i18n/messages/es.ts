@@ -0,0 +1,461 @@
+import type { Messages } from "@/lib/i18n"
+
+// Spanish catalog; typed against the English keys so a missing entry fails the build
+
+export const es: Messages = {
+  // App shell
+  "app.title": "Panel de trading",
+  "app.subtitle": "Gráfico de barras de los pares de trading con la duración y el rendimiento de cada operación",
+  "nav.overview": "Resumen",
+  "nav.analytics": "Análisis",
+  "nav.alerts": "Alertas",
+  "nav.settings": "Ajustes",
+  "notFound.message": "Esta página no existe.",
+  "notFound.back": "Volver al resumen",
+
+  // Shared
+  "common.retry": "Reintentar",
+  "common.clear": "Borrar",
+  "common.delete": "Eliminar",
+  "common.save": "Guardar",
+  "common.add": "Añadir",
+  "common.loadingTrades": "Cargando operaciones…",
+  "common.loadingFundingRates": "Cargando tasas de financiación…",
+  "common.failedTrades": "No se pudieron cargar las operaciones: {message}",
+  "common.failedFundingRates": "No se pudieron cargar las tasas de financiación: {message}",
+  "common.days": { one: "{count} día", other: "{count} días" },
+  "common.hours": { one: "{count} hora", other: "{count} horas" },
+  "common.trades": { one: "{count} operación", other: "{count} operaciones" },
+  "common.pairs": { one: "{count} par", other: "{count} pares" },
+  "common.longShortCounts": "{count} ({long}L / {short}C)",
+
+  // Sides and stat labels used across cards, tables and tooltips
+  "side.LONG": "LARGO",
+  "side.SHORT": "CORTO",
+  "side.all": "Todas",
+  "marginMode.cross": "cruzado",
+  "marginMode.isolated": "aislado",
+  "stat.trades": "Operaciones",
+  "stat.netPnl": "PnL neto",
+  "stat.netFunding": "Financiación neta",
+  "stat.fees": "Comisiones",
+  "stat.realizedPnl": "PnL realizado",
+  "stat.winRate": "Tasa de acierto",
+  "stat.avgHolding": "Tenencia media",
+  "stat.avgHold": "Tenencia media",
+  "stat.avgFunding": "Financiación media",
+  "stat.fundingCollected": "Financiación cobrada",
+  "stat.volume": "Volumen",
+  "stat.notional": "Nocional",
+  "stat.exchange": "Exchange",
+  "stat.funding": "Financiación",
+  "stat.pricePnl": "PnL de precio",
+  "stat.fundingPnl": "PnL de financiación",
+  "stat.unrealized": "No realizado",
+  "stat.leverage": "Apalancamiento",
+  "stat.entryExit": "Entrada / Salida",
+
+  // Header menus
+  "theme.menu": "Tema y paleta: {theme}, {palette}",
+  "theme.heading": "Tema",
+  "theme.light": "Claro",
+  "theme.dark": "Oscuro",
+  "theme.system": "Sistema",
+  "palette.heading": "Paleta",
+  "palette.default": "Predeterminada",
+  "palette.colorblind": "Apta para daltonismo",
+  "palette.high-contrast": "Alto contraste",
+  "locale.menu": "Idioma y zona horaria: {language}, {timeZone}",
+  "locale.language": "Idioma",
+  "locale.timeZone": "Zona horaria",
+  "timeZone.UTC": "UTC",
+  "timeZone.local": "Local ({zone})",
+  "timeZone.newYork": "Nueva York",
+  "timeZone.london": "Londres",
+  "timeZone.madrid": "Madrid",
+  "timeZone.singapore": "Singapur",
+  "timeZone.tokyo": "Tokio",
+
+  // Date range selector
+  "range.custom": "Personalizado",
+  "range.from": "Desde",
+  "range.to": "Hasta",
+  "range.invalid": "El inicio debe ser un día anterior o igual al final",
+
+  // Stream status
+  "stream.live": "En directo",
+  "stream.stale": "Desactualizado",
+  "stream.disconnected": "Desconectado",
+  "stream.title": "Flujo de operaciones: {status}",
+
+  // Pair card
+  "chart.mode.duration": "Duración",
+  "chart.mode.profitLoss": "PnL neto",
+  "chart.mode.timeline": "Cronología",
+  "chart.mode.fundingRate": "Tasa de financiación",
+  "chart.axis.duration": "Duración (días)",
+  "chart.axis.profitLoss": "PnL neto ($)",
+  "chart.axis.timeline": "Carril",
+  "chart.axis.fundingRate": "Tasa / 8h",
+  "chart.title": "Operaciones de {pair} por {mode}",
+  "chart.description":
+    "Usa las flechas izquierda y derecha para moverte entre barras e Intro para abrir una operación cerrada",
+  "chart.caption": "Operaciones de {pair} en el rango seleccionado",
+  "chart.noTrades": "No hay operaciones de {pair} en este rango",
+  "chart.noFunding": "No hay periodos de financiación de {pair} en este rango",
+  "chart.mark": "Marca:",
+  "chart.avgFunding": "Financiación media:",
+  "chart.netPnl": "PnL neto:",
+  "chart.long": "Largos: {count}",
+  "chart.short": "Cortos: {count}",
+  "chart.open": "Abiertas: {count}",
+  "chart.exposure": "Exposición: {value}",
+  "chart.recentTrades": "Operaciones recientes",
+  "chart.series.long": "Operación LARGA",
+  "chart.series.short": "Operación CORTA",
+  "chart.series.equity": "Capital",
+  "chart.series.drawdown": "Caída",
+  "chart.series.upDay": "Día al alza",
+  "chart.series.downDay": "Día a la baja",
+
+  // Bar tooltips
+  "tooltip.position": "Posición {side}",
+  "tooltip.trade": "Operación {side}",
+  "tooltip.openBadge": "abierta",
+  "tooltip.held": "Mantenida: {days} · Periodos: {periods}",
+  "tooltip.duration": "Duración: {days}",
+  "tooltip.funding": "Financiación:",
+  "tooltip.periods": "Periodos: {periods}",
+  "tooltip.size": "Tamaño: {size} {asset} · Nocional: {notional}",
+  "tooltip.entryMark": "Entrada: {entry} · Marca: {mark} · {exchange}",
+  "tooltip.margin": "{leverage}x {mode} · Margen: {margin} · {exchange}",
+  "tooltip.pricePnl": "PnL de precio:",
+  "tooltip.fundingPnl": "PnL de financiación:",
+  "tooltip.fees": "Comisiones: {fee} ({percent})",
+  "tooltip.unrealized": "No realizado:",
+  "tooltip.netPnl": "PnL neto:",
+  "tooltip.rate": "Tasa:",
+  "tooltip.spread": "Diferencial: {spread}",
+  "tooltip.equity": "Capital:",
+  "tooltip.drawdown": "Caída: {value} ({percent})",
+  "tooltip.pnl": "PnL:",
+
+  // Screen reader chart table
+  "dataTable.side": "Lado",
+  "dataTable.status": "Estado",
+  "dataTable.opened": "Apertura",
+  "dataTable.closed": "Cierre",
+  "dataTable.days": "Días",
+  "dataTable.statusClosed": "Cerrada",
+  "dataTable.statusOpen": "Abierta",
+  "dataTable.unrealized": "{value} no realizado",
+
+  // Timeline
+  "timeline.panBack": "Desplazar atrás",
+  "timeline.panForward": "Desplazar adelante",
+  "timeline.zoomIn": "Acercar",
+  "timeline.zoomOut": "Alejar",
+  "timeline.resetZoom": "Restablecer zoom",
+  "timeline.lane": "C{lane}",
+  "timeline.periods": { one: "{count} periodo", other: "{count} periodos" },
+  "timeline.funding": "Financiación {value}",
+  "timeline.pnl": "PnL {value}",
+  "timeline.hint": "Arrastra para desplazarte y usa los botones para el zoom. Pasa sobre una barra para ver detalles.",
+
+  // Trade table
+  "trades.type": "Tipo",
+  "trades.start": "Inicio",
+  "trades.end": "Fin",
+  "trades.days": "Días",
+  "trades.funding": "Financiación",
+  "trades.periods": "Periodos",
+  "trades.notional": "Nocional",
+  "trades.fee": "Comisión",
+  "trades.netPnl": "PnL neto",
+  "trades.exchange": "Exchange",
+  "trades.id": "ID",
+  "trades.withZone": "{label} ({zone})",
+  "trades.fundingSign": "Signo de la financiación",
+  "trades.anyFunding": "Cualquier financiación",
+  "trades.fundingCollected": "Financiación cobrada",
+  "trades.fundingPaid": "Financiación pagada",
+  "trades.startedFrom": "Iniciada el o después del",
+  "trades.startedTo": "Iniciada el o antes del",
+  "trades.to": "a",
+  "trades.search": "Buscar id de operación",
+  "trades.searchPlaceholder": "Id de operación…",
+  "trades.filteredCount": "{shown} de {total} operaciones",
+  "trades.noMatches": "Ninguna operación coincide con estos filtros",
+
+  // Open positions
+  "positions.heading": "Posiciones abiertas",
+  "positions.nextFunding": "Próxima financiación en",
+  "positions.side": "Lado",
+  "positions.venue": "Exchange",
+  "positions.size": "Tamaño",
+  "positions.entryMark": "Entrada → Marca",
+  "positions.fundingSoFar": "Financiación acumulada",
+  "positions.estNext": "Próx. estimada",
+  "positions.unrealized": "No realizado",
+  "positions.periods": "{count}p",
+  "positions.latestRate": "Última tasa {rate}",
+
+  // Portfolio summary
+  "portfolio.title": "Cartera",
+  "portfolio.breakdown": "Desglose",
+  "portfolio.holdingDays": "{days} d",
+
+  // Watchlist
+  "watchlist.moveLeft": "Mover {pair} a la izquierda",
+  "watchlist.moveRight": "Mover {pair} a la derecha",
+  "watchlist.remove": "Quitar {pair}",
+  "watchlist.addPlaceholder": "Añadir par…",
+  "watchlist.addLabel": "Añadir par",
+  "watchlist.reset": "Restablecer lista de seguimiento",
+  "watchlist.invalidSymbol": "\"{symbol}\" no es un símbolo de par como BTC-USDT",
+  "watchlist.unknownPair": "{symbol} no es un par conocido",
+  "watchlist.duplicatePair": "{symbol} ya está en la lista de seguimiento",
+
+  // Export
+  "export.label": "Exportar {subject}",
+  "export.trades": "Operaciones",
+  "export.tradesCsv": "Operaciones en CSV",
+  "export.tradesJson": "Operaciones en JSON",
+  "export.summaryCsv": "Resumen en CSV",
+  "export.chart": "Gráfico",
+  "export.chartPng": "Gráfico en PNG",
+  "export.chartSvg": "Gráfico en SVG",
+  "export.noImage": "Este modo de gráfico no tiene imagen que exportar",
+  "export.chartFailed": "No se pudo exportar el gráfico: {message}",
+
+  // Import
+  "import.hint": "Suelta aquí exportaciones CSV de exchanges o una exportación JSON, o",
+  "import.button": "Importar archivos",
+  "import.clear": "Borrar {count} operaciones importadas",
+  "import.dropOverlay": "Suelta para importar operaciones e historial de financiación",
+  "import.rowError": "{file}, línea {line}: {message}",
+  "import.fileError": "{file}: {message}",
+  "import.readFailed": "No se pudieron leer los archivos: {message}",
+  "import.moreErrors": "…y {count} problemas más",
+  "import.imported": "Se importaron {count} operaciones en {pairs} pares",
+  "import.nothingNew": "La importación no contiene posiciones cerradas nuevas",
+  "import.unknownPairs": "Sin graficar, pares desconocidos: {pairs}",
+  "import.invalidTime": "Hora no válida \"{value}\"",
+  "import.missingSymbol": "Falta el símbolo",
+  "import.unknownSide": "Lado desconocido \"{value}\"",
+  "import.invalidPrice": "Precio no válido \"{value}\"",
+  "import.invalidQuantity": "Cantidad no válida \"{value}\"",
+  "import.invalidFee": "Comisión no válida \"{value}\"",
+  "import.invalidFundingAmount": "Importe de financiación no válido \"{value}\"",
+  "import.invalidFundingRate": "Tasa de financiación no válida \"{value}\"",
+  "import.invalidMarkPrice": "Precio de marca no válido \"{value}\"",
+  "import.invalidJson": "JSON no válido: {reason}",
+  "import.notNativeExport": "No es una exportación de {format}",
+  "import.tradeMissingFields": "A la operación le falta {fields}",
+  "import.tradeInvalidFields": "La operación tiene valores no válidos en {fields}",
+  "import.missingColumns": "Se esperaban columnas de hora y símbolo",
+  "import.unknownFileKind": "No es una exportación de ejecuciones (lado, precio, cantidad) ni de financiación (importe o tasa)",
+  "import.positionStillOpen": "La posición de {pair} sigue abierta tras la última ejecución; se ha omitido",
+
+  // Backtest
+  "backtest.title": "Backtest de captura de financiación",
+  "backtest.entryThreshold": "Entrada |tasa| ≥ (%)",
+  "backtest.exitThreshold": "Salida cobrado < (%)",
+  "backtest.maxHoldingPeriods": "Periodos máx. (8h)",
+  "backtest.feePercent": "Comisión por lado (%)",
+  "backtest.notional": "Nocional ($)",
+  "backtest.running": "Ejecutando…",
+  "backtest.run": "Ejecutar en la lista",
+  "backtest.clear": "Borrar resultados",
+  "backtest.produced": "El backtest generó {count} operaciones en {pairs} pares",
+  "backtest.failed": "El backtest falló: {message}",
+  "backtest.results":
+    "{count} operaciones simuladas ({long}L / {short}C), financiación {funding}, neto {net}. Aparecen en las tarjetas con barras atenuadas y \"Backtest\" como exchange.",
+  "backtest.stale": " Los resultados son de otro rango de fechas; vuelve a ejecutarlo para actualizarlos.",
+  "backtest.description":
+    "Abre cortos con financiación positiva y largos con financiación negativa cuando una tasa liquidada supera el umbral de entrada, y cierra cuando el cobro cae por debajo del umbral de salida o al llegar al límite de tenencia. Usa la financiación y los precios de marca importados cuando los hay.",
+
+  // Dashboard layout
+  "widget.summary": "Resumen",
+  "widget.chart": "Gráfico",
+  "widget.openPositions": "Posiciones abiertas",
+  "widget.trades": "Operaciones recientes",
+  "layout.widgetMenu": "Elegir qué muestra la tarjeta de {pair}",
+  "layout.show": "Mostrar",
+  "layout.expand": "Expandir {pair}",
+  "layout.collapse": "Contraer {pair}",
+  "layout.moveEarlier": "Mover {pair} antes",
+  "layout.moveLater": "Mover {pair} después",
+  "layout.dragHint": "Arrastra sobre otro panel para reordenar",
+  "layout.panelsPerRow": "Paneles por fila",
+  "layout.perRow": "{count} por fila",
+  "layout.legend": "Leyenda",
+  "layout.namePlaceholder": "Nombre del diseño…",
+  "layout.nameLabel": "Nombre del diseño",
+  "layout.layouts": "Diseños",
+  "layout.saved": "Diseños guardados",
+  "layout.nothingSaved": "Aún no hay nada guardado",
+  "layout.reset": "Restablecer predeterminado",
+  "layout.savedToast": "Diseño \"{name}\" guardado",
+  "layout.updatedToast": "Diseño \"{name}\" actualizado",
+
+  // Overview
+  "overview.emptyWatchlist": "La lista de seguimiento está vacía. Añade un par arriba para empezar a graficarlo.",
+  "legend.title": "Leyenda e información del gráfico de barras",
+  "legend.elements": "Elementos del gráfico",
+  "legend.longBar": "Barra de operación LARGA (verde, sólida)",
+  "legend.shortBar": "Barra de operación CORTA (roja, rayada)",
+  "legend.barHeight": "Altura de la barra = duración de la operación (días) o PnL neto ($)",
+  "legend.information": "Información de trading",
+  "legend.bullet.bars": "Cada barra sólida representa una operación completa, de la apertura al cierre",
+  "legend.bullet.open":
+    "Las barras discontinuas son posiciones aún abiertas, según el tiempo mantenido o el PnL no realizado hasta ahora",
+  "legend.bullet.height": "La altura de la barra muestra la duración de la operación en días",
+  "legend.bullet.axis": "El eje X muestra las fechas de inicio en el rango seleccionado (compartible por la URL)",
+  "legend.bullet.sides":
+    "Operaciones LARGAS (barras verdes sólidas) frente a CORTAS (barras rojas rayadas); el menú de tema incluye paletas aptas para daltonismo y de alto contraste",
+  "legend.bullet.keyboard": "Tabula hasta un gráfico y usa las flechas para pasar de barra en barra, Intro para abrirla",
+  "legend.bullet.hover": "Pasa sobre las barras para ver el detalle de la operación; haz clic para abrirla",
+  "legend.bullet.timeline":
+    "El modo cronología dibuja cada operación de la apertura al cierre en un eje temporal, un carril por solapamiento",
+  "legend.bullet.fundingRate":
+    "El modo tasa de financiación traza la tasa de cada periodo de 8h, con las ventanas de las operaciones sombreadas",
+  "legend.bullet.table":
+    "El historial de abajo se ordena por cualquier columna y se filtra por lado, día de inicio, signo de la financiación o id; el nombre del par abre su página",
+  "legend.bullet.fundingTotals":
+    "Los totales de financiación muestran la financiación neta cobrada como porcentaje del nocional de entrada",
+  "legend.bullet.pnl": "El PnL es realizado: movimiento de precio sobre el tamaño, más financiación, menos comisiones",
+  "legend.bullet.openValuation":
+    "Las posiciones abiertas se valoran a precio de marca; el próximo pago estimado supone que se mantiene la última tasa del exchange",
+  "legend.bullet.layout":
+    "Arrastra los separadores para redimensionar los paneles, el asa para reordenarlos y contrae cualquiera a una franja; los diseños se guardan por nombre",
+  "legend.bullet.import":
+    "Las ejecuciones importadas se agrupan en posiciones; los pagos de financiación cuentan para la posición abierta en ese momento",
+  "legend.bullet.locale":
+    "Las horas se muestran en la zona elegida en el menú de idioma; los filtros de fecha y los ejes también la siguen",
+
+  // Pair page
+  "pair.allTrades": "Todas las operaciones",
+  "pair.crossExchange": "Financiación entre exchanges",
+  "pair.failedVenues": "No se pudo cargar la financiación por exchange: {message}",
+  "pair.loadingVenues": "Cargando financiación por exchange…",
+  "pair.noVenues": "No hay financiación solapada entre exchanges en este rango",
+  "pair.spread": "Diferencial",
+  "pair.avgSpread": "Diferencial medio",
+  "pair.maxSpread": "Diferencial máximo",
+  "pair.topVenue": "Tasa más alta con más frecuencia",
+  "pair.tradesByVenue": "Operaciones por exchange",
+
+  // Trade page
+  "trade.missingParams": "Los enlaces a operaciones necesitan el id de la operación y su par.",
+  "trade.loading": "Cargando operación…",
+  "trade.notInRange": "La operación {id} no está en el rango seleccionado para {pair}.",
+  "trade.fundingByPeriod": "Financiación por periodo",
+  "trade.settlement": "Liquidación ({zone})",
+  "trade.rate": "Tasa",
+  "trade.collected": "Cobrado",
+  "trade.payment": "Pago",
+  "trade.cumulative": "Acumulado",
+  "trade.breakdownSummary":
+    "{found} de {periods} periodos encontrados en el historial de financiación, con un total de {total} frente a {recorded} registrado en la operación.",
+
+  // Analytics page
+  "analytics.allPairs": "Todos los pares",
+  "analytics.capital": "Capital",
+  "analytics.noTrades": "No hay operaciones cerradas en este rango",
+  "analytics.maxDrawdown": "Caída máxima",
+  "analytics.drawdownDuration": "Duración de la caída",
+  "analytics.drawdownOngoing": "Duración de la caída (en curso)",
+  "analytics.profitFactor": "Factor de beneficio",
+  "analytics.sharpe": "Sharpe (diario, anual.)",
+  "analytics.sortino": "Sortino (diario, anual.)",
+  "analytics.winRateStreaks": "Tasa de acierto · Rachas",
+  "analytics.winRateStreaksValue": "{winRate} · {wins}G / {losses}P",
+  "analytics.fundingYield": "Rendimiento de financiación (anual.)",
+  "analytics.equityCurve": "Curva de capital y caída",
+  "analytics.dailyPnl": "PnL diario",
+  "analytics.bullet.returns":
+    "Los rendimientos son el PnL realizado por día UTC sobre el capital más el PnL acumulado; el capital por defecto es la mayor posición",
+  "analytics.bullet.ratios": "Sharpe y Sortino suponen una tasa libre de riesgo nula y anualizan sobre 365 días",
+  "analytics.bullet.yield":
+    "El rendimiento de financiación es el PnL de financiación sobre nocional × años mantenidos, así que las tenencias largas pesan más",
+  "analytics.bullet.winStreak": {
+    one: "Racha actual: {count} operación ganadora",
+    other: "Racha actual: {count} operaciones ganadoras",
+  },
+  "analytics.bullet.lossStreak": {
+    one: "Racha actual: {count} operación perdedora",
+    other: "Racha actual: {count} operaciones perdedoras",
+  },
+
+  // Alerts page
+  "alerts.kind.funding-rate": "Tasa de financiación",
+  "alerts.kind.position-duration": "Duración de la posición",
+  "alerts.kind.net-funding": "Financiación neta",
+  "alerts.comparator.above": "por encima de",
+  "alerts.comparator.below": "por debajo de",
+  "alerts.condition": "Condición",
+  "alerts.pair": "Par",
+  "alerts.openLonger": "Abierta más de (periodos de 8h)",
+  "alerts.when": "Cuando",
+  "alerts.rateThreshold": "Tasa (% por periodo)",
+  "alerts.netThreshold": "Financiación neta (USD)",
+  "alerts.windowDays": "Durante (días)",
+  "alerts.addRule": "Añadir regla",
+  "alerts.needPair": "Añade primero un par a la lista de seguimiento",
+  "alerts.periodsInvalid": "Los periodos deben ser al menos 1",
+  "alerts.thresholdInvalid": "El umbral debe ser un número",
+  "alerts.windowInvalid": "La ventana debe ser de al menos 1 día",
+  "alerts.watching": "Vigilando: {rule}",
+  "alerts.notificationsUnsupported": "Las notificaciones del navegador no están disponibles aquí",
+  "alerts.notificationsOn": "Notificaciones del navegador activadas",
+  "alerts.notificationsBlocked": "Las notificaciones están bloqueadas en la configuración del navegador",
+  "alerts.enableNotifications": "Activar notificaciones del navegador",
+  "alerts.notificationTitle": "Alerta de trading",
+  "alerts.rules": "Reglas de alerta",
+  "alerts.noRules": "Aún no hay reglas",
+  "alerts.pause": "Pausar",
+  "alerts.resume": "Reanudar",
+  "alerts.deleteRule": "Eliminar regla: {rule}",
+  "alerts.history": "Historial",
+  "alerts.noHistory": "Aún no se ha disparado nada",
+  "alerts.bullet.schedule":
+    "Las reglas se comprueban cada 30 segundos y con cada mensaje del flujo en directo mientras la app está abierta",
+  "alerts.bullet.episodes":
+    "Una regla se dispara una vez cuando su condición empieza a cumplirse, y de nuevo solo después de que deje de cumplirse",
+  "alerts.bullet.latest": "Las tasas de financiación usan la última liquidación del par entre exchanges",
+  "alerts.describe.funding-rate": "Financiación de {pair} {comparator} {threshold} por periodo",
+  "alerts.describe.position-duration": "Posición de {pair} abierta más de {periods} periodos",
+  "alerts.describe.net-funding": "Financiación neta de {pair} {comparator} {threshold} en {days} días",
+  "alerts.match.funding-rate": "La financiación de {pair} es {rate}, {comparator} {threshold}",
+  "alerts.match.position-duration": "La posición {side} {id} de {pair} lleva abierta {periods} periodos",
+  "alerts.match.net-funding": "La financiación neta de {pair} en {days} días es {net}",
+
+  // Settings page and offline storage
+  "cache.offline": "Sin conexión",
+  "cache.unreachable": "Fuente inaccesible",
+  "cache.title": "Mostrando el historial guardado; ver Ajustes",
+  "settings.storage": "Almacenamiento sin conexión",
+  "settings.source": "Fuente",
+  "settings.source.online": "En línea",
+  "settings.source.unreachable": "Inaccesible, mostrando el historial guardado",
+  "settings.source.offline": "Trabajando sin conexión, mostrando el historial guardado",
+  "settings.source.unknown": "Aún sin consultar",
+  "settings.lastSynced": "Última sincronización",
+  "settings.notSynced": "Nunca",
+  "settings.unsupported": "Este navegador no permite el almacenamiento local, así que el historial se descarga en cada visita.",
+  "settings.used": "Espacio usado",
+  "settings.usedOf": "{usage} de {quota}",
+  "settings.cachedPairs": "Pares guardados",
+  "settings.cachedRecords": "Registros guardados",
+  "settings.importedFiles": "Archivos importados",
+  "settings.workOffline": "Trabajar sin conexión",
+  "settings.goOnline": "Volver a conectarse",
+  "settings.clear": "Vaciar caché",
+  "settings.cleared": "Historial guardado eliminado",
+  "settings.clearFailed": "No se pudo vaciar la caché: {message}",
+  "settings.bullet.sync": "Las operaciones, la financiación y los precios se guardan por par; las visitas siguientes solo descargan lo nuevo desde la anterior",
+  "settings.bullet.recent": "Los últimos 15 minutos, y las operaciones abiertas después de una posición que sigue abierta, se descargan de nuevo cada vez",
+  "settings.bullet.offline": "Sin conexión, o si la fuente no responde, los gráficos muestran el historial guardado para el rango",
+  "settings.bullet.imports": "Los archivos importados también se guardan y se cargan con la página; se borran desde el resumen",
+}
@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildImportedData,
+  groupFillsIntoPositions,
+  normalizeExchangeSymbol,
+  parseImportFile,
+  parseNumber,
+  parseRate,
+  parseTimestamp,
+  type TradeFill,
+} from "./exchange-import"
+
+// A fill at the given hour of 2024-05-01 UTC
+function fill(hour: number, side: TradeFill["side"], qty: number, price: number, fee = 0): TradeFill {
+  return {
+    file: "binance-fills.csv",
+    line: hour + 2,
+    time: Date.UTC(2024, 4, 1, hour),
+    pair: "BTC-USDT",
+    exchange: "binance",
+    side,
+    price,
+    qty,
+    fee,
+  }
+}
+
+describe("parseNumber", () => {
+  it("takes the last of comma and dot as the decimal mark", () => {
+    expect(parseNumber("1.234,56")).toBe(1234.56)
+    expect(parseNumber("1,234.56")).toBe(1234.56)
+    expect(parseNumber("-1.234.567,5")).toBe(-1234567.5)
+    expect(parseNumber("12,345,678.9")).toBe(12345678.9)
+  })
+
+  it("reads a lone comma as decimal unless it groups thousands", () => {
+    expect(parseNumber("0,5")).toBe(0.5)
+    expect(parseNumber("12,75")).toBe(12.75)
+    expect(parseNumber("1,234")).toBe(1234)
+    expect(parseNumber("12,345,678")).toBe(12345678)
+  })
+
+  it("drops a trailing unit and refuses anything else", () => {
+    expect(parseNumber("0.25 USDT")).toBe(0.25)
+    expect(parseNumber("1e-4")).toBe(0.0001)
+    expect(parseNumber("")).toBeNull()
+    expect(parseNumber("n/a")).toBeNull()
+  })
+})
+
+describe("parseRate", () => {
+  it("reads percentages as given and bare fractions as percent", () => {
+    expect(parseRate("0.01%")).toBe(0.01)
+    expect(parseRate("0.0001")).toBeCloseTo(0.01)
+    expect(parseRate("0,0001")).toBeCloseTo(0.01)
+    expect(parseRate("high")).toBeNull()
+  })
+})
+
+describe("parseTimestamp", () => {
+  it("reads epoch seconds, epoch milliseconds and zone-less dates as UTC", () => {
+    const time = Date.UTC(2024, 4, 1, 8)
+
+    expect(parseTimestamp(String(time / 1000))).toBe(time)
+    expect(parseTimestamp(String(time))).toBe(time)
+    expect(parseTimestamp("2024-05-01 08:00:00")).toBe(time)
+    expect(parseTimestamp("2024-05-01T10:00:00+02:00")).toBe(time)
+    expect(parseTimestamp("yesterday")).toBeNull()
+  })
+})
+
+describe("normalizeExchangeSymbol", () => {
+  it("writes exchange symbols as the dashboard's pairs", () => {
+    expect(normalizeExchangeSymbol("BTCUSDT")).toBe("BTC-USDT")
+    expect(normalizeExchangeSymbol("BTC/USDT:USDT")).toBe("BTC-USDT")
+    expect(normalizeExchangeSymbol("eth_usdc")).toBe("ETH-USDC")
+  })
+})
+
+describe("parseImportFile", () => {
+  it("reads fills, reporting bad rows on the line they start on", () => {
+    const text = [
+      "time,symbol,side,price,qty,fee,note",
+      '2024-05-01 00:00,BTCUSDT,BUY,"1.000,5",2,"0,1","spans',
+      'two lines"',
+      "2024-05-01 01:00,BTCUSDT,SELL,oops,2,0,",
+      "2024-05-01 02:00,BTCUSDT,SELL,\"1,010.5\",2,0.1,",
+    ].join("\n")
+    const parsed = parseImportFile("binance-fills.csv", text)
+
+    expect(parsed.kind).toBe("fills")
+    if (parsed.kind !== "fills") return
+
+    expect(parsed.fills.map((fill) => [fill.line, fill.side, fill.price, fill.fee])).toEqual([
+      [2, "BUY", 1000.5, 0.1],
+      [5, "SELL", 1010.5, 0.1],
+    ])
+    expect(parsed.fills[0].exchange).toBe("binance")
+    expect(parsed.errors).toEqual([
+      { file: "binance-fills.csv", line: 4, message: "import.invalidPrice", params: { value: "oops" } },
+    ])
+  })
+
+  it("reads funding payments with their rate and mark price", () => {
+    const parsed = parseImportFile(
+      "bybit-funding.csv",
+      "time,symbol,funding,funding rate,mark price\n2024-05-01 08:00,BTCUSDT,-1.5,0.0001,43000\n"
+    )
+
+    expect(parsed).toEqual({
+      kind: "funding",
+      payments: [
+        {
+          time: Date.UTC(2024, 4, 1, 8),
+          pair: "BTC-USDT",
+          exchange: "bybit",
+          amount: -1.5,
+          rate: expect.closeTo(0.01),
+          price: 43000,
+        },
+      ],
+      errors: [],
+    })
+  })
+
+  it("refuses files without time and symbol columns", () => {
+    const parsed = parseImportFile("fills.csv", "time,side,price,qty\n2024-05-01,BUY,1,1\n")
+
+    expect(parsed.kind).toBe("unknown")
+    expect(parsed.errors).toEqual([{ file: "fills.csv", line: 1, message: "import.missingColumns" }])
+  })
+
+  it("refuses files that are neither fills nor funding", () => {
+    const parsed = parseImportFile("orders.csv", "time,symbol,side,price\n2024-05-01,BTCUSDT,BUY,1\n")
+
+    expect(parsed.kind).toBe("unknown")
+    expect(parsed.errors).toHaveLength(1)
+  })
+
+  it("reads back a native export and reports malformed trades by position", () => {
+    const trade = {
+      id: "t1",
+      pair: "BTC-USDT",
+      type: "LONG",
+      startTime: "2024-05-01T00:00:00.000Z",
+      endTime: "2024-05-02T00:00:00.000Z",
+      size: 1,
+      startPrice: 100,
+      endPrice: 110,
+      fundingTotal: 0.02,
+      fee: 0.1,
+    }
+    const parsed = parseImportFile(
+      "export.json",
+      JSON.stringify({
+        format: "funding-dashboard",
+        trades: [trade, { ...trade, id: "t2", size: -1 }, { id: "t3" }],
+      })
+    )
+
+    expect(parsed.kind).toBe("native")
+    if (parsed.kind !== "native") return
+
+    expect(parsed.trades.map((trade) => trade.id)).toEqual(["t1"])
+    expect(parsed.errors.map(({ line, message, params }) => [line, message, params])).toEqual([
+      [2, "import.tradeInvalidFields", { fields: "size" }],
+      [3, "import.tradeMissingFields", { fields: expect.stringContaining("startTime") }],
+    ])
+  })
+
+  it("refuses JSON that isn't a native export", () => {
+    expect(parseImportFile("other.json", "{}").kind).toBe("unknown")
+    expect(parseImportFile("broken.json", "{").kind).toBe("unknown")
+  })
+})
+
+describe("groupFillsIntoPositions", () => {
+  it("opens on the first fill and closes when the quantity returns to zero", () => {
+    const { positions, errors } = groupFillsIntoPositions([
+      fill(2, "SELL", 2, 110, 0.2),
+      fill(0, "BUY", 1, 100, 0.1),
+      fill(1, "BUY", 1, 104, 0.1),
+    ])
+
+    expect(errors).toEqual([])
+    expect(positions).toHaveLength(1)
+    expect(positions[0]).toMatchObject({
+      type: "LONG",
+      start: Date.UTC(2024, 4, 1, 0),
+      end: Date.UTC(2024, 4, 1, 2),
+      size: 2,
+      startPrice: 102,
+      endPrice: 110,
+    })
+    expect(positions[0].fee).toBeCloseTo(0.4)
+  })
+
+  it("closes and reopens on the other side when a fill flips the position", () => {
+    const { positions, errors } = groupFillsIntoPositions([
+      fill(0, "BUY", 1, 100, 0.3),
+      fill(1, "SELL", 3, 110, 0.3),
+      fill(2, "BUY", 2, 105, 0.2),
+    ])
+
+    expect(errors).toEqual([])
+    expect(positions.map(({ type, size, startPrice, endPrice }) => [type, size, startPrice, endPrice])).toEqual([
+      ["LONG", 1, 100, 110],
+      ["SHORT", 2, 110, 105],
+    ])
+    // The flipping fill's fee is split by the quantity each side took
+    expect(positions[0].fee).toBeCloseTo(0.4)
+    expect(positions[1].fee).toBeCloseTo(0.4)
+    expect(positions[1].start).toBe(Date.UTC(2024, 4, 1, 1))
+  })
+
+  it("leaves out a position still open at the end of the file and says where", () => {
+    const { positions, errors } = groupFillsIntoPositions([
+      fill(0, "BUY", 1, 100),
+      fill(1, "SELL", 1, 101),
+      fill(2, "SELL", 1, 102),
+      fill(3, "SELL", 1, 99),
+    ])
+
+    expect(positions).toHaveLength(1)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toEqual({
+      file: "binance-fills.csv",
+      line: 5,
+      message: "import.positionStillOpen",
+      params: { pair: "BTC-USDT" },
+    })
+  })
+
+  it("keeps pairs and venues apart", () => {
+    const { positions } = groupFillsIntoPositions([
+      fill(0, "BUY", 1, 100),
+      { ...fill(1, "SELL", 1, 100), exchange: "bybit" },
+      fill(2, "SELL", 1, 105),
+      { ...fill(3, "BUY", 1, 95), exchange: "bybit" },
+    ])
+
+    expect(positions.map((position) => [position.exchange, position.type])).toEqual([
+      ["binance", "LONG"],
+      ["bybit", "SHORT"],
+    ])
+  })
+})
+
+describe("buildImportedData", () => {
+  it("attaches funding paid while each position was open", () => {
+    const fills = parseImportFile(
+      "binance-fills.csv",
+      "time,symbol,side,price,qty\n2024-05-01 00:00,BTCUSDT,BUY,100,10\n2024-05-02 00:00,BTCUSDT,SELL,100,10\n"
+    )
+    const funding = parseImportFile(
+      "binance-funding.csv",
+      [
+        "time,symbol,funding,funding rate",
+        "2024-04-30 16:00,BTCUSDT,5,0.0001",
+        "2024-05-01 08:00,BTCUSDT,1,0.0001",
+        "2024-05-01 16:00,BTCUSDT,-0.5,-0.00005",
+        "2024-05-02 08:00,BTCUSDT,2,0.0002",
+      ].join("\n")
+    )
+    const data = buildImportedData([funding, fills])
+    const [trade] = data.trades["BTC-USDT"]
+
+    expect(data.errors).toEqual([])
+    expect(trade.id).toBe("import-binance-BTC-USDT-1")
+    expect(trade.periods).toBe(2)
+    // 0.5 of 1,000 notional
+    expect(trade.fundingTotal).toBeCloseTo(0.05)
+    expect(data.fundingRates["BTC-USDT"]).toHaveLength(4)
+  })
+})
@@ -0,0 +1,713 @@
+import type { MessageKey, MessageParams } from "@/lib/i18n"
+import { applyTradeAccounting } from "@/lib/trading/accounting"
+import { EXCHANGES } from "@/lib/trading/exchanges"
+import { formatAxisDate } from "@/lib/trading/format"
+import { FUNDING_PERIOD_MS } from "@/lib/trading/funding"
+import { normalizePairSymbol } from "@/lib/trading/pairs"
+import {
+  DAY_MS,
+  type FundingRatePoint,
+  type PricePoint,
+  type TradeBarData,
+  type TradeRecord,
+  type TradeType,
+} from "@/lib/trading/types"
+import { parseCsvRecords, type CsvRecord } from "@/lib/csv"
+
+export interface ImportRowError {
+  file: string
+  line: number // 0 when the problem is with the file as a whole
+  // Translated when shown, so the parser stays locale-free
+  message: MessageKey
+  params?: MessageParams
+}
+
+export interface TradeFill {
+  file: string
+  line: number
+  time: number
+  pair: string
+  exchange: string
+  side: "BUY" | "SELL"
+  price: number
+  qty: number
+  fee: number
+}
+
+export interface FundingPayment {
+  time: number
+  pair: string
+  exchange: string
+  amount: number // Quote currency received (negative: paid)
+  rate?: number // Percent, when the export includes it
+  price?: number // Mark price at settlement, when the export includes it
+}
+
+// A native trade carries its pair, since the file can mix pairs
+export type NativeTrade = TradeRecord & { pair: string }
+
+export type ParsedImportFile =
+  | { kind: "fills"; fills: TradeFill[]; errors: ImportRowError[] }
+  | { kind: "funding"; payments: FundingPayment[]; errors: ImportRowError[] }
+  | {
+      kind: "native"
+      trades: NativeTrade[]
+      fundingRates: Record<string, FundingRatePoint[]>
+      prices: Record<string, PricePoint[]>
+      errors: ImportRowError[]
+    }
+  | { kind: "unknown"; errors: ImportRowError[] }
+
+export const NATIVE_FORMAT = "funding-dashboard"
+
+const COLUMNS = {
+  time: ["time", "timestamp", "date", "datetime", "date(utc)", "created_at", "exec_time"],
+  pair: ["symbol", "pair", "market", "instrument", "contract"],
+  side: ["side", "direction"],
+  price: ["price", "avg price", "fill price", "exec price", "exec_price"],
+  qty: ["qty", "quantity", "size", "executed", "filled", "exec_qty"],
+  fee: ["fee", "commission", "trading fee", "exec_fee"],
+  exchange: ["exchange", "venue"],
+  amount: ["amount", "funding", "funding fee", "payment", "income"],
+  rate: ["rate", "funding rate", "funding_rate"],
+  markPrice: ["mark price", "mark_price", "markprice", "price"],
+} as const
+
+type ColumnKey = keyof typeof COLUMNS
+
+const QUOTE_ASSETS = ["USDT", "USDC", "BUSD", "USD"]
+
+function findColumn(columns: string[], key: ColumnKey) {
+  return COLUMNS[key].find((alias) => columns.includes(alias))
+}
+
+// "BTCUSDT", "BTC/USDT:USDT" and "btc_usdt" all become "BTC-USDT"
+export function normalizeExchangeSymbol(symbol: string) {
+  const cleaned = symbol.split(":")[0]
+  const normalized = normalizePairSymbol(cleaned)
+
+  if (normalized.includes("-")) {
+    return normalized
+  }
+
+  const quote = QUOTE_ASSETS.find((asset) => normalized.endsWith(asset) && normalized !== asset)
+  return quote ? `${normalized.slice(0, -quote.length)}-${quote}` : normalized
+}
+
+// Epoch seconds or ms, or a date string; zone-less strings are read as UTC
+export function parseTimestamp(value: string) {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value)
+    return number < 1e12 ? number * 1000 : number
+  }
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(value)
+  const time = Date.parse(hasZone ? value : `${value.replace(" ", "T")}Z`)
+  return Number.isNaN(time) ? null : time
+}
+
+// The last of "," and "." is the decimal mark: "1,234.5" and "1.234,5" are both 1234.5. A
+// lone comma is a decimal mark ("0,5") unless it groups thousands ("1,234" or "12,345,678").
+function normalizeDecimal(value: string) {
+  const comma = value.lastIndexOf(",")
+  const dot = value.lastIndexOf(".")
+
+  if (comma === -1) {
+    return value
+  }
+  if (dot > comma) {
+    return value.replace(/,/g, "")
+  }
+  if (dot !== -1) {
+    return value.replace(/\./g, "").replace(",", ".")
+  }
+  return /^[+-]?\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, "") : value.replace(",", ".")
+}
+
+export function parseNumber(value: string) {
+  const cleaned = normalizeDecimal(value.trim().replace(/[^\d.,eE+-]+$/, "").trim())
+  if (cleaned === "") {
+    return null
+  }
+
+  const number = Number(cleaned)
+  return Number.isFinite(number) ? number : null
+}
+
+// "0.01%" is already percent; a bare number is the fraction exchanges export
+export function parseRate(value: string) {
+  const number = parseNumber(value.replace("%", ""))
+  if (number === null) {
+    return null
+  }
+
+  return value.trim().endsWith("%") ? number : number * 100
+}
+
+// Falls back to an exchange named in the file name, e.g. "binance-fills.csv"
+function guessExchange(fileName: string) {
+  const lower = fileName.toLowerCase()
+  return Object.keys(EXCHANGES).find((id) => lower.includes(id)) ?? "unknown"
+}
+
+// The offending cell, for a row error's message
+const cell = (values: Record<string, string>, column: string | undefined) => ({ value: values[column!] ?? "" })
+
+function readRecords<T>(
+  fileName: string,
+  records: CsvRecord[],
+  read: (record: CsvRecord, fail: (message: MessageKey, params?: MessageParams) => null) => T | null
+) {
+  const items: T[] = []
+  const errors: ImportRowError[] = []
+
+  for (const record of records) {
+    const item = read(record, (message, params) => {
+      errors.push({ file: fileName, line: record.line, message, params })
+      return null
+    })
+
+    if (item) {
+      items.push(item)
+    }
+  }
+
+  return { items, errors }
+}
+
+function parseFills(fileName: string, columns: string[], records: CsvRecord[]) {
+  const column = (key: ColumnKey) => findColumn(columns, key)
+  const [timeCol, pairCol, sideCol, priceCol, qtyCol] = (
+    ["time", "pair", "side", "price", "qty"] as const
+  ).map(column)
+  const feeCol = column("fee")
+  const exchangeCol = column("exchange")
+  const defaultExchange = guessExchange(fileName)
+
+  const { items, errors } = readRecords<TradeFill>(fileName, records, ({ line, values }, fail) => {
+    const time = parseTimestamp(values[timeCol!] ?? "")
+    const pair = normalizeExchangeSymbol(values[pairCol!] ?? "")
+    const side = (values[sideCol!] ?? "").toUpperCase()
+    const price = parseNumber(values[priceCol!] ?? "")
+    const qty = parseNumber(values[qtyCol!] ?? "")
+    const fee = feeCol ? parseNumber(values[feeCol] || "0") : 0
+
+    if (time === null) return fail("import.invalidTime", cell(values, timeCol))
+    if (!pair) return fail("import.missingSymbol")
+    if (!["BUY", "SELL", "LONG", "SHORT"].includes(side)) return fail("import.unknownSide", cell(values, sideCol))
+    if (price === null || price <= 0) return fail("import.invalidPrice", cell(values, priceCol))
+    if (qty === null || qty === 0) return fail("import.invalidQuantity", cell(values, qtyCol))
+    if (fee === null) return fail("import.invalidFee", cell(values, feeCol))
+
+    return {
+      file: fileName,
+      line,
+      time,
+      pair,
+      exchange: (exchangeCol && values[exchangeCol]?.toLowerCase()) || defaultExchange,
+      side: side === "BUY" || side === "LONG" ? "BUY" : "SELL",
+      price,
+      qty: Math.abs(qty),
+      fee: Math.abs(fee),
+    }
+  })
+
+  return { kind: "fills" as const, fills: items, errors }
+}
+
+function parseFunding(fileName: string, columns: string[], records: CsvRecord[]) {
+  const timeCol = findColumn(columns, "time")!
+  const pairCol = findColumn(columns, "pair")!
+  const amountCol = findColumn(columns, "amount")
+  const rateCol = findColumn(columns, "rate")
+  const priceCol = findColumn(columns, "markPrice")
+  const exchangeCol = findColumn(columns, "exchange")
+  const defaultExchange = guessExchange(fileName)
+
+  const { items, errors } = readRecords<FundingPayment>(fileName, records, ({ values }, fail) => {
+    const time = parseTimestamp(values[timeCol] ?? "")
+    const pair = normalizeExchangeSymbol(values[pairCol] ?? "")
+    const amount = amountCol ? parseNumber(values[amountCol] ?? "") : 0
+    const rate = rateCol && values[rateCol] ? parseRate(values[rateCol]) : undefined
+    const price = priceCol && values[priceCol] ? parseNumber(values[priceCol]) : undefined
+
+    if (time === null) return fail("import.invalidTime", cell(values, timeCol))
+    if (!pair) return fail("import.missingSymbol")
+    if (amount === null) return fail("import.invalidFundingAmount", cell(values, amountCol))
+    if (rate === null) return fail("import.invalidFundingRate", cell(values, rateCol))
+    if (price === null || (price !== undefined && price <= 0)) {
+      return fail("import.invalidMarkPrice", cell(values, priceCol))
+    }
+
+    return {
+      time,
+      pair,
+      exchange: (exchangeCol && values[exchangeCol]?.toLowerCase()) || defaultExchange,
+      amount,
+      rate,
+      price,
+    }
+  })
+
+  return { kind: "funding" as const, payments: items, errors }
+}
+
+// A { [pair]: point[] } map, keeping only well-formed points
+function readSeries<T>(value: unknown, isPoint: (point: Record<string, unknown>) => boolean) {
+  const series: Record<string, T[]> = {}
+
+  if (value && typeof value === "object") {
+    for (const [pair, points] of Object.entries(value)) {
+      if (Array.isArray(points)) {
+        series[normalizeExchangeSymbol(pair)] = points.filter(
+          (point) => point && typeof point === "object" && isPoint(point)
+        ) as T[]
+      }
+    }
+  }
+
+  return series
+}
+
+const REQUIRED_NATIVE_FIELDS = [
+  "id",
+  "pair",
+  "type",
+  "startTime",
+  "endTime",
+  "size",
+  "startPrice",
+  "endPrice",
+  "fundingTotal",
+  "fee",
+] as const
+
+// JSON numbers, or numeric strings as some tools write them; null for anything else
+function readNativeNumber(value: unknown) {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+  return typeof number === "number" && Number.isFinite(number) ? number : null
+}
+
+const isPositive = (value: unknown) => (readNativeNumber(value) ?? 0) > 0
+const isFiniteNumber = (value: unknown) => readNativeNumber(value) !== null
+
+// Checks for every field a native trade may carry; optional ones are checked when present
+const NATIVE_FIELD_CHECKS: Record<string, (value: unknown) => boolean> = {
+  id: (value) => (typeof value === "string" && value !== "") || typeof value === "number",
+  pair: (value) => typeof value === "string" && normalizeExchangeSymbol(value) !== "",
+  type: (value) => value === "LONG" || value === "SHORT",
+  size: isPositive,
+  notional: isPositive,
+  startPrice: isPositive,
+  endPrice: isPositive,
+  fundingTotal: isFiniteNumber,
+  fee: (value) => (readNativeNumber(value) ?? -1) >= 0,
+  periods: (value) => {
+    const periods = readNativeNumber(value)
+    return periods !== null && Number.isInteger(periods) && periods >= 0
+  },
+  leverage: isPositive,
+  marginMode: (value) => value === "cross" || value === "isolated",
+  exchange: (value) => typeof value === "string" && value.trim() !== "",
+}
+
+function parseNative(fileName: string, text: string): ParsedImportFile {
+  let data: unknown
+
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return {
+      kind: "unknown",
+      errors: [
+        { file: fileName, line: 0, message: "import.invalidJson", params: { reason: (error as Error).message } },
+      ],
+    }
+  }
+
+  const file = data as {
+    format?: string
+    trades?: unknown
+    fundingRates?: unknown
+    prices?: unknown
+  }
+
+  if (file?.format !== NATIVE_FORMAT || !Array.isArray(file.trades)) {
+    return {
+      kind: "unknown",
+      errors: [{ file: fileName, line: 0, message: "import.notNativeExport", params: { format: NATIVE_FORMAT } }],
+    }
+  }
+
+  const errors: ImportRowError[] = []
+  const trades: NativeTrade[] = []
+
+  file.trades.forEach((entry: Record<string, unknown>, index) => {
+    const line = index + 1
+    const missing = REQUIRED_NATIVE_FIELDS.filter((field) => entry?.[field] === undefined)
+
+    if (missing.length) {
+      errors.push({
+        file: fileName,
+        line,
+        message: "import.tradeMissingFields",
+        params: { fields: missing.join(", ") },
+      })
+      return
+    }
+
+    const start = Date.parse(String(entry.startTime))
+    const end = Date.parse(String(entry.endTime))
+    const number = (field: string) => readNativeNumber(entry[field])
+    const invalid = Object.entries(NATIVE_FIELD_CHECKS)
+      .filter(([field, isValid]) => entry[field] !== undefined && !isValid(entry[field]))
+      .map(([field]) => field)
+
+    if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+      invalid.push("startTime/endTime")
+    }
+
+    if (invalid.length) {
+      errors.push({
+        file: fileName,
+        line,
+        message: "import.tradeInvalidFields",
+        params: { fields: invalid.join(", ") },
+      })
+      return
+    }
+
+    trades.push({
+      ...toTradeRecord({
+        id: String(entry.id),
+        type: entry.type as TradeType,
+        start,
+        end,
+        exchange: (entry.exchange as string | undefined) ?? "unknown",
+        size: number("size")!,
+        notional: number("notional") ?? undefined,
+        startPrice: number("startPrice")!,
+        endPrice: number("endPrice")!,
+        fundingTotal: number("fundingTotal")!,
+        periods: number("periods") ?? undefined,
+        fee: number("fee")!,
+        leverage: number("leverage") ?? undefined,
+        marginMode: entry.marginMode as TradeRecord["marginMode"] | undefined,
+      }),
+      pair: normalizeExchangeSymbol(String(entry.pair)),
+    })
+  })
+
+  const fundingRates = readSeries<FundingRatePoint>(
+    file.fundingRates,
+    (point) => typeof point.time === "string" && typeof point.rate === "number"
+  )
+  const prices = readSeries<PricePoint>(
+    file.prices,
+    (point) => typeof point.time === "string" && typeof point.price === "number"
+  )
+
+  return { kind: "native", trades, fundingRates, prices, errors }
+}
+
+// Sniffs the format from the extension and CSV header
+export function parseImportFile(fileName: string, text: string): ParsedImportFile {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    return parseNative(fileName, text)
+  }
+
+  const { columns, records } = parseCsvRecords(text)
+  const has = (key: ColumnKey) => findColumn(columns, key) !== undefined
+
+  if (!has("time") || !has("pair")) {
+    return {
+      kind: "unknown",
+      errors: [{ file: fileName, line: 1, message: "import.missingColumns" }],
+    }
+  }
+
+  if (has("side") && has("price") && has("qty")) {
+    return parseFills(fileName, columns, records)
+  }
+
+  if (has("amount") || has("rate")) {
+    return parseFunding(fileName, columns, records)
+  }
+
+  return {
+    kind: "unknown",
+    errors: [{ file: fileName, line: 1, message: "import.unknownFileKind" }],
+  }
+}
+
+// Fills in display fields shared by every imported trade
+function toTradeRecord(trade: {
+  id: string
+  type: TradeType
+  start: number
+  end: number
+  exchange: string
+  size: number
+  notional?: number // Defaults to size at the entry price
+  startPrice: number
+  endPrice: number
+  fundingTotal: number
+  periods?: number
+  fee: number
+  leverage?: number
+  marginMode?: TradeRecord["marginMode"]
+}): TradeRecord {
+  const startDate = new Date(trade.start)
+
+  return {
+    id: trade.id,
+    type: trade.type,
+    startTime: startDate.toISOString(),
+    endTime: new Date(trade.end).toISOString(),
+    exchange: trade.exchange,
+    size: trade.size,
+    notional: trade.notional ?? trade.size * trade.startPrice,
+    leverage: trade.leverage ?? 1,
+    marginMode: trade.marginMode ?? "cross",
+    fundingTotal: trade.fundingTotal,
+    periods: trade.periods ?? Math.floor((trade.end - trade.start) / FUNDING_PERIOD_MS),
+    fee: trade.fee,
+    startPrice: trade.startPrice,
+    endPrice: trade.endPrice,
+    duration: Math.round(((trade.end - trade.start) / DAY_MS) * 10) / 10,
+    dateLabel: formatAxisDate(trade.start),
+    startDay: Math.floor(trade.start / DAY_MS),
+  }
+}
+
+const EPSILON = 1e-9
+
+interface OpenLot {
+  type: TradeType
+  start: number
+  qty: number
+  entryQty: number
+  entryCost: number
+  exitQty: number
+  exitCost: number
+  fee: number
+}
+
+export interface GroupedPosition {
+  pair: string
+  exchange: string
+  type: TradeType
+  start: number
+  end: number
+  size: number
+  startPrice: number
+  endPrice: number
+  fee: number
+}
+
+// Walks fills in time order per pair and venue; a position opens when the net quantity
+// leaves zero and closes when it returns. A fill that flips the sign closes and reopens.
+export function groupFillsIntoPositions(fills: TradeFill[]) {
+  const positions: GroupedPosition[] = []
+  const errors: ImportRowError[] = []
+  const groups = new Map<string, TradeFill[]>()
+
+  for (const fill of fills) {
+    const key = `${fill.exchange}|${fill.pair}`
+    const group = groups.get(key)
+    if (group) {
+      group.push(fill)
+    } else {
+      groups.set(key, [fill])
+    }
+  }
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.time - b.time)
+    let lot: OpenLot | null = null
+    let lastFill = group[0]
+
+    for (const fill of group) {
+      lastFill = fill
+      let remaining = fill.side === "BUY" ? fill.qty : -fill.qty
+
+      while (Math.abs(remaining) > EPSILON) {
+        const portion = (qty: number) => (fill.fee * qty) / fill.qty
+
+        if (!lot) {
+          lot = {
+            type: remaining > 0 ? "LONG" : "SHORT",
+            start: fill.time,
+            qty: 0,
+            entryQty: 0,
+            entryCost: 0,
+            exitQty: 0,
+            exitCost: 0,
+            fee: 0,
+          }
+        }
+
+        const direction = lot.type === "LONG" ? 1 : -1
+
+        if (Math.sign(remaining) === direction) {
+          const qty = Math.abs(remaining)
+          lot.qty += qty
+          lot.entryQty += qty
+          lot.entryCost += qty * fill.price
+          lot.fee += portion(qty)
+          remaining = 0
+          continue
+        }
+
+        const qty = Math.min(Math.abs(remaining), lot.qty)
+        lot.qty -= qty
+        lot.exitQty += qty
+        lot.exitCost += qty * fill.price
+        lot.fee += portion(qty)
+        remaining += direction * qty
+
+        if (lot.qty <= EPSILON) {
+          positions.push({
+            pair: fill.pair,
+            exchange: fill.exchange,
+            type: lot.type,
+            start: lot.start,
+            end: fill.time,
+            size: lot.entryQty,
+            startPrice: lot.entryCost / lot.entryQty,
+            endPrice: lot.exitCost / lot.exitQty,
+            fee: lot.fee,
+          })
+          lot = null
+        }
+      }
+    }
+
+    if (lot) {
+      errors.push({
+        file: lastFill.file,
+        line: lastFill.line,
+        message: "import.positionStillOpen",
+        params: { pair: lastFill.pair },
+      })
+    }
+  }
+
+  return { positions, errors }
+}
+
+// Payments count toward a position when they settle after it opens, up to its close
+function attachFunding(position: GroupedPosition, payments: FundingPayment[]) {
+  const matched = payments.filter(
+    (payment) =>
+      payment.pair === position.pair &&
+      (payment.exchange === position.exchange ||
+        payment.exchange === "unknown" ||
+        position.exchange === "unknown") &&
+      payment.time > position.start &&
+      payment.time <= position.end
+  )
+  const notional = position.size * position.startPrice
+  const amount = matched.reduce((sum, payment) => sum + payment.amount, 0)
+
+  return {
+    fundingTotal: notional > 0 ? (amount / notional) * 100 : 0,
+    periods: matched.length || undefined,
+  }
+}
+
+// Later points replace earlier ones at the same timestamp
+function dedupeByTime<T extends { time: string }>(points: T[]) {
+  const byTime = new Map(points.map((point) => [point.time, point]))
+  return [...byTime.values()].sort((a, b) => a.time.localeCompare(b.time))
+}
+
+// Appends in place; exports run to many thousands of rows, so nothing is copied per row
+function append<T>(record: Record<string, T[]>, key: string, items: T[]) {
+  const list = (record[key] ??= [])
+  for (const item of items) {
+    list.push(item)
+  }
+}
+
+function mapValues<T, U>(record: Record<string, T>, map: (value: T) => U) {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)]))
+}
+
+export interface ImportedData {
+  trades: Record<string, TradeBarData[]>
+  fundingRates: Record<string, FundingRatePoint[]>
+  prices: Record<string, PricePoint[]>
+  errors: ImportRowError[]
+}
+
+// Rebuilds every imported trade from the raw files, so funding logs dropped after
+// the fills still land on the right positions
+export function buildImportedData(files: ParsedImportFile[]): ImportedData {
+  const fills = files.flatMap((file) => (file.kind === "fills" ? file.fills : []))
+  const payments = files.flatMap((file) => (file.kind === "funding" ? file.payments : []))
+  const { positions, errors } = groupFillsIntoPositions(fills)
+  const trades: Record<string, TradeBarData[]> = {}
+  const fundingRates: Record<string, FundingRatePoint[]> = {}
+  const prices: Record<string, PricePoint[]> = {}
+  const counters: Record<string, number> = {}
+
+  const add = (pair: string, trade: TradeRecord) => {
+    append(trades, pair, [applyTradeAccounting(trade)])
+  }
+
+  for (const position of positions) {
+    const key = `${position.exchange}-${position.pair}`
+    counters[key] = (counters[key] ?? 0) + 1
+    add(
+      position.pair,
+      toTradeRecord({
+        ...position,
+        id: `import-${key}-${counters[key]}`,
+        ...attachFunding(position, payments),
+      })
+    )
+  }
+
+  for (const file of files) {
+    if (file.kind !== "native") {
+      continue
+    }
+
+    for (const { pair, ...trade } of file.trades) {
+      add(pair, trade)
+    }
+
+    for (const [pair, points] of Object.entries(file.fundingRates)) {
+      append(fundingRates, pair, points)
+    }
+
+    for (const [pair, points] of Object.entries(file.prices)) {
+      append(prices, pair, points)
+    }
+  }
+
+  // Funding logs that include the rate or mark price double as those histories
+  for (const payment of payments) {
+    const time = new Date(payment.time).toISOString()
+
+    if (payment.rate !== undefined) {
+      append(fundingRates, payment.pair, [{ time, rate: payment.rate }])
+    }
+
+    if (payment.price !== undefined) {
+      append(prices, payment.pair, [{ time, price: payment.price }])
+    }
+  }
+
+  for (const pair of Object.keys(trades)) {
+    trades[pair].sort((a, b) => a.startTime.localeCompare(b.startTime))
+  }
+
+  return {
+    trades,
+    fundingRates: mapValues(fundingRates, dedupeByTime),
+    prices: mapValues(prices, dedupeByTime),
+    errors: [...files.flatMap((file) => file.errors), ...errors],
+  }
+}
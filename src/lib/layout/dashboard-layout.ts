@@ -0,0 +1,108 @@
+// Arrangement of the overview's pair panels: how many share a row, their order and widths,
+// which are collapsed and which widgets each card shows
+
+import type { MessageKey } from "@/lib/i18n"
+
+export type CardWidget = "summary" | "chart" | "openPositions" | "trades"
+
+// Message keys for the widget names in each card's menu
+export const CARD_WIDGETS: Record<CardWidget, MessageKey> = {
+  summary: "widget.summary",
+  chart: "widget.chart",
+  openPositions: "widget.openPositions",
+  trades: "widget.trades",
+}
+
+export const ALL_CARD_WIDGETS = Object.keys(CARD_WIDGETS) as CardWidget[]
+
+export const MAX_COLUMNS = 4
+
+// Percent of the row a collapsed panel keeps, enough for its name and expand button
+export const COLLAPSED_SIZE = 6
+export const MIN_PANEL_SIZE = 20
+
+export interface DashboardLayout {
+  columns: number // Panels per row
+  order: string[] // Pair order; pairs missing from it follow in watchlist order
+  sizes: Record<string, number> // Relative width of each pair's panel within its row
+  collapsed: string[]
+  widgets: Record<string, CardWidget[]> // Pairs without an entry show every widget
+  showLegend: boolean
+}
+
+export const DEFAULT_DASHBOARD_LAYOUT: DashboardLayout = {
+  columns: 3,
+  order: [],
+  sizes: {},
+  collapsed: [],
+  widgets: {},
+  showLegend: false,
+}
+
+// Watchlist pairs in layout order
+export function orderPairs(order: string[], pairs: string[]) {
+  const listed = order.filter((pair) => pairs.includes(pair))
+  return [...listed, ...pairs.filter((pair) => !listed.includes(pair))]
+}
+
+export function chunkRows(pairs: string[], columns: number) {
+  const rows: string[][] = []
+
+  for (let index = 0; index < pairs.length; index += columns) {
+    rows.push(pairs.slice(index, index + columns))
+  }
+
+  return rows
+}
+
+// Starting widths (percent) for one row: collapsed panels keep COLLAPSED_SIZE and the rest
+// split what is left by their saved weights. Single panels can't collapse sideways.
+export function rowDefaultSizes(row: string[], layout: Pick<DashboardLayout, "sizes" | "collapsed">) {
+  if (row.length === 1) {
+    return [100]
+  }
+
+  const isCollapsed = row.map((pair) => layout.collapsed.includes(pair))
+  const weights = row.map((pair, index) => (isCollapsed[index] ? 0 : (layout.sizes[pair] ?? 1)))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  const available = 100 - COLLAPSED_SIZE * isCollapsed.filter(Boolean).length
+
+  return row.map((_, index) =>
+    isCollapsed[index] ? COLLAPSED_SIZE : total > 0 ? (available * weights[index]) / total : available
+  )
+}
+
+export function getCardWidgets(layout: DashboardLayout, pair: string) {
+  return layout.widgets[pair] ?? ALL_CARD_WIDGETS
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+// Whatever came out of storage, as a usable layout; unknown or malformed fields fall back
+export function sanitizeLayout(value: unknown): DashboardLayout {
+  const input = (typeof value === "object" && value !== null ? value : {}) as Partial<
+    Record<keyof DashboardLayout, unknown>
+  >
+  const columns = Number(input.columns)
+  const sizes = typeof input.sizes === "object" && input.sizes !== null ? input.sizes : {}
+  const widgets = typeof input.widgets === "object" && input.widgets !== null ? input.widgets : {}
+
+  return {
+    columns:
+      Number.isInteger(columns) && columns >= 1 && columns <= MAX_COLUMNS
+        ? columns
+        : DEFAULT_DASHBOARD_LAYOUT.columns,
+    order: isStringArray(input.order) ? input.order : [],
+    sizes: Object.fromEntries(
+      Object.entries(sizes).filter(([, size]) => typeof size === "number" && size > 0)
+    ),
+    collapsed: isStringArray(input.collapsed) ? input.collapsed : [],
+    widgets: Object.fromEntries(
+      Object.entries(widgets).flatMap(([pair, list]) =>
+        isStringArray(list) ? [[pair, list.filter((widget) => widget in CARD_WIDGETS) as CardWidget[]]] : []
+      )
+    ),
+    showLegend: input.showLegend === true,
+  }
+}
@@ -0,0 +1,96 @@
+// Thin promise wrapper over the app's IndexedDB database. Every helper resolves to a safe
+// empty value where IndexedDB is missing (private modes, server rendering), so callers can
+// treat the database as a cache that is sometimes empty rather than checking support first.
+
+const DATABASE_NAME = "trading-dashboard"
+const DATABASE_VERSION = 1
+
+// Object stores and the property each is keyed by
+export const STORES = {
+  // Fetched trades, funding and prices per source, pair and series, with the spans they cover
+  series: "key",
+  // Latest open positions per source and pair, for offline use
+  positions: "key",
+  // Raw text of imported files, re-parsed on load
+  imports: "name",
+} as const
+
+export type StoreName = keyof typeof STORES
+
+let database: Promise<IDBDatabase | null> | undefined
+
+export function isStorageSupported() {
+  return typeof indexedDB !== "undefined"
+}
+
+function openDatabase() {
+  database ??= new Promise((resolve) => {
+    if (!isStorageSupported()) {
+      resolve(null)
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+    request.onupgradeneeded = () => {
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath })
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    // A blocked or failed open leaves the app working uncached
+    request.onerror = () => resolve(null)
+    request.onblocked = () => resolve(null)
+  })
+
+  return database
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Runs one request in its own transaction; undefined when there is no database
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase()
+  return db ? toPromise(run(db.transaction(name, mode).objectStore(name))) : undefined
+}
+
+export function getRecord<T>(name: StoreName, key: string): Promise<T | undefined> {
+  return withStore(name, "readonly", (store) => store.get(key))
+}
+
+export async function getAllRecords<T>(name: StoreName): Promise<T[]> {
+  return (await withStore(name, "readonly", (store) => store.getAll())) ?? []
+}
+
+export async function countRecords(name: StoreName) {
+  return (await withStore(name, "readonly", (store) => store.count())) ?? 0
+}
+
+export async function putRecord<T>(name: StoreName, value: T) {
+  await withStore(name, "readwrite", (store) => store.put(value))
+}
+
+export async function clearStore(name: StoreName) {
+  await withStore(name, "readwrite", (store) => store.clear())
+}
+
+// Origin-wide usage and quota as the browser reports them, when it does
+export async function estimateStorage() {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null
+  }
+
+  const { usage, quota } = await navigator.storage.estimate()
+  return { usage: usage ?? 0, quota: quota ?? 0 }
+}
@@ -0,0 +1,348 @@
+import type { TradeDataSource } from "@/lib/trading/data-source"
+import type { OpenPosition, TimeRange } from "@/lib/trading/types"
+import {
+  clearStore,
+  countRecords,
+  estimateStorage,
+  getAllRecords,
+  getRecord,
+  putRecord,
+} from "./database"
+
+// Inclusive span of epoch milliseconds
+interface Span {
+  from: number
+  to: number
+}
+
+type SeriesKind = "trades" | "funding-rates" | "prices"
+
+// Everything fetched for one series. Items inside the covered spans are complete, so a
+// range that falls inside them is answered without asking the source.
+interface SeriesRecord<T> {
+  key: string
+  source: string
+  kind: SeriesKind
+  pair: string
+  exchange: string | null
+  items: T[]
+  covered: Span[] // Sorted, non-overlapping
+  syncedAt: number
+}
+
+interface PositionsRecord {
+  key: string
+  source: string
+  pair: string
+  items: OpenPosition[]
+  syncedAt: number
+}
+
+interface ImportFileRecord {
+  name: string
+  text: string
+  importedAt: number
+}
+
+export interface CachedTradeDataSourceOptions {
+  // True to serve only cached history, without asking the source
+  isOffline?: () => boolean
+  // Told after every request to the source whether it answered
+  onSync?: (result: { reachable: boolean; time: number }) => void
+}
+
+// Recent history can still change (a settlement published late, a trade not yet closed),
+// so coverage stops this far short of the time it was fetched and the tail is synced again
+const SETTLE_MARGIN_MS = 15 * 60_000
+
+function addSpan(spans: Span[], span: Span) {
+  return [...spans, span]
+    .sort((a, b) => a.from - b.from)
+    .reduce<Span[]>((merged, next) => {
+      const last = merged[merged.length - 1]
+      if (last && next.from <= last.to + 1) {
+        last.to = Math.max(last.to, next.to)
+      } else {
+        merged.push({ ...next })
+      }
+      return merged
+    }, [])
+}
+
+// Parts of the wanted span no covered span reaches, in order
+function missingSpans(spans: Span[], wanted: Span) {
+  const missing: Span[] = []
+  let cursor = wanted.from
+
+  for (const span of spans) {
+    if (span.from > wanted.to) {
+      break
+    }
+    if (span.from > cursor) {
+      missing.push({ from: cursor, to: span.from - 1 })
+    }
+    cursor = Math.max(cursor, span.to + 1)
+  }
+
+  if (cursor <= wanted.to) {
+    missing.push({ from: cursor, to: wanted.to })
+  }
+
+  return missing
+}
+
+const toSpan = ({ from, to }: TimeRange): Span => ({ from: Date.parse(from), to: Date.parse(to) })
+
+const toRange = ({ from, to }: Span): TimeRange => ({
+  from: new Date(from).toISOString(),
+  to: new Date(to).toISOString(),
+})
+
+const isInSpan = ({ from, to }: Span, time: number) => time >= from && time <= to
+
+// Reads and writes of one series run one after another, so two ranges synced at once
+// cannot overwrite each other's coverage
+const pending = new Map<string, Promise<unknown>>()
+
+function serialize<T>(key: string, task: () => Promise<T>) {
+  const run = (pending.get(key) ?? Promise.resolve()).then(task)
+  pending.set(key, run.catch(() => undefined))
+  return run
+}
+
+// Storage is a cache: a failed read is a miss and a failed write (quota, private mode) is dropped
+const readRecord = <T,>(store: "series" | "positions", key: string) =>
+  getRecord<T>(store, key).catch(() => undefined)
+
+const writeRecord = <T,>(store: "series" | "positions" | "imports", value: T) =>
+  putRecord(store, value).catch(() => undefined)
+
+// Wraps a source so trades, funding and prices are kept in IndexedDB per source, pair and
+// series. Only the parts of a range not fetched before are asked for, which for a trailing
+// range is the stretch since the last visit. When the source is unreachable or the reader
+// works offline, whatever is cached for the range is served instead.
+export function createCachedTradeDataSource(
+  source: TradeDataSource,
+  { isOffline = () => false, onSync }: CachedTradeDataSourceOptions = {}
+): TradeDataSource {
+  const offline = () =>
+    isOffline() || (typeof navigator !== "undefined" && navigator.onLine === false)
+
+  const report = (reachable: boolean) => onSync?.({ reachable, time: Date.now() })
+
+  // Open positions, and whether they came from the source just now rather than the cache
+  const syncOpenPositions = (pair: string) => {
+    const key = `${source.id}|${pair}`
+
+    return serialize(key, async () => {
+      const cached = await readRecord<PositionsRecord>("positions", key)
+
+      if (offline()) {
+        if (cached) {
+          return { items: cached.items, synced: false }
+        }
+        throw new Error(`Offline, and no open positions are cached for ${pair}`)
+      }
+
+      try {
+        const items = await source.getOpenPositions(pair)
+        report(true)
+        await writeRecord<PositionsRecord>("positions", {
+          key,
+          source: source.id,
+          pair,
+          items,
+          syncedAt: Date.now(),
+        })
+        return { items, synced: true }
+      } catch (error) {
+        report(false)
+        if (cached) {
+          return { items: cached.items, synced: false }
+        }
+        throw error
+      }
+    })
+  }
+
+  const syncSeries = <T,>({
+    kind,
+    pair,
+    exchange = null,
+    range,
+    fetch,
+    timeOf,
+    idOf,
+    settledUntil,
+  }: {
+    kind: SeriesKind
+    pair: string
+    exchange?: string | null
+    range: TimeRange
+    fetch: (range: TimeRange) => Promise<T[]>
+    timeOf: (item: T) => string
+    idOf: (item: T) => string
+    // Latest time before which fetched items can no longer change, beyond the settle margin
+    settledUntil?: () => Promise<number>
+  }) => {
+    const key = [source.id, kind, pair, exchange ?? ""].join("|")
+    const wanted = toSpan(range)
+
+    return serialize(key, async () => {
+      const cached = await readRecord<SeriesRecord<T>>("series", key)
+      const record: SeriesRecord<T> = cached ?? {
+        key,
+        source: source.id,
+        kind,
+        pair,
+        exchange,
+        items: [],
+        covered: [],
+        syncedAt: 0,
+      }
+      const inRange = (items: T[]) =>
+        items.filter((item) => isInSpan(wanted, Date.parse(timeOf(item))))
+      const gaps = missingSpans(record.covered, wanted)
+
+      if (!gaps.length) {
+        return inRange(record.items)
+      }
+
+      // Offline, a range partly synced still shows what is there; one never synced is an error
+      const fallback = (error: unknown) => {
+        const cachedItems = inRange(record.items)
+        const synced = record.covered.some((span) => span.from <= wanted.to && span.to >= wanted.from)
+
+        if (!synced && !cachedItems.length) {
+          throw error
+        }
+        return cachedItems
+      }
+
+      if (offline()) {
+        return fallback(new Error(`Offline, and no ${kind} are cached for ${pair} in this range`))
+      }
+
+      const fetchedAt = Date.now()
+      let fetched: T[]
+      try {
+        fetched = (await Promise.all(gaps.map((gap) => fetch(toRange(gap))))).flat()
+        report(true)
+      } catch (error) {
+        report(false)
+        return fallback(error)
+      }
+
+      // Fetched items replace what was held for the same gaps, and anything with the same id
+      const fetchedIds = new Set(fetched.map(idOf))
+      const items = [
+        ...record.items.filter((item) => {
+          const time = Date.parse(timeOf(item))
+          return !fetchedIds.has(idOf(item)) && !gaps.some((gap) => isInSpan(gap, time))
+        }),
+        ...fetched,
+      ].sort((a, b) => timeOf(a).localeCompare(timeOf(b)))
+
+      const horizon = Math.min(fetchedAt - SETTLE_MARGIN_MS, (await settledUntil?.()) ?? Infinity)
+      const covered = gaps.reduce(
+        (spans, gap) =>
+          gap.from <= horizon ? addSpan(spans, { from: gap.from, to: Math.min(gap.to, horizon) }) : spans,
+        record.covered
+      )
+
+      await writeRecord<SeriesRecord<T>>("series", { ...record, items, covered, syncedAt: fetchedAt })
+      return inRange(items)
+    })
+  }
+
+  // A trade still open when fetched shows up once it closes, under its opening time, so
+  // trades are only complete up to the oldest open position; with none open, up to the
+  // settle margin. Positions fetched through the cache are stored for the positions view
+  // too. Unknown or stale ones mean nothing newly fetched counts as complete.
+  const tradesSettledUntil = async (pair: string) => {
+    try {
+      const { items, synced } = await syncOpenPositions(pair)
+      return synced
+        ? Math.min(Infinity, ...items.map((position) => Date.parse(position.startTime) - 1))
+        : -Infinity
+    } catch {
+      return -Infinity
+    }
+  }
+
+  return {
+    id: source.id,
+    getTrades: (pair, range) =>
+      syncSeries({
+        kind: "trades",
+        pair,
+        range,
+        fetch: (gap) => source.getTrades(pair, gap),
+        timeOf: (trade) => trade.startTime,
+        idOf: (trade) => trade.id,
+        settledUntil: () => tradesSettledUntil(pair),
+      }),
+    getOpenPositions: async (pair) => (await syncOpenPositions(pair)).items,
+    getFundingRates: (pair, range, exchange) =>
+      syncSeries({
+        kind: "funding-rates",
+        pair,
+        exchange,
+        range,
+        fetch: (gap) => source.getFundingRates(pair, gap, exchange),
+        timeOf: (point) => point.time,
+        idOf: (point) => point.time,
+      }),
+    getPrices: (pair, range) =>
+      syncSeries({
+        kind: "prices",
+        pair,
+        range,
+        fetch: (gap) => source.getPrices(pair, gap),
+        timeOf: (point) => point.time,
+        idOf: (point) => point.time,
+      }),
+  }
+}
+
+// What the settings panel shows about local storage
+export async function summarizeHistoryCache() {
+  const [series, imports, estimate] = await Promise.all([
+    getAllRecords<SeriesRecord<unknown>>("series").catch(() => []),
+    countRecords("imports").catch(() => 0),
+    estimateStorage().catch(() => null),
+  ])
+
+  return {
+    series: series.length,
+    items: series.reduce((sum, record) => sum + record.items.length, 0),
+    pairs: new Set(series.map((record) => record.pair)).size,
+    imports,
+    syncedAt: series.length ? Math.max(...series.map((record) => record.syncedAt)) : null,
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+  }
+}
+
+export type HistoryCacheSummary = Awaited<ReturnType<typeof summarizeHistoryCache>>
+
+// Drops fetched history; imported files are the reader's own data and stay until cleared there
+export async function clearHistoryCache() {
+  await Promise.all([clearStore("series"), clearStore("positions")])
+}
+
+export async function loadImportFiles() {
+  const records = await getAllRecords<ImportFileRecord>("imports").catch(() => [])
+  return records.sort((a, b) => a.importedAt - b.importedAt)
+}
+
+export async function saveImportFiles(files: { name: string; text: string }[]) {
+  const importedAt = Date.now()
+  await Promise.all(
+    files.map((file) => writeRecord<ImportFileRecord>("imports", { ...file, importedAt }))
+  )
+}
+
+export async function clearImportFiles() {
+  await clearStore("imports").catch(() => undefined)
+}
@@ -0,0 +1,65 @@
+import type { TradeBarData, TradeRecord, TradeType } from "./types"
+
+export type TradeAccountingInput = Pick<
+  TradeBarData,
+  "type" | "size" | "startPrice" | "endPrice" | "fundingTotal" | "periods" | "fee"
+>
+
+export interface TradePnl {
+  entryNotional: number
+  exitNotional: number
+  pricePnl: number
+  fundingPnl: number
+  fundingPerPeriod: number // Average net funding collected per 8h period
+  fees: number
+  netPnl: number
+  netReturn: number // Percent of entry notional
+}
+
+const direction = (type: TradeType) => (type === "LONG" ? 1 : -1)
+
+// Fees for opening and closing a position at a flat rate on each side's notional
+export function computeTradeFees(
+  size: number,
+  entryPrice: number,
+  exitPrice: number,
+  feeRate: number
+) {
+  return (size * entryPrice + size * exitPrice) * feeRate
+}
+
+// Funding is quoted as a percent of entry notional, collected once per 8h period
+export function computeFundingPnl(entryNotional: number, fundingTotal: number) {
+  return (entryNotional * fundingTotal) / 100
+}
+
+export function computeTradePnl(trade: TradeAccountingInput): TradePnl {
+  const entryNotional = trade.size * trade.startPrice
+  const exitNotional = trade.size * trade.endPrice
+  const pricePnl = (trade.endPrice - trade.startPrice) * trade.size * direction(trade.type)
+  const fundingPnl = computeFundingPnl(entryNotional, trade.fundingTotal)
+  const netPnl = pricePnl + fundingPnl - trade.fee
+
+  return {
+    entryNotional,
+    exitNotional,
+    pricePnl,
+    fundingPnl,
+    fundingPerPeriod: trade.periods > 0 ? fundingPnl / trade.periods : 0,
+    fees: trade.fee,
+    netPnl,
+    netReturn: entryNotional > 0 ? (netPnl / entryNotional) * 100 : 0,
+  }
+}
+
+// Collateral backing the position at entry
+export function computeMargin(notional: number, leverage: number) {
+  return leverage > 0 ? notional / leverage : notional
+}
+
+// Overwrites the realized fields from the raw trade inputs, whatever the source sent
+export function applyTradeAccounting(trade: TradeRecord): TradeBarData {
+  const { pricePnl, fundingPnl, netPnl, netReturn } = computeTradePnl(trade)
+
+  return { ...trade, pricePnl, fundingPnl, profitLoss: netPnl, netReturn }
+}
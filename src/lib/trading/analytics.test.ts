@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildEquityCurve,
+  computeDailyReturns,
+  computeDrawdown,
+  computePerformance,
+  computeStreaks,
+  profitFactor,
+  sharpeRatio,
+  sortinoRatio,
+} from "./analytics"
+import type { TimeRange, TradeBarData } from "./types"
+
+const RANGE: TimeRange = { from: "2024-05-01T00:00:00.000Z", to: "2024-05-10T23:59:59.999Z" }
+
+// A closed trade with only the fields the analytics read set to anything meaningful
+function trade(id: string, close: string, profitLoss: number): TradeBarData {
+  return {
+    id,
+    type: "LONG",
+    startTime: "2024-05-01T00:00:00.000Z",
+    endTime: close,
+    exchange: "binance",
+    size: 1,
+    notional: 1000,
+    leverage: 1,
+    marginMode: "cross",
+    fundingTotal: 0,
+    periods: 0,
+    fee: 0,
+    startPrice: 1000,
+    endPrice: 1000,
+    duration: 0,
+    pricePnl: profitLoss,
+    fundingPnl: 0,
+    profitLoss,
+    netReturn: profitLoss / 10,
+    dateLabel: "",
+    startDay: 0,
+  }
+}
+
+// Closes out of order on purpose: everything is booked by close time
+const MIXED = [
+  trade("c", "2024-05-04T00:00:00.000Z", 80),
+  trade("a", "2024-05-02T00:00:00.000Z", 100),
+  trade("b", "2024-05-03T00:00:00.000Z", -50),
+]
+
+const ALL_WINS = [
+  trade("a", "2024-05-02T00:00:00.000Z", 10),
+  trade("b", "2024-05-03T00:00:00.000Z", 30),
+  trade("c", "2024-05-05T00:00:00.000Z", 20),
+]
+
+describe("buildEquityCurve", () => {
+  it("starts flat at the range start with no trades", () => {
+    expect(buildEquityCurve([], RANGE)).toEqual([
+      { time: RANGE.from, equity: 0, drawdown: 0, drawdownPercent: 0 },
+    ])
+  })
+
+  it("books PnL in close order and measures drawdown from the running peak", () => {
+    const curve = buildEquityCurve(MIXED, RANGE, 1000)
+
+    expect(curve.map((point) => point.time)).toEqual([
+      RANGE.from,
+      "2024-05-02T00:00:00.000Z",
+      "2024-05-03T00:00:00.000Z",
+      "2024-05-04T00:00:00.000Z",
+    ])
+    expect(curve.map((point) => point.equity)).toEqual([0, 100, 50, 130])
+    expect(curve.map((point) => point.drawdown)).toEqual([0, 0, -50, 0])
+    // Capital plus the peak it fell from
+    expect(curve[2].drawdownPercent).toBeCloseTo((-50 / 1100) * 100)
+  })
+
+  it("never goes under water when every trade wins", () => {
+    const curve = buildEquityCurve(ALL_WINS, RANGE, 1000)
+
+    expect(curve.map((point) => point.equity)).toEqual([0, 10, 40, 60])
+    expect(curve.every((point) => point.drawdown === 0)).toBe(true)
+  })
+})
+
+describe("computeDrawdown", () => {
+  it("is zero without trades", () => {
+    expect(computeDrawdown(buildEquityCurve([], RANGE))).toEqual({
+      maxDrawdown: 0,
+      maxDrawdownPercent: 0,
+      peakTime: null,
+      troughTime: null,
+      recoveryTime: null,
+      durationMs: 0,
+    })
+  })
+
+  it("finds the deepest trough and when the curve recovered", () => {
+    const drawdown = computeDrawdown(buildEquityCurve(MIXED, RANGE, 1000))
+
+    expect(drawdown.maxDrawdown).toBe(-50)
+    expect(drawdown.maxDrawdownPercent).toBeCloseTo((-50 / 1100) * 100)
+    expect(drawdown.peakTime).toBe("2024-05-02T00:00:00.000Z")
+    expect(drawdown.troughTime).toBe("2024-05-03T00:00:00.000Z")
+    expect(drawdown.recoveryTime).toBe("2024-05-04T00:00:00.000Z")
+    expect(drawdown.durationMs).toBe(2 * 86_400_000)
+  })
+
+  it("runs to the last point while still under water", () => {
+    const drawdown = computeDrawdown(
+      buildEquityCurve(
+        [
+          trade("a", "2024-05-02T00:00:00.000Z", 100),
+          trade("b", "2024-05-03T00:00:00.000Z", -60),
+          trade("c", "2024-05-05T00:00:00.000Z", 20),
+        ],
+        RANGE,
+        1000
+      )
+    )
+
+    expect(drawdown.maxDrawdown).toBe(-60)
+    expect(drawdown.recoveryTime).toBeNull()
+    expect(drawdown.durationMs).toBe(3 * 86_400_000)
+  })
+
+  it("is zero when every trade wins", () => {
+    expect(computeDrawdown(buildEquityCurve(ALL_WINS, RANGE, 1000)).maxDrawdown).toBe(0)
+  })
+})
+
+describe("sharpeRatio", () => {
+  it("is zero with fewer than two returns", () => {
+    expect(sharpeRatio([])).toBe(0)
+    expect(sharpeRatio([0.01])).toBe(0)
+  })
+
+  it("is zero when returns don't vary", () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01])).toBe(0)
+  })
+
+  it("annualizes mean over sample deviation", () => {
+    expect(sharpeRatio([0.01, -0.01, 0.02])).toBeCloseTo(8.3381, 3)
+  })
+})
+
+describe("sortinoRatio", () => {
+  it("is zero with fewer than two returns", () => {
+    expect(sortinoRatio([])).toBe(0)
+    expect(sortinoRatio([-0.01])).toBe(0)
+  })
+
+  it("is zero without a losing day, having no downside to divide by", () => {
+    expect(sortinoRatio([0.01, 0.02, 0.03])).toBe(0)
+  })
+
+  it("only counts days below zero as risk", () => {
+    expect(sortinoRatio([0.01, -0.01, 0.02])).toBeCloseTo(22.0604, 3)
+  })
+})
+
+describe("profitFactor", () => {
+  it("is zero without trades", () => {
+    expect(profitFactor([])).toBe(0)
+  })
+
+  it("divides gross profit by gross loss", () => {
+    expect(profitFactor(MIXED)).toBeCloseTo(180 / 50)
+  })
+
+  it("is infinite when nothing lost", () => {
+    expect(profitFactor(ALL_WINS)).toBe(Infinity)
+  })
+
+  it("is zero when nothing won", () => {
+    expect(profitFactor([trade("a", "2024-05-02T00:00:00.000Z", -10)])).toBe(0)
+  })
+})
+
+describe("computeStreaks", () => {
+  it("is empty without trades", () => {
+    expect(computeStreaks([])).toEqual({
+      longestWin: 0,
+      longestLoss: 0,
+      current: { kind: null, length: 0 },
+    })
+  })
+
+  it("counts runs in close order, with break-even as a loss", () => {
+    const pnls = [10, 20, -5, 0, -1, 30]
+    const trades = pnls.map((pnl, index) =>
+      trade(String(index), `2024-05-0${index + 2}T00:00:00.000Z`, pnl)
+    )
+
+    expect(computeStreaks([...trades].reverse())).toEqual({
+      longestWin: 2,
+      longestLoss: 3,
+      current: { kind: "win", length: 1 },
+    })
+  })
+
+  it("is one unbroken run when every trade wins", () => {
+    expect(computeStreaks(ALL_WINS)).toEqual({
+      longestWin: 3,
+      longestLoss: 0,
+      current: { kind: "win", length: 3 },
+    })
+  })
+})
+
+describe("computeDailyReturns", () => {
+  it("covers every day of the range, flat ones included", () => {
+    const returns = computeDailyReturns([], RANGE, 1000)
+
+    expect(returns).toHaveLength(10)
+    expect(returns.every((day) => day.pnl === 0 && day.return === 0)).toBe(true)
+  })
+
+  it("returns each day's PnL over the equity it started with", () => {
+    const returns = computeDailyReturns(MIXED, RANGE, 1000)
+
+    expect(returns[1]).toEqual({ day: "2024-05-02", pnl: 100, return: 0.1 })
+    expect(returns[2].return).toBeCloseTo(-50 / 1100)
+  })
+
+  it("runs on to a trade closing after the range ends", () => {
+    const returns = computeDailyReturns([trade("late", "2024-05-12T08:00:00.000Z", 40)], RANGE, 1000)
+
+    expect(returns[returns.length - 1]).toEqual({ day: "2024-05-12", pnl: 40, return: 0.04 })
+  })
+})
+
+describe("computePerformance", () => {
+  it("books the same trades in net PnL, the equity curve and daily returns", () => {
+    const trades = [...MIXED, trade("late", "2024-05-12T08:00:00.000Z", -30)]
+    const stats = computePerformance(trades, RANGE, 1000)
+    const dailyTotal = stats.dailyReturns.reduce((sum, day) => sum + day.pnl, 0)
+
+    expect(stats.netPnl).toBe(100)
+    expect(stats.equityCurve[stats.equityCurve.length - 1].equity).toBe(100)
+    expect(dailyTotal).toBe(100)
+  })
+
+  it("is neutral without trades", () => {
+    const stats = computePerformance([], RANGE)
+
+    expect(stats.netPnl).toBe(0)
+    expect(stats.sharpe).toBe(0)
+    expect(stats.sortino).toBe(0)
+    expect(stats.profitFactor).toBe(0)
+    expect(stats.winRate).toBe(0)
+  })
+})
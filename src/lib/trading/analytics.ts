@@ -0,0 +1,245 @@
+import { DAY_MS, type TimeRange, type TradeBarData } from "./types"
+
+// Crypto trades every day, so daily figures annualize over 365 days
+const DAYS_PER_YEAR = 365
+
+export interface EquityPoint {
+  time: string // Trade close (ISO); the first point is the range start
+  equity: number // Cumulative realized PnL, USD
+  drawdown: number // Distance below the running peak, USD (<= 0)
+  drawdownPercent: number // Same, as a share of capital plus the peak, percent (<= 0)
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number // USD, <= 0
+  maxDrawdownPercent: number // Percent, <= 0
+  peakTime: string | null
+  troughTime: string | null
+  recoveryTime: string | null // null while still under water
+  durationMs: number // Peak to recovery, or to the last point when not recovered
+}
+
+export interface StreakStats {
+  longestWin: number
+  longestLoss: number
+  current: { kind: "win" | "loss" | null; length: number }
+}
+
+export interface DailyReturn {
+  day: string // yyyy-mm-dd (UTC)
+  pnl: number // Realized on trades closing that day, USD
+  return: number // pnl over the equity at the start of the day, fraction
+}
+
+export interface PerformanceStats {
+  capital: number
+  netPnl: number
+  equityCurve: EquityPoint[]
+  drawdown: DrawdownStats
+  dailyReturns: DailyReturn[]
+  sharpe: number
+  sortino: number
+  profitFactor: number
+  winRate: number
+  streaks: StreakStats
+  fundingYield: number // Annualized, percent of notional
+}
+
+const byCloseTime = (trades: TradeBarData[]) =>
+  [...trades].sort((a, b) => a.endTime.localeCompare(b.endTime))
+
+// Without an explicit account size, the largest single position stands in for it
+export function defaultCapital(trades: TradeBarData[]) {
+  return trades.reduce((max, trade) => Math.max(max, trade.notional), 0)
+}
+
+// PnL is booked at close; the curve starts flat at the range start
+export function buildEquityCurve(
+  trades: TradeBarData[],
+  range: TimeRange,
+  capital = defaultCapital(trades)
+): EquityPoint[] {
+  const curve: EquityPoint[] = [{ time: range.from, equity: 0, drawdown: 0, drawdownPercent: 0 }]
+  let equity = 0
+  let peak = 0
+
+  for (const trade of byCloseTime(trades)) {
+    equity += trade.profitLoss
+    peak = Math.max(peak, equity)
+    const drawdown = equity - peak
+    const base = capital + peak
+
+    curve.push({
+      time: trade.endTime,
+      equity,
+      drawdown,
+      drawdownPercent: base > 0 ? (drawdown / base) * 100 : 0,
+    })
+  }
+
+  return curve
+}
+
+// The deepest trough below a prior peak, and how long the curve took to climb back
+export function computeDrawdown(curve: EquityPoint[]): DrawdownStats {
+  let peak = 0
+  let worstPeak = -1
+  let trough = -1
+
+  for (let index = 0; index < curve.length; index++) {
+    if (curve[index].equity >= curve[peak].equity) {
+      peak = index
+    }
+
+    if (curve[index].drawdown < (trough >= 0 ? curve[trough].drawdown : 0)) {
+      worstPeak = peak
+      trough = index
+    }
+  }
+
+  if (trough < 0) {
+    return {
+      maxDrawdown: 0,
+      maxDrawdownPercent: 0,
+      peakTime: null,
+      troughTime: null,
+      recoveryTime: null,
+      durationMs: 0,
+    }
+  }
+
+  const recovery = curve.slice(trough + 1).find((point) => point.equity >= curve[worstPeak].equity)
+  const end = recovery ?? curve[curve.length - 1]
+
+  return {
+    maxDrawdown: curve[trough].drawdown,
+    maxDrawdownPercent: curve[trough].drawdownPercent,
+    peakTime: curve[worstPeak].time,
+    troughTime: curve[trough].time,
+    recoveryTime: recovery?.time ?? null,
+    durationMs: Date.parse(end.time) - Date.parse(curve[worstPeak].time),
+  }
+}
+
+// Every UTC day from the range start to the later of its end and the last close, including
+// flat ones so volatility isn't overstated. Trades are in range by start, so one can close
+// after the range ends; its day still counts, as it does in the equity curve and net PnL.
+export function computeDailyReturns(
+  trades: TradeBarData[],
+  range: TimeRange,
+  capital = defaultCapital(trades)
+): DailyReturn[] {
+  const pnlByDay = new Map<string, number>()
+  for (const trade of trades) {
+    const day = trade.endTime.slice(0, 10)
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + trade.profitLoss)
+  }
+
+  const returns: DailyReturn[] = []
+  const first = Math.floor(Date.parse(range.from) / DAY_MS) * DAY_MS
+  const last = trades.reduce((latest, trade) => Math.max(latest, Date.parse(trade.endTime)), Date.parse(range.to))
+  let equity = capital
+
+  for (let time = first; time <= last; time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10)
+    const pnl = pnlByDay.get(day) ?? 0
+    returns.push({ day, pnl, return: equity > 0 ? pnl / equity : 0 })
+    equity += pnl
+  }
+
+  return returns
+}
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+
+// Annualized, with a zero risk-free rate and the sample standard deviation
+export function sharpeRatio(returns: number[]) {
+  if (returns.length < 2) {
+    return 0
+  }
+
+  const average = mean(returns)
+  const variance =
+    returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1)
+  const deviation = Math.sqrt(variance)
+
+  return deviation > 0 ? (average / deviation) * Math.sqrt(DAYS_PER_YEAR) : 0
+}
+
+// Like Sharpe, but only days below zero count as risk
+export function sortinoRatio(returns: number[]) {
+  if (returns.length < 2) {
+    return 0
+  }
+
+  const downside = Math.sqrt(mean(returns.map((value) => Math.min(value, 0) ** 2)))
+  return downside > 0 ? (mean(returns) / downside) * Math.sqrt(DAYS_PER_YEAR) : 0
+}
+
+// Gross profit over gross loss; Infinity when nothing lost
+export function profitFactor(trades: TradeBarData[]) {
+  const profit = trades.reduce((sum, t) => sum + Math.max(t.profitLoss, 0), 0)
+  const loss = trades.reduce((sum, t) => sum - Math.min(t.profitLoss, 0), 0)
+
+  if (loss === 0) {
+    return profit > 0 ? Infinity : 0
+  }
+
+  return profit / loss
+}
+
+// In close order; a break-even trade counts as a loss, matching the win rate
+export function computeStreaks(trades: TradeBarData[]): StreakStats {
+  const streaks: StreakStats = { longestWin: 0, longestLoss: 0, current: { kind: null, length: 0 } }
+
+  for (const trade of byCloseTime(trades)) {
+    const kind = trade.profitLoss > 0 ? "win" : "loss"
+    const length = streaks.current.kind === kind ? streaks.current.length + 1 : 1
+    streaks.current = { kind, length }
+
+    if (kind === "win") {
+      streaks.longestWin = Math.max(streaks.longestWin, length)
+    } else {
+      streaks.longestLoss = Math.max(streaks.longestLoss, length)
+    }
+  }
+
+  return streaks
+}
+
+// Funding PnL over notional-years held, so a week-long trade counts 7x an overnight one
+export function annualizedFundingYield(trades: TradeBarData[]) {
+  const notionalYears = trades.reduce(
+    (sum, t) =>
+      sum + t.notional * ((Date.parse(t.endTime) - Date.parse(t.startTime)) / DAY_MS / DAYS_PER_YEAR),
+    0
+  )
+  const funding = trades.reduce((sum, t) => sum + t.fundingPnl, 0)
+
+  return notionalYears > 0 ? (funding / notionalYears) * 100 : 0
+}
+
+export function computePerformance(
+  trades: TradeBarData[],
+  range: TimeRange,
+  capital = defaultCapital(trades)
+): PerformanceStats {
+  const equityCurve = buildEquityCurve(trades, range, capital)
+  const dailyReturns = computeDailyReturns(trades, range, capital)
+  const returns = dailyReturns.map((day) => day.return)
+
+  return {
+    capital,
+    netPnl: trades.reduce((sum, t) => sum + t.profitLoss, 0),
+    equityCurve,
+    drawdown: computeDrawdown(equityCurve),
+    dailyReturns,
+    sharpe: sharpeRatio(returns),
+    sortino: sortinoRatio(returns),
+    profitFactor: profitFactor(trades),
+    winRate: trades.length ? trades.filter((t) => t.profitLoss > 0).length / trades.length : 0,
+    streaks: computeStreaks(trades),
+    fundingYield: annualizedFundingYield(trades),
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+
+import { BACKTEST_EXCHANGE, runBacktest, type BacktestParams } from "./backtest"
+import type { FundingRatePoint, PricePoint } from "./types"
+
+const PARAMS: BacktestParams = {
+  entryThreshold: 0.02,
+  exitThreshold: 0.005,
+  maxHoldingPeriods: 21,
+  feePercent: 0.05,
+  notional: 10000,
+}
+
+const START = Date.parse("2024-05-01T00:00:00.000Z")
+const PERIOD_MS = 8 * 60 * 60 * 1000
+
+const at = (period: number) => new Date(START + period * PERIOD_MS).toISOString()
+
+// One settlement per period with the given rates
+const settlements = (rates: number[]): FundingRatePoint[] =>
+  rates.map((rate, period) => ({ time: at(period), rate }))
+
+// A flat mark price on every settlement, unless a period has its own
+const flatPrices = (count: number, price = 100, overrides: Record<number, number> = {}): PricePoint[] =>
+  Array.from({ length: count }, (_, period) => ({ time: at(period), price: overrides[period] ?? price }))
+
+describe("runBacktest", () => {
+  it("stays out while rates are under the entry threshold", () => {
+    const rates = settlements([0.01, -0.015, 0.0199, 0.005])
+
+    expect(runBacktest("BTC-USDT", rates, flatPrices(4), PARAMS)).toEqual([])
+  })
+
+  it("shorts into positive funding and exits once collection falls below the exit threshold", () => {
+    const rates = settlements([0.03, 0.02, 0.01, 0.004, 0.03])
+    const [trade, ...rest] = runBacktest("BTC-USDT", rates, flatPrices(5), PARAMS)
+
+    expect(trade).toMatchObject({
+      id: "backtest-BTC-USDT-1",
+      type: "SHORT",
+      exchange: BACKTEST_EXCHANGE,
+      startTime: at(0),
+      endTime: at(3),
+      periods: 3,
+      notional: 10000,
+      size: 100,
+    })
+    // Earns from the settlement after entry, including the one it exits on
+    expect(trade.fundingTotal).toBeCloseTo(0.02 + 0.01 + 0.004)
+    // The last rate re-enters, but a position that never collected is dropped
+    expect(rest).toEqual([])
+  })
+
+  it("longs into negative funding, collecting its opposite", () => {
+    const rates = settlements([-0.025, -0.02, 0.001])
+    const [trade] = runBacktest("ETH-USDT", rates, flatPrices(3), PARAMS)
+
+    expect(trade.type).toBe("LONG")
+    expect(trade.periods).toBe(2)
+    expect(trade.fundingTotal).toBeCloseTo(0.02 - 0.001)
+  })
+
+  it("enters on a rate exactly at the threshold", () => {
+    const rates = settlements([0.02, 0.02, 0])
+
+    expect(runBacktest("BTC-USDT", rates, flatPrices(3), PARAMS)).toHaveLength(1)
+  })
+
+  it("forces an exit at the holding limit and can enter again after", () => {
+    const rates = settlements([0.05, 0.05, 0.05, 0.05, 0.05, 0.05, 0.05])
+    const trades = runBacktest("BTC-USDT", rates, flatPrices(7), { ...PARAMS, maxHoldingPeriods: 2 })
+
+    // The entry on the last rate never collects, so it is dropped rather than closed
+    expect(trades.map((trade) => [trade.startTime, trade.endTime, trade.periods])).toEqual([
+      [at(0), at(2), 2],
+      [at(3), at(5), 2],
+    ])
+  })
+
+  it("closes a position still collecting at the last settlement", () => {
+    const rates = settlements([0.03, 0.03, 0.03])
+    const trades = runBacktest("BTC-USDT", rates, flatPrices(3, 100, { 2: 98 }), PARAMS)
+
+    expect(trades).toHaveLength(1)
+    expect(trades[0].endTime).toBe(at(2))
+    expect(trades[0].endPrice).toBe(98)
+  })
+
+  it("charges the fee on both legs and nets it out of PnL", () => {
+    const rates = settlements([0.03, 0.02, 0.001])
+    const prices = flatPrices(3, 100, { 2: 90 })
+    const [trade] = runBacktest("BTC-USDT", rates, prices, PARAMS)
+
+    // 0.05% of 10,000 in and 0.05% of 9,000 out
+    expect(trade.fee).toBeCloseTo(5 + 4.5)
+    // Short from 100 to 90 on 100 units
+    expect(trade.pricePnl).toBeCloseTo(1000)
+    expect(trade.fundingPnl).toBeCloseTo((10000 * 0.021) / 100)
+    expect(trade.profitLoss).toBeCloseTo(1000 + 2.1 - 9.5)
+  })
+
+  it("prices settlements before the series starts at its first price, and the rest at the latest", () => {
+    const rates = settlements([0.05, 0.03, 0.03, 0.001])
+    const prices = [
+      { time: at(1), price: 200 },
+      { time: at(2), price: 210 },
+    ]
+    const [trade] = runBacktest("BTC-USDT", rates, prices, PARAMS)
+
+    expect(trade.startTime).toBe(at(0))
+    expect(trade.startPrice).toBe(200)
+    expect(trade.endTime).toBe(at(3))
+    expect(trade.endPrice).toBe(210)
+  })
+
+  it("trades nothing without prices", () => {
+    expect(runBacktest("BTC-USDT", settlements([0.05, 0.05, 0.001]), [], PARAMS)).toEqual([])
+  })
+})
@@ -0,0 +1,128 @@
+import { applyTradeAccounting, computeTradeFees } from "./accounting"
+import { formatAxisDate } from "./format"
+import { toCollectedRate } from "./funding"
+import { DAY_MS, type FundingRatePoint, type PricePoint, type TradeBarData, type TradeType } from "./types"
+
+// Exchange id stamped on simulated trades, so they stay distinguishable from real fills
+export const BACKTEST_EXCHANGE = "backtest"
+
+export interface BacktestParams {
+  entryThreshold: number // Enter once |rate| reaches this, percent per 8h period
+  exitThreshold: number // Exit once the rate our side collects drops below this, percent
+  maxHoldingPeriods: number // Force an exit after this many settlements
+  feePercent: number // Fee per side as a percent of notional, charged on entry and exit
+  notional: number // Entry notional per trade, quote currency
+}
+
+export const DEFAULT_BACKTEST_PARAMS: BacktestParams = {
+  entryThreshold: 0.02,
+  exitThreshold: 0.005,
+  maxHoldingPeriods: 21,
+  feePercent: 0.05,
+  notional: 10000,
+}
+
+interface OpenSimulation {
+  type: TradeType
+  start: number
+  startPrice: number
+  fundingTotal: number
+  periods: number
+}
+
+// Latest price at or before each time; the series is walked once, in step with the rates
+function createPriceLookup(prices: PricePoint[]) {
+  const points = prices
+    .map((point) => ({ time: Date.parse(point.time), price: point.price }))
+    .sort((a, b) => a.time - b.time)
+  let index = -1
+
+  return (time: number) => {
+    while (index + 1 < points.length && points[index + 1].time <= time) {
+      index++
+    }
+    return index >= 0 ? points[index].price : points[0]?.price
+  }
+}
+
+// Funding capture: after a settlement prints a rate beyond the entry threshold, take the side
+// that collects it (short into positive funding, long into negative). The position earns from
+// the next settlement on, and closes once collection falls below the exit threshold or the
+// holding limit is hit. Decisions only use rates already settled, so there is no lookahead.
+// A position still open at the last rate is closed there.
+export function runBacktest(
+  pair: string,
+  rates: FundingRatePoint[],
+  prices: PricePoint[],
+  params: BacktestParams
+): TradeBarData[] {
+  const trades: TradeBarData[] = []
+  const priceAt = createPriceLookup(prices)
+  const settlements = [...rates].sort((a, b) => a.time.localeCompare(b.time))
+  let open: OpenSimulation | null = null
+
+  const close = (position: OpenSimulation, end: number, endPrice: number) => {
+    const size = params.notional / position.startPrice
+    const startDate = new Date(position.start)
+
+    trades.push(
+      applyTradeAccounting({
+        id: `backtest-${pair}-${trades.length + 1}`,
+        type: position.type,
+        startTime: startDate.toISOString(),
+        endTime: new Date(end).toISOString(),
+        exchange: BACKTEST_EXCHANGE,
+        size,
+        notional: params.notional,
+        leverage: 1,
+        marginMode: "cross",
+        fundingTotal: position.fundingTotal,
+        periods: position.periods,
+        fee: computeTradeFees(size, position.startPrice, endPrice, params.feePercent / 100),
+        startPrice: position.startPrice,
+        endPrice,
+        duration: Math.round(((end - position.start) / DAY_MS) * 10) / 10,
+        dateLabel: formatAxisDate(position.start),
+        startDay: Math.floor(position.start / DAY_MS),
+      })
+    )
+  }
+
+  for (const { time, rate } of settlements) {
+    const timestamp = Date.parse(time)
+    const price = priceAt(timestamp)
+
+    if (price === undefined) {
+      continue
+    }
+
+    if (open) {
+      const collected = toCollectedRate(open.type, rate)
+      open.fundingTotal += collected
+      open.periods += 1
+
+      if (collected < params.exitThreshold || open.periods >= params.maxHoldingPeriods) {
+        close(open, timestamp, price)
+        open = null
+      }
+      continue
+    }
+
+    if (Math.abs(rate) >= params.entryThreshold) {
+      open = {
+        type: rate > 0 ? "SHORT" : "LONG",
+        start: timestamp,
+        startPrice: price,
+        fundingTotal: 0,
+        periods: 0,
+      }
+    }
+  }
+
+  const last = settlements[settlements.length - 1]
+  if (open && last && open.periods > 0) {
+    close(open, Date.parse(last.time), priceAt(Date.parse(last.time)) ?? open.startPrice)
+  }
+
+  return trades
+}
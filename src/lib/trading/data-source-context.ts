@@ -0,0 +1,6 @@
+import { createContext } from "react"
+
+import { createMockTradeDataSource, type TradeDataSource } from "./data-source"
+
+// Kept apart from the provider component so the component file only exports components
+export const TradeDataSourceContext = createContext<TradeDataSource>(createMockTradeDataSource())
@@ -0,0 +1,116 @@
+import axios from "axios"
+
+import { applyTradeAccounting } from "./accounting"
+import {
+  DEFAULT_MOCK_TRADE_OPTIONS,
+  generateFundingRates,
+  generateOpenPositions,
+  generatePriceSeries,
+  generateTradingData,
+  type MockTradeOptions,
+} from "./mock-data"
+import type {
+  FundingRatePoint,
+  OpenPosition,
+  PricePoint,
+  TimeRange,
+  TradeBarData,
+  TradeRecord,
+} from "./types"
+
+// Anything that can answer "which trades did we make on this pair in this range",
+// "which positions are still open", "what did funding settle at over it" (pair-wide,
+// or on one exchange) and "where was the mark price"
+export interface TradeDataSource {
+  id: string
+  getTrades(pair: string, range: TimeRange): Promise<TradeBarData[]>
+  getOpenPositions(pair: string): Promise<OpenPosition[]>
+  getFundingRates(pair: string, range: TimeRange, exchange?: string): Promise<FundingRatePoint[]>
+  getPrices(pair: string, range: TimeRange): Promise<PricePoint[]>
+}
+
+export function createMockTradeDataSource(
+  options: Partial<MockTradeOptions> = {}
+): TradeDataSource {
+  const seed = options.seed ?? DEFAULT_MOCK_TRADE_OPTIONS.seed
+
+  return {
+    id: `mock:${seed}`,
+    getTrades: async (pair, range) => generateTradingData(pair, range, options),
+    getOpenPositions: async (pair) => generateOpenPositions(pair, Date.now(), options),
+    getFundingRates: async (pair, range, exchange) =>
+      generateFundingRates(pair, range, options, exchange),
+    getPrices: async (pair, range) => generatePriceSeries(pair, range, options),
+  }
+}
+
+export type HttpTradeDataSourceOptions = {
+  baseURL: string
+  timeout?: number
+}
+
+// Reads the bot's trade log over HTTP: GET {baseURL}/trades?pair=&from=&to=,
+// its open positions from GET {baseURL}/positions?pair= and the funding and mark price history from GET {baseURL}/funding-rates and
+// GET {baseURL}/prices with the same params (funding takes an optional exchange).
+// Realized PnL fields are recomputed locally from size, prices, funding and fees
+export function createHttpTradeDataSource({
+  baseURL,
+  timeout = 10000,
+}: HttpTradeDataSourceOptions): TradeDataSource {
+  const client = axios.create({ baseURL, timeout })
+
+  return {
+    id: `http:${baseURL}`,
+    getTrades: async (pair, range) => {
+      const { data } = await client.get<TradeRecord[]>("/trades", {
+        params: { pair, from: range.from, to: range.to },
+      })
+
+      if (!Array.isArray(data)) {
+        throw new Error(`Unexpected response from ${baseURL}/trades`)
+      }
+
+      return data.map((trade) => applyTradeAccounting(trade))
+    },
+    getOpenPositions: async (pair) => {
+      const { data } = await client.get<OpenPosition[]>("/positions", { params: { pair } })
+
+      if (!Array.isArray(data)) {
+        throw new Error(`Unexpected response from ${baseURL}/positions`)
+      }
+
+      return data
+    },
+    getFundingRates: async (pair, range, exchange) => {
+      const { data } = await client.get<FundingRatePoint[]>("/funding-rates", {
+        params: { pair, from: range.from, to: range.to, exchange },
+      })
+
+      if (!Array.isArray(data)) {
+        throw new Error(`Unexpected response from ${baseURL}/funding-rates`)
+      }
+
+      return data
+    },
+    getPrices: async (pair, range) => {
+      const { data } = await client.get<PricePoint[]>("/prices", {
+        params: { pair, from: range.from, to: range.to },
+      })
+
+      if (!Array.isArray(data)) {
+        throw new Error(`Unexpected response from ${baseURL}/prices`)
+      }
+
+      return data
+    },
+  }
+}
+
+// Points at the HTTP trade log when VITE_TRADES_API_URL is set, else the mock
+export function createTradeDataSourceFromEnv(): TradeDataSource {
+  const { VITE_TRADES_API_URL: baseURL, VITE_MOCK_SEED: seed } = import.meta.env
+
+  return baseURL
+    ? createHttpTradeDataSource({ baseURL })
+    : createMockTradeDataSource(seed ? { seed } : {})
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  DEFAULT_RANGE_SELECTION,
+  isValidCustomRange,
+  parseDateRangeParams,
+  resolveDateRange,
+  writeDateRangeParams,
+} from "./date-range"
+
+const parse = (query: string) => parseDateRangeParams(new URLSearchParams(query))
+
+describe("parseDateRangeParams", () => {
+  it("reads presets and falls back to the default for anything else", () => {
+    expect(parse("range=7d")).toEqual({ preset: "7d" })
+    expect(parse("range=ytd")).toEqual({ preset: "ytd" })
+    expect(parse("range=12d")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=toString")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("")).toEqual(DEFAULT_RANGE_SELECTION)
+  })
+
+  it("reads a custom range of whole days", () => {
+    expect(parse("range=custom&from=2024-02-01&to=2024-02-29")).toEqual({
+      preset: "custom",
+      from: "2024-02-01",
+      to: "2024-02-29",
+    })
+  })
+
+  it("refuses months that don't exist", () => {
+    expect(parse("range=custom&from=2024-00-01&to=2024-00-02")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2024-01-01&to=2024-13-01")).toEqual(DEFAULT_RANGE_SELECTION)
+  })
+
+  it("refuses days past the end of their month rather than rolling them over", () => {
+    expect(parse("range=custom&from=2024-02-01&to=2024-02-30")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2023-02-29&to=2023-03-01")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2024-04-31&to=2024-05-01")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2024-05-00&to=2024-05-01")).toEqual(DEFAULT_RANGE_SELECTION)
+  })
+
+  it("refuses malformed or reversed days", () => {
+    expect(parse("range=custom&from=2024-5-1&to=2024-05-02")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2024-05-03&to=2024-05-02")).toEqual(DEFAULT_RANGE_SELECTION)
+    expect(parse("range=custom&from=2024-05-01")).toEqual(DEFAULT_RANGE_SELECTION)
+  })
+
+  it("reads back what writeDateRangeParams wrote", () => {
+    const selection = { preset: "custom" as const, from: "2024-05-01", to: "2024-05-10" }
+
+    expect(parseDateRangeParams(writeDateRangeParams(new URLSearchParams("tab=x"), selection))).toEqual(
+      selection
+    )
+  })
+})
+
+describe("isValidCustomRange", () => {
+  it("accepts a single day and leap days", () => {
+    expect(isValidCustomRange("2024-05-01", "2024-05-01")).toBe(true)
+    expect(isValidCustomRange("2024-02-29", "2024-03-01")).toBe(true)
+  })
+})
+
+describe("resolveDateRange", () => {
+  it("runs a custom range from the start of its first UTC day to the end of its last", () => {
+    expect(resolveDateRange({ preset: "custom", from: "2024-05-01", to: "2024-05-10" })).toEqual({
+      from: "2024-05-01T00:00:00.000Z",
+      to: "2024-05-10T23:59:59.999Z",
+    })
+  })
+
+  it("starts the year to date on January 1st", () => {
+    const now = new Date("2024-05-10T12:00:00.000Z")
+
+    expect(resolveDateRange({ preset: "ytd" }, now)).toEqual({
+      from: "2024-01-01T00:00:00.000Z",
+      to: now.toISOString(),
+    })
+  })
+})
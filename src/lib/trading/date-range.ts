@@ -0,0 +1,89 @@
+import { DAY_MS, getTrailingRange, type TimeRange } from "./types"
+
+export type RangePreset = "24h" | "7d" | "30d" | "90d" | "ytd"
+
+export type DateRangeSelection =
+  | { preset: RangePreset }
+  | { preset: "custom"; from: string; to: string } // Calendar days, yyyy-mm-dd
+
+export const RANGE_PRESETS: Record<RangePreset, { label: string; days?: number }> = {
+  "24h": { label: "24h", days: 1 },
+  "7d": { label: "7d", days: 7 },
+  "30d": { label: "30d", days: 30 },
+  "90d": { label: "90d", days: 90 },
+  ytd: { label: "YTD" },
+}
+
+export const DEFAULT_RANGE_SELECTION: DateRangeSelection = { preset: "30d" }
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isRangePreset(value: string | null): value is RangePreset {
+  return value !== null && Object.keys(RANGE_PRESETS).includes(value)
+}
+
+// A real calendar day: "2024-00-01" doesn't parse and "2024-02-30" would roll over to March
+function isCalendarDay(day: string) {
+  const date = new Date(`${day}T00:00:00.000Z`)
+  return DAY_PATTERN.test(day) && !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === day
+}
+
+// Custom days are whole UTC days; "to" runs to the end of its day
+export function resolveDateRange(selection: DateRangeSelection, now = new Date()): TimeRange {
+  if (selection.preset === "custom") {
+    return {
+      from: new Date(`${selection.from}T00:00:00.000Z`).toISOString(),
+      to: new Date(new Date(`${selection.to}T00:00:00.000Z`).getTime() + DAY_MS - 1).toISOString(),
+    }
+  }
+
+  if (selection.preset === "ytd") {
+    return {
+      from: new Date(Date.UTC(now.getUTCFullYear(), 0, 1)).toISOString(),
+      to: now.toISOString(),
+    }
+  }
+
+  return getTrailingRange(RANGE_PRESETS[selection.preset].days ?? 30, now)
+}
+
+// Whole yyyy-mm-dd days with from on or before to; the URL parser applies the same check
+export function isValidCustomRange(from: string, to: string) {
+  return isCalendarDay(from) && isCalendarDay(to) && from <= to
+}
+
+// Reads ?range=7d or ?range=custom&from=yyyy-mm-dd&to=yyyy-mm-dd, falling back to the default
+export function parseDateRangeParams(params: URLSearchParams): DateRangeSelection {
+  const preset = params.get("range")
+
+  if (preset === "custom") {
+    const from = params.get("from")
+    const to = params.get("to")
+
+    if (from && to && isValidCustomRange(from, to)) {
+      return { preset, from, to }
+    }
+  }
+
+  return isRangePreset(preset) ? { preset } : DEFAULT_RANGE_SELECTION
+}
+
+// Writes the selection into existing params, leaving unrelated ones alone
+export function writeDateRangeParams(params: URLSearchParams, selection: DateRangeSelection) {
+  const next = new URLSearchParams(params)
+  next.set("range", selection.preset)
+
+  if (selection.preset === "custom") {
+    next.set("from", selection.from)
+    next.set("to", selection.to)
+  } else {
+    next.delete("from")
+    next.delete("to")
+  }
+
+  return next
+}
+
+export function toDayString(time: string | number | Date) {
+  return new Date(time).toISOString().slice(0, 10)
+}
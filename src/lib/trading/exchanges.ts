@@ -0,0 +1,19 @@
+// Venues the bot trades on, keyed by the id used in trade records
+export const EXCHANGES = {
+  binance: "Binance",
+  bybit: "Bybit",
+  okx: "OKX",
+} as const satisfies Record<string, string>
+
+export type ExchangeId = keyof typeof EXCHANGES
+
+export function isKnownExchange(exchange: string): exchange is ExchangeId {
+  return exchange in EXCHANGES
+}
+
+// Ids outside the known venues (imports, backtests) are shown capitalized
+export function getExchangeLabel(exchange: string) {
+  return exchange in EXCHANGES
+    ? EXCHANGES[exchange as ExchangeId]
+    : exchange.charAt(0).toUpperCase() + exchange.slice(1)
+}
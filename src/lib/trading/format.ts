@@ -0,0 +1,171 @@
+// Display helpers shared by the chart cards, tooltips and trade lists. Every helper takes
+// the reader's locale and display time zone; the defaults match the stored data (en-US, UTC)
+
+export interface DisplayFormat {
+  // BCP 47 tag handed to Intl, e.g. "en-US" or "es-ES"
+  locale: string
+  // IANA zone name, e.g. "UTC" or "Europe/Madrid"
+  timeZone: string
+}
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = { locale: "en-US", timeZone: "UTC" }
+
+// Intl formatters are costly to build and these run per row and per tick, so reuse them
+const numberFormats = new Map<string, Intl.NumberFormat>()
+const dateFormats = new Map<string, Intl.DateTimeFormat>()
+
+function numberFormat(locale: string, options: Intl.NumberFormatOptions) {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+function dateFormat({ locale, timeZone }: DisplayFormat, options: Intl.DateTimeFormatOptions) {
+  const key = `${locale}|${timeZone}|${JSON.stringify(options)}`
+  let format = dateFormats.get(key)
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { ...options, timeZone })
+    dateFormats.set(key, format)
+  }
+  return format
+}
+
+export function formatNumber(value: number, digits = 2, display = DEFAULT_DISPLAY_FORMAT) {
+  return numberFormat(display.locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value)
+}
+
+// Values are already percentages (1.5 means 1.5%), as the trade fields store them
+export function formatPercent(value: number, digits = 2, display = DEFAULT_DISPLAY_FORMAT) {
+  return numberFormat(display.locale, {
+    style: "percent",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value / 100)
+}
+
+export function formatSignedPercent(value: number, digits = 2, display = DEFAULT_DISPLAY_FORMAT) {
+  return numberFormat(display.locale, {
+    style: "percent",
+    signDisplay: "always",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value / 100)
+}
+
+export function formatUsd(value: number, { signed = false } = {}, display = DEFAULT_DISPLAY_FORMAT) {
+  return numberFormat(display.locale, {
+    style: "currency",
+    currency: "USD",
+    signDisplay: signed ? "always" : "auto",
+  }).format(value)
+}
+
+const BYTE_UNITS = ["byte", "kilobyte", "megabyte", "gigabyte"] as const
+
+// Storage sizes in the largest unit that keeps the figure at 1 or more, e.g. "1.4 MB"
+export function formatBytes(value: number, display = DEFAULT_DISPLAY_FORMAT) {
+  const exponent = Math.min(
+    Math.max(0, Math.floor(Math.log(value) / Math.log(1024))),
+    BYTE_UNITS.length - 1
+  )
+  return numberFormat(display.locale, {
+    style: "unit",
+    unit: BYTE_UNITS[exponent],
+    unitDisplay: "short",
+    maximumFractionDigits: exponent ? 1 : 0,
+  }).format(value / 1024 ** exponent)
+}
+
+// Date and time of day in the display zone; seconds are dropped for funding periods
+export function formatDateTime(
+  time: string | number,
+  { seconds = true } = {},
+  display = DEFAULT_DISPLAY_FORMAT
+) {
+  return dateFormat(display, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: seconds ? "2-digit" : undefined,
+    hourCycle: "h23",
+  }).format(new Date(time))
+}
+
+// Short day label for chart axes, e.g. "May 3" or "3 may"
+export function formatAxisDate(time: string | number, display = DEFAULT_DISPLAY_FORMAT) {
+  return dateFormat(display, { month: "short", day: "numeric" }).format(new Date(time))
+}
+
+export function formatAxisDateTime(time: string | number, display = DEFAULT_DISPLAY_FORMAT) {
+  return dateFormat(display, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date(time))
+}
+
+// A UTC calendar day ("YYYY-MM-DD"), such as a daily returns bucket, which no zone should shift
+export function formatUtcDay(day: string, { year = true } = {}, display = DEFAULT_DISPLAY_FORMAT) {
+  return dateFormat({ ...display, timeZone: "UTC" }, {
+    year: year ? "numeric" : undefined,
+    month: "short",
+    day: "numeric",
+  }).format(new Date(`${day}T00:00:00Z`))
+}
+
+// Calendar day in the display zone as "YYYY-MM-DD", for grouping and day filters
+export function formatDayKey(time: string | number, display = DEFAULT_DISPLAY_FORMAT) {
+  const parts = dateFormat({ ...display, locale: "en-US" }, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(time))
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value
+  return `${part("year")}-${part("month")}-${part("day")}`
+}
+
+// Abbreviated zone name in effect at the given time, e.g. "UTC", "CEST" or "GMT+2"
+export function formatZoneName(time: string | number, display = DEFAULT_DISPLAY_FORMAT) {
+  const parts = dateFormat(display, { timeZoneName: "short" }).formatToParts(new Date(time))
+  return parts.find((p) => p.type === "timeZoneName")?.value ?? display.timeZone
+}
+
+export function signTone(value: number) {
+  return value >= 0 ? ("positive" as const) : ("negative" as const)
+}
+
+// Text colour for a signed amount, written out in full so Tailwind finds both classes
+export function signClass(value: number) {
+  return signTone(value) === "positive" ? "text-positive" : "text-negative"
+}
+
+// The helpers above bound to one locale and zone, as components receive them from useI18n
+export function createFormatters(display: DisplayFormat) {
+  return {
+    number: (value: number, digits?: number) => formatNumber(value, digits, display),
+    percent: (value: number, digits?: number) => formatPercent(value, digits, display),
+    signedPercent: (value: number, digits?: number) => formatSignedPercent(value, digits, display),
+    usd: (value: number, options?: { signed?: boolean }) => formatUsd(value, options, display),
+    bytes: (value: number) => formatBytes(value, display),
+    dateTime: (time: string | number, options?: { seconds?: boolean }) =>
+      formatDateTime(time, options, display),
+    axisDate: (time: string | number) => formatAxisDate(time, display),
+    axisDateTime: (time: string | number) => formatAxisDateTime(time, display),
+    utcDay: (day: string, options?: { year?: boolean }) => formatUtcDay(day, options, display),
+    dayKey: (time: string | number) => formatDayKey(time, display),
+    zoneName: (time: string | number = Date.now()) => formatZoneName(time, display),
+  }
+}
+
+export type Formatters = ReturnType<typeof createFormatters>
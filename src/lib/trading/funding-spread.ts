@@ -0,0 +1,58 @@
+import type { FundingSeries } from "./types"
+
+export interface SpreadRow {
+  timestamp: number
+  rates: Record<string, number> // Exchange id to rate, percent
+  spread: number // Highest minus lowest rate, percent
+  high: string // Exchange paying shorts the most (or charging them the least)
+  low: string
+}
+
+export interface SpreadSummary {
+  avgSpread: number
+  maxSpread: number
+  maxSpreadAt: number | null
+  // How often each venue had the highest rate, as a share of periods, 0-1
+  highShare: Record<string, number>
+}
+
+// One row per settlement that at least two venues reported
+export function buildSpreadRows(series: FundingSeries[]): SpreadRow[] {
+  const byTime = new Map<number, Record<string, number>>()
+
+  for (const { exchange, points } of series) {
+    for (const point of points) {
+      const timestamp = Date.parse(point.time)
+      byTime.set(timestamp, { ...byTime.get(timestamp), [exchange]: point.rate })
+    }
+  }
+
+  return [...byTime.entries()]
+    .filter(([, rates]) => Object.keys(rates).length >= 2)
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, rates]) => {
+      const ranked = Object.entries(rates).sort(([, a], [, b]) => b - a)
+      const [high, highRate] = ranked[0]
+      const [low, lowRate] = ranked[ranked.length - 1]
+      return { timestamp, rates, spread: highRate - lowRate, high, low }
+    })
+}
+
+export function summarizeSpread(rows: SpreadRow[]): SpreadSummary {
+  const highShare: Record<string, number> = {}
+  let maxRow: SpreadRow | null = null
+
+  for (const row of rows) {
+    highShare[row.high] = (highShare[row.high] ?? 0) + 1 / rows.length
+    if (!maxRow || row.spread > maxRow.spread) {
+      maxRow = row
+    }
+  }
+
+  return {
+    avgSpread: rows.length ? rows.reduce((sum, row) => sum + row.spread, 0) / rows.length : 0,
+    maxSpread: maxRow?.spread ?? 0,
+    maxSpreadAt: maxRow?.timestamp ?? null,
+    highShare,
+  }
+}
@@ -0,0 +1,64 @@
+import type { FundingRatePoint, TradeBarData, TradeType } from "./types"
+
+// Funding settles every 8h at 00:00, 08:00 and 16:00 UTC
+export const FUNDING_PERIOD_HOURS = 8
+export const FUNDING_PERIOD_MS = FUNDING_PERIOD_HOURS * 60 * 60 * 1000
+
+// Start of the funding period containing the given timestamp
+export function getFundingPeriodStart(time: number) {
+  return Math.floor(time / FUNDING_PERIOD_MS) * FUNDING_PERIOD_MS
+}
+
+// Settlement timestamps (ms) of every funding period that starts inside [from, to]
+export function listFundingPeriods(from: number, to: number) {
+  const periods: number[] = []
+
+  for (
+    let time = Math.ceil(from / FUNDING_PERIOD_MS) * FUNDING_PERIOD_MS;
+    time <= to;
+    time += FUNDING_PERIOD_MS
+  ) {
+    periods.push(time)
+  }
+
+  return periods
+}
+
+// Positive rates are paid by longs to shorts; returns what the given side collects
+export function toCollectedRate(side: TradeType, rate: number) {
+  return side === "SHORT" ? rate : -rate
+}
+
+export interface FundingBreakdownRow {
+  time: string
+  rate: number // Pair funding rate for the period, in percent
+  collected: number // Percent of entry notional collected by the trade's side
+  payment: number // Collected amount in quote currency
+  cumulative: number // Running total of payments
+}
+
+// Period-by-period funding for a trade: every settlement after open, up to and including close
+export function buildFundingBreakdown(
+  trade: Pick<TradeBarData, "type" | "startTime" | "endTime" | "notional">,
+  rates: FundingRatePoint[]
+) {
+  const start = new Date(trade.startTime).getTime()
+  const end = new Date(trade.endTime).getTime()
+  const rows: FundingBreakdownRow[] = []
+  let cumulative = 0
+
+  for (const point of rates) {
+    const time = new Date(point.time).getTime()
+
+    if (time <= start || time > end) {
+      continue
+    }
+
+    const collected = toCollectedRate(trade.type, point.rate)
+    const payment = (trade.notional * collected) / 100
+    cumulative += payment
+    rows.push({ time: point.time, rate: point.rate, collected, payment, cumulative })
+  }
+
+  return rows
+}
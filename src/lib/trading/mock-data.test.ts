@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  generateFundingRates,
+  generateOpenPositions,
+  generatePriceSeries,
+  generateTradingData,
+} from "./mock-data"
+import type { TimeRange } from "./types"
+
+const RANGE: TimeRange = { from: "2024-05-01T00:00:00.000Z", to: "2024-05-31T23:59:59.999Z" }
+const NOW = Date.parse("2024-06-15T12:00:00.000Z")
+
+describe("generateTradingData", () => {
+  it("draws the same trades from the same seed", () => {
+    const first = generateTradingData("BTC-USDT", RANGE, { seed: "snapshot" }, NOW)
+    const second = generateTradingData("BTC-USDT", RANGE, { seed: "snapshot" }, NOW)
+
+    expect(first.length).toBeGreaterThan(0)
+    expect(second).toEqual(first)
+  })
+
+  it("draws different trades from another seed", () => {
+    const first = generateTradingData("BTC-USDT", RANGE, { seed: "snapshot" }, NOW)
+    const other = generateTradingData("BTC-USDT", RANGE, { seed: "other" }, NOW)
+
+    expect(other).not.toEqual(first)
+  })
+
+  it("sees the same trades, with the same ids, from any range over the same days", () => {
+    const month = generateTradingData("BTC-USDT", RANGE, { seed: "snapshot" }, NOW)
+    const week = generateTradingData(
+      "BTC-USDT",
+      { from: "2024-05-08T00:00:00.000Z", to: "2024-05-14T23:59:59.999Z" },
+      { seed: "snapshot" },
+      NOW
+    )
+
+    expect(week.length).toBeGreaterThan(0)
+    expect(month).toEqual(expect.arrayContaining(week))
+  })
+})
+
+describe("generateOpenPositions", () => {
+  it("draws the same positions from the same seed", () => {
+    expect(generateOpenPositions("ETH-USDT", NOW, { seed: "snapshot" })).toEqual(
+      generateOpenPositions("ETH-USDT", NOW, { seed: "snapshot" })
+    )
+  })
+
+  it("holds exactly the trades opened by then that close later", () => {
+    const positions = generateOpenPositions("ETH-USDT", NOW, { seed: "snapshot", tradesPerDay: 2 })
+    const later = generateTradingData(
+      "ETH-USDT",
+      { from: new Date(NOW - 8 * 86_400_000).toISOString(), to: new Date(NOW).toISOString() },
+      { seed: "snapshot", tradesPerDay: 2 },
+      NOW + 8 * 86_400_000
+    )
+    const stillOpen = later.filter((trade) => Date.parse(trade.endTime) > NOW)
+
+    expect(positions.length).toBeGreaterThan(0)
+    expect(positions.map((position) => position.id)).toEqual(stillOpen.map((trade) => trade.id))
+  })
+})
+
+describe("generateFundingRates and generatePriceSeries", () => {
+  it("repeat for the same seed and differ for another", () => {
+    const rates = generateFundingRates("BTC-USDT", RANGE, { seed: "snapshot" })
+    const prices = generatePriceSeries("BTC-USDT", RANGE, { seed: "snapshot" })
+
+    expect(generateFundingRates("BTC-USDT", RANGE, { seed: "snapshot" })).toEqual(rates)
+    expect(generatePriceSeries("BTC-USDT", RANGE, { seed: "snapshot" })).toEqual(prices)
+    expect(generateFundingRates("BTC-USDT", RANGE, { seed: "other" })).not.toEqual(rates)
+    expect(generatePriceSeries("BTC-USDT", RANGE, { seed: "other" })).not.toEqual(prices)
+  })
+})
@@ -0,0 +1,288 @@
+import { applyTradeAccounting, computeTradeFees } from "./accounting"
+import { EXCHANGES, type ExchangeId } from "./exchanges"
+import { formatAxisDate } from "./format"
+import {
+  FUNDING_PERIOD_HOURS,
+  FUNDING_PERIOD_MS,
+  listFundingPeriods,
+  toCollectedRate,
+} from "./funding"
+import { KNOWN_PAIRS } from "./pairs"
+import { createRandom, randomInt, randomNormal, type Random } from "./random"
+import {
+  DAY_MS,
+  type FundingRatePoint,
+  type MarginMode,
+  type OpenPosition,
+  type PricePoint,
+  type TimeRange,
+  type TradeBarData,
+  type TradeType,
+} from "./types"
+
+export interface MockTradeOptions {
+  seed: string | number
+  tradesPerDay: number // Expected trades opened per pair per day
+  durationDays: { min: number; max: number }
+  basePrices: Record<string, number>
+  defaultBasePrice: number
+  notional: { min: number; max: number } // Entry notional per trade, in quote currency
+  priceVolatility: number // Std dev of entry-to-exit price move, as a fraction
+  feeRate: number // Fee per side, as a fraction of notional
+  exchanges: ExchangeId[]
+  leverage: number[]
+  marginModes: MarginMode[]
+  // Per-period funding rate in percent. persistence is the share of the variation
+  // that follows a slow multi-day trend rather than period-to-period noise.
+  // venueSpread is the std dev of each exchange's drifting basis to the pair rate.
+  fundingRate: { mean: number; stdDev: number; persistence: number; venueSpread: number }
+  // Mark price swing around the base price, as fractions: a slow trend plus per-period noise
+  markPrice: { trendAmplitude: number; noise: number }
+}
+
+export const DEFAULT_MOCK_TRADE_OPTIONS: MockTradeOptions = {
+  seed: "funding-dashboard",
+  tradesPerDay: 0.35,
+  durationDays: { min: 1, max: 7 },
+  basePrices: Object.fromEntries(
+    Object.entries(KNOWN_PAIRS).map(([pair, { basePrice }]) => [pair, basePrice])
+  ),
+  defaultBasePrice: 100,
+  notional: { min: 5000, max: 25000 },
+  priceVolatility: 0.02,
+  feeRate: 0.0005,
+  exchanges: Object.keys(EXCHANGES) as ExchangeId[],
+  leverage: [1, 2, 3, 5],
+  marginModes: ["cross", "isolated"],
+  fundingRate: { mean: 0.01, stdDev: 0.008, persistence: 0.85, venueSpread: 0.004 },
+  markPrice: { trendAmplitude: 0.08, noise: 0.005 },
+}
+
+const pick = <T,>(random: Random, items: T[]) => items[Math.floor(random() * items.length)]
+
+// Trend knots every 3 days, smoothed between with cosine interpolation
+const FUNDING_KNOT_PERIODS = 9
+
+// Funding rate settled at one timestamp: a pure function of seed, pair and time,
+// so any range over the same periods sees the same rates. Without an exchange this is
+// the pair-wide rate; each venue adds its own slowly drifting basis on top.
+export function mockFundingRate(
+  pair: string,
+  time: number,
+  overrides: Partial<MockTradeOptions> = {},
+  exchange?: string
+) {
+  const options = { ...DEFAULT_MOCK_TRADE_OPTIONS, ...overrides }
+  const { mean, stdDev, persistence, venueSpread } = options.fundingRate
+  const period = Math.round(time / FUNDING_PERIOD_MS)
+  const trend = smoothTrend(`${options.seed}:${pair}:funding-trend`, period)
+  const noise = randomNormal(createRandom(`${options.seed}:${pair}:funding:${period}`))
+  const rate = mean + stdDev * (persistence * trend + (1 - persistence) * noise)
+
+  if (!exchange) {
+    return rate
+  }
+
+  const basis = smoothTrend(`${options.seed}:${pair}:${exchange}:basis`, period)
+  return rate + venueSpread * basis
+}
+
+// Standard-normal knots every FUNDING_KNOT_PERIODS, eased between with a cosine
+function smoothTrend(key: string, period: number) {
+  const knot = Math.floor(period / FUNDING_KNOT_PERIODS)
+  const knotValue = (index: number) => randomNormal(createRandom(`${key}:${index}`))
+  const progress = (period - knot * FUNDING_KNOT_PERIODS) / FUNDING_KNOT_PERIODS
+  const weight = (1 - Math.cos(Math.PI * progress)) / 2
+
+  return knotValue(knot) * (1 - weight) + knotValue(knot + 1) * weight
+}
+
+// Mark price at one funding period, pure in the same way as mockFundingRate
+export function mockMarkPrice(
+  pair: string,
+  time: number,
+  overrides: Partial<MockTradeOptions> = {}
+) {
+  const options = { ...DEFAULT_MOCK_TRADE_OPTIONS, ...overrides }
+  const basePrice = options.basePrices[pair] ?? options.defaultBasePrice
+  const { trendAmplitude, noise } = options.markPrice
+  const period = Math.round(time / FUNDING_PERIOD_MS)
+  const trend = smoothTrend(`${options.seed}:${pair}:price-trend`, period)
+  const jitter = randomNormal(createRandom(`${options.seed}:${pair}:price:${period}`))
+
+  return basePrice * (1 + trendAmplitude * trend + noise * jitter)
+}
+
+// Trades opened on a pair on one UTC day, open or closed: a pure function of seed, pair and
+// day, so the trade list and the open positions agree on every one of them
+function drawTrades(pair: string, day: number, options: MockTradeOptions) {
+  const basePrice = options.basePrices[pair] ?? options.defaultBasePrice
+  const random = createRandom(`${options.seed}:${pair}:trades:${day}`)
+  // The whole part of the rate always opens, the fraction is the chance of one more
+  const count = Math.floor(options.tradesPerDay) + (random() < options.tradesPerDay % 1 ? 1 : 0)
+
+  return Array.from({ length: count }, (_, n) => {
+    const start = day * DAY_MS + randomInt(random, 0, 23) * 60 * 60 * 1000
+    const durationDays = randomInt(random, options.durationDays.min, options.durationDays.max)
+    const type: TradeType = random() > 0.5 ? "LONG" : "SHORT"
+    const startPrice = basePrice + (random() - 0.5) * basePrice * 0.1
+    const endPrice = startPrice * (1 + randomNormal(random) * options.priceVolatility)
+    const notional =
+      options.notional.min + random() * (options.notional.max - options.notional.min)
+
+    return {
+      id: `${pair}-${day}-${n}`,
+      start,
+      end: start + durationDays * DAY_MS,
+      durationDays,
+      type,
+      startPrice,
+      endPrice,
+      notional,
+      size: notional / startPrice,
+      exchange: pick(random, options.exchanges),
+      leverage: pick(random, options.leverage),
+      marginMode: pick(random, options.marginModes),
+    }
+  })
+}
+
+// Net funding the trade's venue paid this side over the periods settled in (from, to]
+const collectedFunding = (
+  pair: string,
+  type: TradeType,
+  exchange: string,
+  periods: number[],
+  options: MockTradeOptions
+) =>
+  periods.reduce(
+    (sum, time) => sum + toCollectedRate(type, mockFundingRate(pair, time, options, exchange)),
+    0
+  )
+
+// Generate mock trading data for a pair as bars opened inside the given range. Trades are
+// drawn per UTC day of opening, so like the funding rates any range over the same days sees
+// the same trades, with the same ids, and a trade only shows once it has closed.
+export function generateTradingData(
+  pair: string,
+  range: TimeRange,
+  overrides: Partial<MockTradeOptions> = {},
+  now = Date.now()
+) {
+  const options = { ...DEFAULT_MOCK_TRADE_OPTIONS, ...overrides }
+  const from = Date.parse(range.from)
+  const to = Date.parse(range.to)
+  const trades: TradeBarData[] = []
+
+  for (let day = Math.floor(from / DAY_MS); day * DAY_MS <= to; day++) {
+    for (const trade of drawTrades(pair, day, options)) {
+      if (trade.start < from || trade.start > to || trade.end > now) {
+        continue
+      }
+
+      trades.push(
+        applyTradeAccounting({
+          id: trade.id,
+          type: trade.type,
+          startTime: new Date(trade.start).toISOString(),
+          endTime: new Date(trade.end).toISOString(),
+          exchange: trade.exchange,
+          size: trade.size,
+          notional: trade.notional,
+          leverage: trade.leverage,
+          marginMode: trade.marginMode,
+          fundingTotal: collectedFunding(
+            pair,
+            trade.type,
+            trade.exchange,
+            listFundingPeriods(trade.start + 1, trade.end),
+            options
+          ),
+          periods: (trade.durationDays * 24) / FUNDING_PERIOD_HOURS,
+          fee: computeTradeFees(trade.size, trade.startPrice, trade.endPrice, options.feeRate),
+          startPrice: trade.startPrice,
+          endPrice: trade.endPrice,
+          duration: trade.durationDays,
+          dateLabel: formatAxisDate(trade.start),
+          startDay: day,
+        })
+      )
+    }
+  }
+
+  // Sort trades by start date
+  trades.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+
+  return trades
+}
+
+// Generate one funding rate per 8h period inside the range, pair-wide or for one venue
+export function generateFundingRates(
+  pair: string,
+  range: TimeRange,
+  overrides: Partial<MockTradeOptions> = {},
+  exchange?: string
+): FundingRatePoint[] {
+  return listFundingPeriods(
+    new Date(range.from).getTime(),
+    new Date(range.to).getTime()
+  ).map((time) => ({
+    time: new Date(time).toISOString(),
+    rate: mockFundingRate(pair, time, overrides, exchange),
+  }))
+}
+
+// Generate one mark price per 8h period inside the range, on the funding timestamps
+export function generatePriceSeries(
+  pair: string,
+  range: TimeRange,
+  overrides: Partial<MockTradeOptions> = {}
+): PricePoint[] {
+  return listFundingPeriods(
+    new Date(range.from).getTime(),
+    new Date(range.to).getTime()
+  ).map((time) => ({
+    time: new Date(time).toISOString(),
+    price: mockMarkPrice(pair, time, overrides),
+  }))
+}
+
+// Positions still open on a pair at the given time: the trades opened by then that
+// generateTradingData holds back until they close, under the same ids
+export function generateOpenPositions(
+  pair: string,
+  now: number,
+  overrides: Partial<MockTradeOptions> = {}
+): OpenPosition[] {
+  const options = { ...DEFAULT_MOCK_TRADE_OPTIONS, ...overrides }
+  const positions: OpenPosition[] = []
+
+  for (
+    let day = Math.floor((now - options.durationDays.max * DAY_MS) / DAY_MS);
+    day * DAY_MS <= now;
+    day++
+  ) {
+    for (const trade of drawTrades(pair, day, options)) {
+      if (trade.start > now || trade.end <= now) {
+        continue
+      }
+
+      const settled = listFundingPeriods(trade.start + 1, now)
+      positions.push({
+        id: trade.id,
+        pair,
+        type: trade.type,
+        startTime: new Date(trade.start).toISOString(),
+        startPrice: trade.startPrice,
+        size: trade.size,
+        leverage: trade.leverage,
+        marginMode: trade.marginMode,
+        exchange: trade.exchange,
+        fundingTotal: collectedFunding(pair, trade.type, trade.exchange, settled, options),
+        periods: settled.length,
+      })
+    }
+  }
+
+  return positions.sort((a, b) => a.startTime.localeCompare(b.startTime))
+}
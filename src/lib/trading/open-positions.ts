@@ -0,0 +1,61 @@
+import { computeFundingPnl } from "./accounting"
+import { FUNDING_PERIOD_MS, getFundingPeriodStart, toCollectedRate } from "./funding"
+import type { OpenPosition, TradeBarData } from "./types"
+
+export interface OpenPositionEstimate {
+  position: OpenPosition
+  notional: number // Entry notional, size * startPrice
+  markPrice: number // Falls back to the entry price when no mark is known
+  pricePnl: number
+  fundingPnl: number // Funding collected so far
+  unrealizedPnl: number // Price plus funding, before closing fees
+  nextRate?: number // Latest settled rate on the position's venue, in percent
+  nextPayment?: number // What the next settlement pays this side if the rate holds, in quote currency
+}
+
+// Settlement timestamp (ms) of the funding period in progress
+export function getNextFundingTime(now: number) {
+  return getFundingPeriodStart(now) + FUNDING_PERIOD_MS
+}
+
+export function estimateOpenPosition(
+  position: OpenPosition,
+  markPrice: number | undefined,
+  latestRate: number | undefined
+): OpenPositionEstimate {
+  const notional = position.size * position.startPrice
+  const mark = markPrice ?? position.startPrice
+  const pricePnl = (mark - position.startPrice) * position.size * (position.type === "LONG" ? 1 : -1)
+  const fundingPnl = computeFundingPnl(notional, position.fundingTotal)
+
+  return {
+    position,
+    notional,
+    markPrice: mark,
+    pricePnl,
+    fundingPnl,
+    unrealizedPnl: pricePnl + fundingPnl,
+    nextRate: latestRate,
+    nextPayment:
+      latestRate === undefined ? undefined : computeFundingPnl(notional, toCollectedRate(position.type, latestRate)),
+  }
+}
+
+// Source positions overlaid with the stream's: live state wins, and anything the loaded
+// trades show as closed is dropped. Oldest first, like the trades.
+export function mergeOpenPositions(
+  fetched: OpenPosition[] | undefined,
+  live: Record<string, OpenPosition> | undefined,
+  closed: TradeBarData[]
+) {
+  const closedIds = new Set(closed.map((trade) => trade.id))
+  const byId = new Map<string, OpenPosition>()
+
+  for (const position of [...(fetched ?? []), ...Object.values(live ?? {})]) {
+    if (!closedIds.has(position.id)) {
+      byId.set(position.id, position)
+    }
+  }
+
+  return [...byId.values()].sort((a, b) => a.startTime.localeCompare(b.startTime))
+}
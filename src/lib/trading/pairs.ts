@@ -0,0 +1,48 @@
+// Perpetual pairs the bot can trade, with a reference price for mock data
+export const KNOWN_PAIRS: Record<string, { basePrice: number }> = {
+  "BTC-USDT": { basePrice: 43000 },
+  "ETH-USDT": { basePrice: 2500 },
+  "SOL-USDT": { basePrice: 100 },
+  "BNB-USDT": { basePrice: 310 },
+  "XRP-USDT": { basePrice: 0.6 },
+  "DOGE-USDT": { basePrice: 0.08 },
+  "AVAX-USDT": { basePrice: 35 },
+  "LINK-USDT": { basePrice: 15 },
+  "LTC-USDT": { basePrice: 70 },
+  "XMR-USDT": { basePrice: 180 },
+}
+
+export const DEFAULT_WATCHLIST = ["BTC-USDT", "ETH-USDT", "XMR-USDT"]
+
+const PAIR_PATTERN = /^[A-Z0-9]+-[A-Z0-9]+$/
+
+export function normalizePairSymbol(symbol: string) {
+  return symbol.trim().toUpperCase().replace(/[/_]/g, "-")
+}
+
+// Message keys for why a symbol was turned away; the caller fills in {symbol}
+export type PairSymbolError =
+  | "watchlist.invalidSymbol"
+  | "watchlist.unknownPair"
+  | "watchlist.duplicatePair"
+
+// Returns why a symbol can't join the watchlist, or null if it can
+export function validatePairSymbol(symbol: string, watchlist: string[]): PairSymbolError | null {
+  if (!PAIR_PATTERN.test(symbol)) {
+    return "watchlist.invalidSymbol"
+  }
+
+  if (!(symbol in KNOWN_PAIRS)) {
+    return "watchlist.unknownPair"
+  }
+
+  if (watchlist.includes(symbol)) {
+    return "watchlist.duplicatePair"
+  }
+
+  return null
+}
+
+export function getBaseAsset(pair: string) {
+  return pair.split("-")[0]
+}
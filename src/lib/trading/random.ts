@@ -0,0 +1,40 @@
+// Small seedable PRNG so mock data is reproducible across renders and reloads
+
+export type Random = () => number
+
+// FNV-1a, folds a string seed into a 32-bit integer
+export function hashSeed(seed: string | number) {
+  const text = String(seed)
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+// mulberry32: returns floats in [0, 1) like Math.random
+export function createRandom(seed: string | number): Random {
+  let state = hashSeed(seed)
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Integer in [min, max], both inclusive
+export function randomInt(random: Random, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+// Standard normal sample via Box-Muller
+export function randomNormal(random: Random) {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+
+import { mergeInRange, overlayById, overlayPoints } from "./series"
+import type { TimeRange } from "./types"
+
+const RANGE: TimeRange = { from: "2024-05-01T00:00:00.000Z", to: "2024-05-10T23:59:59.999Z" }
+
+interface Item {
+  id: string
+  time: string
+  source: string
+}
+
+const item = (id: string, day: number, source: string): Item => ({
+  id,
+  time: `2024-05-${String(day).padStart(2, "0")}T00:00:00.000Z`,
+  source,
+})
+
+const timeOf = (entry: Item) => entry.time
+
+describe("mergeInRange", () => {
+  it("adds local items inside the range, in time order", () => {
+    const merged = mergeInRange(
+      [item("a", 3, "fetched")],
+      [item("b", 2, "local"), item("c", 12, "local")],
+      RANGE,
+      timeOf
+    )
+
+    expect(merged.map((entry) => entry.id)).toEqual(["b", "a"])
+  })
+
+  it("returns the fetched list itself without local items", () => {
+    const fetched = [item("a", 3, "fetched")]
+
+    expect(mergeInRange(fetched, undefined, RANGE, timeOf)).toBe(fetched)
+    expect(mergeInRange(fetched, [], RANGE, timeOf)).toBe(fetched)
+  })
+})
+
+describe("overlayById", () => {
+  it("keeps one copy of a trade that is both fetched and local, the local one", () => {
+    const merged = overlayById(
+      [item("a", 2, "fetched"), item("b", 3, "fetched")],
+      [item("b", 3, "local"), item("c", 4, "local")],
+      RANGE,
+      timeOf
+    )
+
+    expect(merged.map((entry) => [entry.id, entry.source])).toEqual([
+      ["a", "fetched"],
+      ["b", "local"],
+      ["c", "local"],
+    ])
+  })
+
+  it("doesn't double a trade imported twice", () => {
+    const exported = [item("a", 2, "fetched"), item("b", 3, "fetched")]
+    const merged = overlayById(exported, [...exported, ...exported], RANGE, timeOf)
+
+    expect(merged.map((entry) => entry.id)).toEqual(["a", "b"])
+  })
+
+  it("leaves local trades outside the range out", () => {
+    expect(overlayById([], [item("a", 12, "local")], RANGE, timeOf)).toEqual([])
+  })
+})
+
+describe("overlayPoints", () => {
+  it("lets a local point replace the fetched one at the same time", () => {
+    const merged = overlayPoints(
+      [
+        { time: "2024-05-02T00:00:00.000Z", rate: 0.01 },
+        { time: "2024-05-03T00:00:00.000Z", rate: 0.02 },
+      ],
+      [{ time: "2024-05-03T00:00:00.000Z", rate: 0.05 }],
+      RANGE
+    )
+
+    expect(merged.map((point) => point.rate)).toEqual([0.01, 0.05])
+  })
+})
@@ -0,0 +1,63 @@
+import type { TimeRange } from "./types"
+
+const inRange = ({ from, to }: TimeRange, time: string) => {
+  const timestamp = Date.parse(time)
+  return timestamp >= Date.parse(from) && timestamp <= Date.parse(to)
+}
+
+// Locally held history (imports, backtests) sits alongside fetched data, limited to the same range
+export function mergeInRange<T>(
+  fetched: T[],
+  local: T[] | undefined,
+  range: TimeRange,
+  timeOf: (item: T) => string
+) {
+  if (!local?.length) {
+    return fetched
+  }
+
+  return [...fetched, ...local.filter((item) => inRange(range, timeOf(item)))].sort((a, b) =>
+    timeOf(a).localeCompare(timeOf(b))
+  )
+}
+
+// Time series merge where local points win over fetched ones for the same timestamp
+export function overlayPoints<T extends { time: string }>(
+  fetched: T[],
+  local: T[] | undefined,
+  range: TimeRange
+) {
+  if (!local?.length) {
+    return fetched
+  }
+
+  const localTimes = new Set(local.map((point) => point.time))
+  return mergeInRange(
+    fetched.filter((point) => !localTimes.has(point.time)),
+    local,
+    range,
+    (point) => point.time
+  )
+}
+
+// Trade list merge where local trades win over fetched ones with the same id, so an export
+// imported back (or the same file imported twice) doesn't count any trade twice
+export function overlayById<T extends { id: string }>(
+  fetched: T[],
+  local: T[] | undefined,
+  range: TimeRange,
+  timeOf: (item: T) => string
+) {
+  if (!local?.length) {
+    return fetched
+  }
+
+  // Later copies win within the local list too
+  const localById = new Map(local.map((item) => [item.id, item]))
+  return mergeInRange(
+    fetched.filter((item) => !localById.has(item.id)),
+    [...localById.values()],
+    range,
+    timeOf
+  )
+}
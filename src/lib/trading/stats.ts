@@ -0,0 +1,68 @@
+import type { TradeBarData, TradeType } from "./types"
+
+export interface TradeSummary {
+  count: number
+  longCount: number
+  shortCount: number
+  avgFunding: number // Unweighted mean of per-trade funding percentages
+  fundingPnl: number
+  fees: number
+  netPnl: number
+  winRate: number // Share of trades with positive net PnL, 0-1
+  avgHoldingDays: number
+  notional: number // Sum of entry notionals
+}
+
+export function summarizeTrades(trades: TradeBarData[]): TradeSummary {
+  const count = trades.length
+  const sum = (value: (trade: TradeBarData) => number) =>
+    trades.reduce((total, trade) => total + value(trade), 0)
+
+  return {
+    count,
+    longCount: trades.filter((t) => t.type === "LONG").length,
+    shortCount: trades.filter((t) => t.type === "SHORT").length,
+    avgFunding: count ? sum((t) => t.fundingTotal) / count : 0,
+    fundingPnl: sum((t) => t.fundingPnl),
+    fees: sum((t) => t.fee),
+    netPnl: sum((t) => t.profitLoss),
+    winRate: count ? trades.filter((t) => t.profitLoss > 0).length / count : 0,
+    avgHoldingDays: count ? sum((t) => t.duration) / count : 0,
+    notional: sum((t) => t.notional),
+  }
+}
+
+// Summaries cached per trades array: every card, table and total reading the same list
+// shares one result, and it is only recomputed when the list itself is replaced
+const summaries = new WeakMap<TradeBarData[], TradeSummary>()
+
+export function getTradeSummary(trades: TradeBarData[]) {
+  let summary = summaries.get(trades)
+  if (!summary) {
+    summary = summarizeTrades(trades)
+    summaries.set(trades, summary)
+  }
+  return summary
+}
+
+export interface PortfolioSummary {
+  total: TradeSummary
+  byPair: Record<string, TradeSummary>
+  bySide: Record<TradeType, TradeSummary>
+}
+
+// Totals are computed over the pooled trades, so averages weight every trade equally
+export function summarizePortfolio(tradesByPair: Record<string, TradeBarData[]>): PortfolioSummary {
+  const all = Object.values(tradesByPair).flat()
+
+  return {
+    total: summarizeTrades(all),
+    byPair: Object.fromEntries(
+      Object.entries(tradesByPair).map(([pair, trades]) => [pair, getTradeSummary(trades)])
+    ),
+    bySide: {
+      LONG: summarizeTrades(all.filter((t) => t.type === "LONG")),
+      SHORT: summarizeTrades(all.filter((t) => t.type === "SHORT")),
+    },
+  }
+}
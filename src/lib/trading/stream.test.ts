@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest"
+
+import { getReconnectDelay, getStreamHealth, parseStreamMessage } from "./stream"
+
+const POSITION = {
+  id: "p1",
+  side: "LONG",
+  startTime: "2024-05-01T08:00:00.000Z",
+  startPrice: 43000,
+  size: 0.25,
+  leverage: 2,
+  marginMode: "cross",
+  exchange: "binance",
+}
+
+const TRADE = {
+  id: "t1",
+  type: "SHORT",
+  startTime: "2024-05-01T08:00:00.000Z",
+  endTime: "2024-05-02T08:00:00.000Z",
+  exchange: "bybit",
+  size: 0.25,
+  notional: 10750,
+  leverage: 1,
+  marginMode: "isolated",
+  fundingTotal: 0.03,
+  periods: 3,
+  fee: 10.7,
+  startPrice: 43000,
+  endPrice: 42800,
+  duration: 1,
+  dateLabel: "May 1",
+  startDay: 19844,
+}
+
+const frame = (message: unknown) => JSON.stringify(message)
+
+describe("parseStreamMessage", () => {
+  it("accepts each well-formed message type", () => {
+    const messages = [
+      { type: "position_open", pair: "BTC-USDT", position: POSITION },
+      { type: "position_close", pair: "BTC-USDT", trade: TRADE },
+      {
+        type: "funding_payment",
+        pair: "BTC-USDT",
+        positionId: "p1",
+        time: "2024-05-01T16:00:00.000Z",
+        rate: -0.01,
+      },
+      { type: "mark_price", pair: "BTC-USDT", price: 43100, time: "2024-05-01T16:00:00.000Z" },
+      { type: "heartbeat", time: "2024-05-01T16:00:00.000Z" },
+    ]
+
+    for (const message of messages) {
+      expect(parseStreamMessage(frame(message))).toEqual(message)
+    }
+  })
+
+  it("drops frames that aren't JSON objects", () => {
+    expect(parseStreamMessage("not json")).toBeNull()
+    expect(parseStreamMessage("")).toBeNull()
+    expect(parseStreamMessage("null")).toBeNull()
+    expect(parseStreamMessage("42")).toBeNull()
+    expect(parseStreamMessage(frame(["heartbeat"]))).toBeNull()
+  })
+
+  it("drops unknown or missing types", () => {
+    expect(parseStreamMessage(frame({ type: "order_fill", pair: "BTC-USDT" }))).toBeNull()
+    expect(parseStreamMessage(frame({ pair: "BTC-USDT", price: 1 }))).toBeNull()
+    expect(parseStreamMessage(frame({ type: "toString" }))).toBeNull()
+  })
+
+  it("drops positions with missing or malformed fields", () => {
+    const open = (position: unknown) => frame({ type: "position_open", pair: "BTC-USDT", position })
+
+    expect(parseStreamMessage(open(undefined))).toBeNull()
+    expect(parseStreamMessage(open({ ...POSITION, side: "long" }))).toBeNull()
+    expect(parseStreamMessage(open({ ...POSITION, startTime: "yesterday" }))).toBeNull()
+    expect(parseStreamMessage(open({ ...POSITION, size: 0 }))).toBeNull()
+    expect(parseStreamMessage(open({ ...POSITION, startPrice: "43000" }))).toBeNull()
+    expect(parseStreamMessage(open({ ...POSITION, marginMode: "portfolio" }))).toBeNull()
+    expect(parseStreamMessage(frame({ type: "position_open", position: POSITION }))).toBeNull()
+  })
+
+  it("drops closed trades with missing or malformed fields", () => {
+    const close = (trade: unknown) => frame({ type: "position_close", pair: "BTC-USDT", trade })
+
+    expect(parseStreamMessage(close({ ...TRADE, fee: undefined }))).toBeNull()
+    expect(parseStreamMessage(close({ ...TRADE, periods: 2.5 }))).toBeNull()
+    expect(parseStreamMessage(close({ ...TRADE, endTime: "" }))).toBeNull()
+    expect(parseStreamMessage(close({ ...TRADE, notional: -1 }))).toBeNull()
+  })
+
+  it("drops funding and mark price updates that can't be applied", () => {
+    expect(
+      parseStreamMessage(
+        frame({ type: "funding_payment", pair: "BTC-USDT", time: "2024-05-01T16:00:00.000Z", rate: 0.01 })
+      )
+    ).toBeNull()
+    // JSON has no NaN, so a non-finite rate arrives as null
+    expect(
+      parseStreamMessage(
+        frame({
+          type: "funding_payment",
+          pair: "BTC-USDT",
+          positionId: "p1",
+          time: "2024-05-01T16:00:00.000Z",
+          rate: Number.NaN,
+        })
+      )
+    ).toBeNull()
+    expect(
+      parseStreamMessage(frame({ type: "mark_price", pair: "BTC-USDT", price: -5, time: "2024-05-01T16:00:00.000Z" }))
+    ).toBeNull()
+    expect(parseStreamMessage(frame({ type: "mark_price", pair: "BTC-USDT", price: 43100 }))).toBeNull()
+  })
+})
+
+describe("getReconnectDelay", () => {
+  it("backs off exponentially up to the cap", () => {
+    expect([0, 1, 2, 3, 10].map((attempt) => getReconnectDelay(attempt))).toEqual([
+      1000, 2000, 4000, 8000, 30000,
+    ])
+  })
+})
+
+describe("getStreamHealth", () => {
+  it("is disconnected unless the socket is open", () => {
+    expect(getStreamHealth("connecting", 1000, 1000, 5000)).toBe("disconnected")
+    expect(getStreamHealth("closed", 1000, 1000, 5000)).toBe("disconnected")
+  })
+
+  it("is stale when nothing arrived lately", () => {
+    expect(getStreamHealth("open", undefined, 1000, 5000)).toBe("stale")
+    expect(getStreamHealth("open", 1000, 7000, 5000)).toBe("stale")
+    expect(getStreamHealth("open", 1000, 5000, 5000)).toBe("live")
+  })
+})
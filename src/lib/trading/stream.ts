@@ -0,0 +1,216 @@
+import type { MarginMode, TradeRecord, TradeType } from "./types"
+
+// Messages pushed by the bot over the trade stream WebSocket
+export type StreamMessage =
+  | {
+      type: "position_open"
+      pair: string
+      position: {
+        id: string
+        side: TradeType
+        startTime: string
+        startPrice: number
+        size: number
+        leverage: number
+        marginMode: MarginMode
+        exchange: string
+      }
+    }
+  | { type: "position_close"; pair: string; trade: TradeRecord }
+  | {
+      type: "funding_payment"
+      pair: string
+      positionId: string
+      time: string
+      rate: number // Pair funding rate settled for the period, in percent (longs pay shorts)
+    }
+  | { type: "mark_price"; pair: string; price: number; time: string }
+  | { type: "heartbeat"; time: string }
+
+type Fields = Record<string, unknown>
+
+const isObject = (value: unknown): value is Fields => typeof value === "object" && value !== null
+const isText = (value: unknown): value is string => typeof value === "string" && value !== ""
+const isTime = (value: unknown) => isText(value) && !Number.isNaN(Date.parse(value))
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+const isPositive = (value: unknown) => isNumber(value) && value > 0
+const isSide = (value: unknown) => value === "LONG" || value === "SHORT"
+const isMarginMode = (value: unknown) => value === "cross" || value === "isolated"
+
+const isPosition = (position: unknown) =>
+  isObject(position) &&
+  isText(position.id) &&
+  isSide(position.side) &&
+  isTime(position.startTime) &&
+  isPositive(position.startPrice) &&
+  isPositive(position.size) &&
+  isPositive(position.leverage) &&
+  isMarginMode(position.marginMode) &&
+  isText(position.exchange)
+
+const isTrade = (trade: unknown) =>
+  isObject(trade) &&
+  isText(trade.id) &&
+  isSide(trade.type) &&
+  isTime(trade.startTime) &&
+  isTime(trade.endTime) &&
+  isText(trade.exchange) &&
+  isPositive(trade.size) &&
+  isPositive(trade.notional) &&
+  isPositive(trade.leverage) &&
+  isMarginMode(trade.marginMode) &&
+  isNumber(trade.fundingTotal) &&
+  Number.isInteger(trade.periods) &&
+  isNumber(trade.fee) &&
+  isPositive(trade.startPrice) &&
+  isPositive(trade.endPrice) &&
+  isNumber(trade.duration)
+
+// Payload checks per message type; anything failing them is dropped rather than applied
+const VALIDATORS: Record<StreamMessage["type"], (message: Fields) => boolean> = {
+  position_open: (message) => isText(message.pair) && isPosition(message.position),
+  position_close: (message) => isText(message.pair) && isTrade(message.trade),
+  funding_payment: (message) =>
+    isText(message.pair) &&
+    isText(message.positionId) &&
+    isTime(message.time) &&
+    isNumber(message.rate),
+  mark_price: (message) =>
+    isText(message.pair) && isPositive(message.price) && isTime(message.time),
+  heartbeat: () => true,
+}
+
+// Returns null for anything that isn't a well-formed stream message
+export function parseStreamMessage(raw: string): StreamMessage | null {
+  let data: unknown
+
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  if (!isObject(data) || typeof data.type !== "string" || !Object.keys(VALIDATORS).includes(data.type)) {
+    return null
+  }
+
+  return VALIDATORS[data.type as StreamMessage["type"]](data) ? (data as StreamMessage) : null
+}
+
+export type StreamConnectionStatus = "connecting" | "open" | "closed"
+
+export type StreamHealth = "live" | "stale" | "disconnected"
+
+export interface BackoffOptions {
+  initialMs: number
+  maxMs: number
+  factor: number
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialMs: 1000,
+  maxMs: 30000,
+  factor: 2,
+}
+
+export function getReconnectDelay(attempt: number, backoff = DEFAULT_BACKOFF) {
+  return Math.min(backoff.maxMs, backoff.initialMs * backoff.factor ** attempt)
+}
+
+// A pair is stale when the socket is up but nothing has arrived for it lately
+export function getStreamHealth(
+  status: StreamConnectionStatus,
+  lastMessageAt: number | undefined,
+  now: number,
+  staleAfterMs: number
+): StreamHealth {
+  if (status !== "open") {
+    return "disconnected"
+  }
+
+  if (lastMessageAt === undefined || now - lastMessageAt > staleAfterMs) {
+    return "stale"
+  }
+
+  return "live"
+}
+
+export interface TradeStreamOptions {
+  url: string
+  onMessage: (message: StreamMessage) => void
+  onStatusChange: (status: StreamConnectionStatus) => void
+  backoff?: BackoffOptions
+  createSocket?: (url: string) => WebSocket
+}
+
+export interface TradeStreamConnection {
+  close(): void
+}
+
+// Opens the stream and keeps reconnecting with exponential backoff until closed
+export function connectTradeStream({
+  url,
+  onMessage,
+  onStatusChange,
+  backoff = DEFAULT_BACKOFF,
+  createSocket = (url) => new WebSocket(url),
+}: TradeStreamOptions): TradeStreamConnection {
+  let socket: WebSocket | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+  let attempt = 0
+  let closed = false
+
+  const connect = () => {
+    onStatusChange("connecting")
+    const current = createSocket(url)
+    socket = current
+
+    // Browsers follow an error with close, some runtimes don't; handle whichever comes first
+    const handleDisconnect = () => {
+      if (socket !== current) {
+        return
+      }
+
+      socket = null
+
+      if (closed) {
+        return
+      }
+
+      onStatusChange("closed")
+      reconnectTimer = setTimeout(connect, getReconnectDelay(attempt, backoff))
+      attempt++
+    }
+
+    current.onopen = () => {
+      attempt = 0
+      onStatusChange("open")
+    }
+
+    current.onmessage = (event) => {
+      if (typeof event.data !== "string") {
+        return
+      }
+
+      const message = parseStreamMessage(event.data)
+
+      if (message) {
+        onMessage(message)
+      }
+    }
+
+    current.onerror = handleDisconnect
+    current.onclose = handleDisconnect
+  }
+
+  connect()
+
+  return {
+    close: () => {
+      closed = true
+      clearTimeout(reconnectTimer)
+      socket?.close()
+      onStatusChange("closed")
+    },
+  }
+}
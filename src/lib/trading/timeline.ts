@@ -0,0 +1,64 @@
+import type { TradeBarData } from "./types"
+
+export interface TimelineTrade {
+  trade: TradeBarData
+  start: number
+  end: number
+  lane: number
+}
+
+// Greedy interval partitioning: each trade goes in the first lane that is free by its start
+export function assignLanes(trades: TradeBarData[]) {
+  const laneEnds: number[] = []
+  const items: TimelineTrade[] = [...trades]
+    .map((trade) => ({
+      trade,
+      start: new Date(trade.startTime).getTime(),
+      end: new Date(trade.endTime).getTime(),
+      lane: 0,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+
+  for (const item of items) {
+    const lane = laneEnds.findIndex((end) => end <= item.start)
+    item.lane = lane === -1 ? laneEnds.length : lane
+    laneEnds[item.lane] = item.end
+  }
+
+  return { items, laneCount: laneEnds.length }
+}
+
+export type TimeDomain = [number, number]
+
+// Keeps a view window inside the bounds, shifting it back rather than shrinking it
+export function clampDomain([from, to]: TimeDomain, [min, max]: TimeDomain): TimeDomain {
+  const span = Math.min(to - from, max - min)
+
+  if (from < min) {
+    return [min, min + span]
+  }
+
+  if (to > max) {
+    return [max - span, max]
+  }
+
+  return [from, to]
+}
+
+// Scales the window around its centre; factor < 1 zooms in
+export function zoomDomain(
+  [from, to]: TimeDomain,
+  factor: number,
+  bounds: TimeDomain,
+  minSpan: number
+): TimeDomain {
+  const center = (from + to) / 2
+  const span = Math.max(minSpan, (to - from) * factor)
+  return clampDomain([center - span / 2, center + span / 2], bounds)
+}
+
+// Moves the window by a fraction of its own width; negative pans back in time
+export function panDomain([from, to]: TimeDomain, fraction: number, bounds: TimeDomain) {
+  const shift = (to - from) * fraction
+  return clampDomain([from + shift, to + shift], bounds)
+}
@@ -0,0 +1,78 @@
+import type { TradeBarData, TradeType } from "./types"
+
+export interface TradeFilters {
+  side: "all" | TradeType
+  fundingSign: "all" | "positive" | "negative" // Collected vs paid funding
+  from: string // Start day, yyyy-mm-dd in the display zone; empty for no bound
+  to: string
+  search: string // Substring of the trade id, case-insensitive
+}
+
+export const DEFAULT_TRADE_FILTERS: TradeFilters = {
+  side: "all",
+  fundingSign: "all",
+  from: "",
+  to: "",
+  search: "",
+}
+
+export function hasActiveFilters(filters: TradeFilters) {
+  return (Object.keys(DEFAULT_TRADE_FILTERS) as (keyof TradeFilters)[]).some(
+    (key) => filters[key] !== DEFAULT_TRADE_FILTERS[key]
+  )
+}
+
+// Days compare as strings, which works because both sides are ISO formatted. dayKey maps a
+// start time to its day in the display zone; without it days are UTC
+export function filterTrades(
+  trades: TradeBarData[],
+  filters: TradeFilters,
+  dayKey: (time: string) => string = (time) => time.slice(0, 10)
+) {
+  const search = filters.search.trim().toLowerCase()
+
+  return trades.filter((trade) => {
+    const day = dayKey(trade.startTime)
+
+    return (
+      (filters.side === "all" || trade.type === filters.side) &&
+      (filters.fundingSign === "all" ||
+        (filters.fundingSign === "positive" ? trade.fundingTotal >= 0 : trade.fundingTotal < 0)) &&
+      (!filters.from || day >= filters.from) &&
+      (!filters.to || day <= filters.to) &&
+      (!search || trade.id.toLowerCase().includes(search))
+    )
+  })
+}
+
+export type TradeSortKey =
+  | "type"
+  | "startTime"
+  | "endTime"
+  | "duration"
+  | "fundingTotal"
+  | "periods"
+  | "fee"
+  | "profitLoss"
+
+export interface TradeSort {
+  key: TradeSortKey
+  direction: "asc" | "desc"
+}
+
+export const DEFAULT_TRADE_SORT: TradeSort = { key: "startTime", direction: "desc" }
+
+// Stable, so equal keys keep their chronological order
+export function sortTrades(trades: TradeBarData[], { key, direction }: TradeSort) {
+  const factor = direction === "asc" ? 1 : -1
+
+  return [...trades].sort((a, b) => {
+    const left = a[key]
+    const right = b[key]
+    const order =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right))
+    return order * factor
+  })
+}
@@ -0,0 +1,83 @@
+export type TradeType = "LONG" | "SHORT"
+
+export type MarginMode = "cross" | "isolated"
+
+// One complete trade from open to close, shaped for the bar chart
+export interface TradeBarData {
+  id: string
+  type: TradeType
+  startTime: string
+  endTime: string
+  exchange: string // Venue id, see EXCHANGES
+  size: number // Position size in base units
+  notional: number // Entry notional (size * startPrice), in quote currency
+  leverage: number
+  marginMode: MarginMode
+  fundingTotal: number // Net funding collected over the trade, percent of entry notional
+  periods: number // 8h funding periods held
+  fee: number // Total trading fees paid, in quote currency
+  startPrice: number
+  endPrice: number
+  duration: number // Duration in days for bar height
+  // Realized figures in quote currency, filled in by applyTradeAccounting
+  pricePnl: number
+  fundingPnl: number
+  profitLoss: number // Net realized PnL: price + funding - fees
+  netReturn: number // profitLoss as a percent of entry notional
+  dateLabel: string // For X-axis display
+  startDay: number // Day number for positioning
+}
+
+// A trade as recorded by a source, before applyTradeAccounting fills in the realized fields
+export type TradeRecord = Omit<
+  TradeBarData,
+  "pricePnl" | "fundingPnl" | "profitLoss" | "netReturn"
+>
+
+// A position still open: no endTime yet, and funding keeps accruing every 8h period
+export interface OpenPosition {
+  id: string
+  pair: string
+  type: TradeType
+  startTime: string
+  startPrice: number
+  size: number // Position size in base units
+  leverage: number
+  marginMode: MarginMode
+  exchange: string
+  fundingTotal: number // Funding collected so far, percent of entry notional
+  periods: number // 8h funding periods settled so far
+}
+
+// Funding rate settled for one 8h period on a pair
+export interface FundingRatePoint {
+  time: string // Settlement timestamp, ISO
+  rate: number // Percent of notional paid by longs to shorts (negative: shorts pay)
+}
+
+// One venue's funding history for a pair
+export interface FundingSeries {
+  exchange: string
+  points: FundingRatePoint[]
+}
+
+// Mark price sampled at one timestamp, e.g. each funding settlement
+export interface PricePoint {
+  time: string // ISO
+  price: number // Quote currency per unit of base
+}
+
+// Inclusive window of ISO timestamps
+export interface TimeRange {
+  from: string
+  to: string
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getTrailingRange(days: number, now = new Date()): TimeRange {
+  return {
+    from: new Date(now.getTime() - days * DAY_MS).toISOString(),
+    to: now.toISOString(),
+  }
+}
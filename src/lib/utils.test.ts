@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest"
+
+import { moveItem } from "./utils"
+
+describe("moveItem", () => {
+  it("moves an item up or down without touching the original", () => {
+    const pairs = ["BTC-USDT", "ETH-USDT", "SOL-USDT"]
+
+    expect(moveItem(pairs, 0, 2)).toEqual(["ETH-USDT", "SOL-USDT", "BTC-USDT"])
+    expect(moveItem(pairs, 2, 1)).toEqual(["BTC-USDT", "SOL-USDT", "ETH-USDT"])
+    expect(pairs).toEqual(["BTC-USDT", "ETH-USDT", "SOL-USDT"])
+  })
+
+  it("returns the same list when the move goes nowhere", () => {
+    const pairs = ["BTC-USDT", "ETH-USDT"]
+
+    expect(moveItem(pairs, 0, -1)).toBe(pairs)
+    expect(moveItem(pairs, 1, 2)).toBe(pairs)
+    expect(moveItem(pairs, 1, 1)).toBe(pairs)
+  })
+})
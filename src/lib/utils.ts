@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A copy of the list with one item moved, e.g. from a drag or an arrow button; the same list when the move goes nowhere
+export function moveItem<T>(items: T[], from: number, to: number) {
+  if (to < 0 || to >= items.length || from === to) {
+    return items
+  }
+
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
@@ -6,10 +6,25 @@ import App from "./App.tsx";
 import { ThemeProvider } from "@/components/theme-provider";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "react-hot-toast";
+import { BrowserRouter } from "react-router-dom";
+import { TradeDataSourceProvider } from "@/components/trade-data-source-provider";
+import { createCachedTradeDataSource } from "@/lib/storage/history-cache";
+import { createTradeDataSourceFromEnv } from "@/lib/trading/data-source";
+import { useCacheStore } from "@/stores/cache-store";
+import { useImportStore } from "@/stores/import-store";
 
-const queryClient = new QueryClient();
+// Queries still run offline, since the cached source can answer them from IndexedDB
+const queryClient = new QueryClient({
+  defaultOptions: { queries: { networkMode: "offlineFirst" } },
+});
+const tradeDataSource = createCachedTradeDataSource(createTradeDataSourceFromEnv(), {
+  isOffline: () => useCacheStore.getState().workOffline,
+  onSync: (result) => useCacheStore.getState().recordSync(result),
+});
 const loadingSpinner = document.getElementById("spinner-start");
 
+void useImportStore.getState().restore();
+
 if (loadingSpinner) {
   loadingSpinner.style.display = "none";
 }
@@ -28,13 +43,18 @@ createRoot(document.getElementById("root")!).render(
             className: "",
             duration: 10000,
             style: {
-              background: "#27272A",
-              color: "#E4E4E7",
+              background: "var(--popover)",
+              color: "var(--popover-foreground)",
+              border: "1px solid var(--border)",
               borderRadius: "13px",
             },
           }}
         />
-        <App />
+        <TradeDataSourceProvider source={tradeDataSource}>
+          <BrowserRouter>
+            <App />
+          </BrowserRouter>
+        </TradeDataSourceProvider>
       </ThemeProvider>
     </QueryClientProvider>
   </StrictMode>
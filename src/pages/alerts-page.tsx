@@ -0,0 +1,268 @@
+import { useState } from "react"
+import toast from "react-hot-toast"
+import { Bell, BellOff, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/hooks/use-i18n"
+import { describeRule, type AlertComparator, type AlertRuleKind } from "@/lib/alerts/rules"
+import type { MessageKey } from "@/lib/i18n"
+import { cn } from "@/lib/utils"
+import { useAlertStore, type NewAlertRule } from "@/stores/alert-store"
+import { useWatchlistStore } from "@/stores/watchlist-store"
+
+const fieldClass =
+  "h-8 rounded-md border bg-background px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+const KIND_LABELS: Record<AlertRuleKind, MessageKey> = {
+  "funding-rate": "alerts.kind.funding-rate",
+  "position-duration": "alerts.kind.position-duration",
+  "net-funding": "alerts.kind.net-funding",
+}
+
+const COMPARATORS: AlertComparator[] = ["above", "below"]
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window
+
+function RuleForm({ pairs }: { pairs: string[] }) {
+  const addRule = useAlertStore((state) => state.addRule)
+  const [kind, setKind] = useState<AlertRuleKind>("funding-rate")
+  const [pair, setPair] = useState(pairs[0] ?? "")
+  const [comparator, setComparator] = useState<AlertComparator>("above")
+  const [threshold, setThreshold] = useState("0.05")
+  const [periods, setPeriods] = useState("3")
+  const [windowDays, setWindowDays] = useState("7")
+  const { t, format } = useI18n()
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const selectedPair = pairs.includes(pair) ? pair : pairs[0]
+
+    if (!selectedPair) {
+      toast.error(t("alerts.needPair"))
+      return
+    }
+
+    let rule: NewAlertRule
+    if (kind === "position-duration") {
+      const value = Math.floor(Number(periods))
+      if (!(value >= 1)) {
+        toast.error(t("alerts.periodsInvalid"))
+        return
+      }
+      rule = { kind, pair: selectedPair, periods: value }
+    } else {
+      const value = Number(threshold)
+      const days = Math.floor(Number(windowDays))
+      if (threshold.trim() === "" || !Number.isFinite(value)) {
+        toast.error(t("alerts.thresholdInvalid"))
+        return
+      }
+      if (kind === "net-funding" && !(days >= 1)) {
+        toast.error(t("alerts.windowInvalid"))
+        return
+      }
+      rule =
+        kind === "funding-rate"
+          ? { kind, pair: selectedPair, comparator, threshold: value }
+          : { kind, pair: selectedPair, comparator, threshold: value, windowDays: days }
+    }
+
+    addRule(rule)
+    toast.success(t("alerts.watching", { rule: describeRule({ ...rule, id: "", enabled: true }, t, format) }))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 text-sm">
+      <label className="flex flex-col gap-1 text-muted-foreground">
+        {t("alerts.condition")}
+        <select value={kind} onChange={(event) => setKind(event.target.value as AlertRuleKind)} className={fieldClass}>
+          {Object.entries(KIND_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {t(label)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-muted-foreground">
+        {t("alerts.pair")}
+        <select value={pair} onChange={(event) => setPair(event.target.value)} className={fieldClass}>
+          {pairs.map((symbol) => (
+            <option key={symbol} value={symbol}>
+              {symbol}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {kind === "position-duration" ? (
+        <label className="flex flex-col gap-1 text-muted-foreground">
+          {t("alerts.openLonger")}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={periods}
+            onChange={(event) => setPeriods(event.target.value)}
+            className={cn(fieldClass, "w-28")}
+          />
+        </label>
+      ) : (
+        <>
+          <label className="flex flex-col gap-1 text-muted-foreground">
+            {t("alerts.when")}
+            <select
+              value={comparator}
+              onChange={(event) => setComparator(event.target.value as AlertComparator)}
+              className={fieldClass}
+            >
+              {COMPARATORS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`alerts.comparator.${value}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-muted-foreground">
+            {t(kind === "funding-rate" ? "alerts.rateThreshold" : "alerts.netThreshold")}
+            <input
+              type="number"
+              step="any"
+              value={threshold}
+              onChange={(event) => setThreshold(event.target.value)}
+              className={cn(fieldClass, "w-28")}
+            />
+          </label>
+          {kind === "net-funding" && (
+            <label className="flex flex-col gap-1 text-muted-foreground">
+              {t("alerts.windowDays")}
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={windowDays}
+                onChange={(event) => setWindowDays(event.target.value)}
+                className={cn(fieldClass, "w-20")}
+              />
+            </label>
+          )}
+        </>
+      )}
+
+      <Button type="submit" size="sm">
+        {t("alerts.addRule")}
+      </Button>
+    </form>
+  )
+}
+
+function NotificationToggle() {
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported() ? Notification.permission : "denied"
+  )
+  const { t } = useI18n()
+
+  if (!notificationsSupported()) {
+    return <span className="text-sm text-muted-foreground">{t("alerts.notificationsUnsupported")}</span>
+  }
+
+  if (permission === "granted") {
+    return (
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Bell className="size-4" /> {t("alerts.notificationsOn")}
+      </span>
+    )
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={permission === "denied"}
+      title={permission === "denied" ? t("alerts.notificationsBlocked") : undefined}
+      onClick={() => Notification.requestPermission().then(setPermission)}
+    >
+      <BellOff /> {t("alerts.enableNotifications")}
+    </Button>
+  )
+}
+
+// Rules are evaluated app-wide by useAlertEngine; this page only edits them and shows what fired
+export function AlertsPage() {
+  const watchlist = useWatchlistStore((state) => state.pairs)
+  const { rules, history, toggleRule, removeRule, clearHistory } = useAlertStore()
+  const { t, format } = useI18n()
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle>{t("alerts.rules")}</CardTitle>
+          <NotificationToggle />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RuleForm pairs={watchlist} />
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("alerts.noRules")}</p>
+          ) : (
+            <ul className="divide-y rounded-md border text-sm">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <span className={cn(!rule.enabled && "text-muted-foreground line-through")}>
+                    {describeRule(rule, t, format)}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => toggleRule(rule.id)}>
+                      {rule.enabled ? t("alerts.pause") : t("alerts.resume")}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label={t("alerts.deleteRule", { rule: describeRule(rule, t, format) })}
+                      onClick={() => removeRule(rule.id)}
+                    >
+                      <Trash2 />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle>{t("alerts.history")}</CardTitle>
+          <Button variant="outline" size="sm" disabled={history.length === 0} onClick={clearHistory}>
+            {t("common.clear")}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("alerts.noHistory")}</p>
+          ) : (
+            <ul className="max-h-96 divide-y overflow-y-auto rounded-md border text-sm">
+              {history.map((event) => (
+                <li key={`${event.key}-${event.firedAt}`} className="flex justify-between gap-4 px-3 py-2">
+                  <span>{event.message}</span>
+                  <span className="shrink-0 text-muted-foreground tabular-nums">
+                    {format.dateTime(event.firedAt)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="p-6 text-sm text-muted-foreground space-y-1">
+        <p>• {t("alerts.bullet.schedule")}</p>
+        <p>• {t("alerts.bullet.episodes")}</p>
+        <p>• {t("alerts.bullet.latest")}</p>
+      </Card>
+    </div>
+  )
+}
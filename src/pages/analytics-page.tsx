@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react"
+
+import { DailyReturnsChart } from "@/components/daily-returns-chart"
+import { EquityCurveChart } from "@/components/equity-curve-chart"
+import { StatTile } from "@/components/stat-tile"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useI18n } from "@/hooks/use-i18n"
+import { useTradesForPairs } from "@/hooks/use-trade-stats"
+import { useTradesByPair } from "@/hooks/use-trades"
+import type { Translate } from "@/lib/i18n"
+import { computePerformance, defaultCapital } from "@/lib/trading/analytics"
+import { signTone, type Formatters } from "@/lib/trading/format"
+import { useWatchlistStore } from "@/stores/watchlist-store"
+
+const formatRatio = (value: number, format: Formatters) =>
+  Number.isFinite(value) ? format.number(value) : value > 0 ? "∞" : "—"
+
+const formatDuration = (ms: number, t: Translate) => {
+  const days = ms / 86_400_000
+  return days >= 1
+    ? t("common.days", { count: Number(days.toFixed(1)) })
+    : t("common.hours", { count: Math.round(ms / 3_600_000) })
+}
+
+// Portfolio-wide performance for the active range, or one pair at a time
+export function AnalyticsPage() {
+  const { range } = useDateRange()
+  const pairs = useWatchlistStore((state) => state.pairs)
+  const { isPending, error } = useTradesByPair(pairs, range)
+  const tradesByPair = useTradesForPairs(pairs)
+  const [scope, setScope] = useState<string>("all")
+  const [capitalInput, setCapitalInput] = useState("")
+  const { t, format } = useI18n()
+
+  const trades = useMemo(
+    () => (scope === "all" ? Object.values(tradesByPair).flat() : (tradesByPair[scope] ?? [])),
+    [scope, tradesByPair]
+  )
+  const capital = Number(capitalInput) > 0 ? Number(capitalInput) : defaultCapital(trades)
+  const stats = useMemo(() => computePerformance(trades, range, capital), [trades, range, capital])
+  const { drawdown, streaks } = stats
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <div className="flex flex-wrap gap-1 rounded-lg border p-1">
+          {["all", ...pairs].map((pair) => (
+            <Button
+              key={pair}
+              size="sm"
+              variant={scope === pair ? "secondary" : "ghost"}
+              onClick={() => setScope(pair)}
+            >
+              {pair === "all" ? t("analytics.allPairs") : pair}
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          {t("analytics.capital")}
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={capitalInput}
+            placeholder={format.number(defaultCapital(trades), 0)}
+            onChange={(event) => setCapitalInput(event.target.value)}
+            className="h-8 w-28 rounded-md border bg-background px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+          />
+        </label>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-center text-destructive">{t("common.failedTrades", { message: error.message })}</Card>
+      ) : isPending ? (
+        <Card className="p-6 text-center text-muted-foreground">{t("common.loadingTrades")}</Card>
+      ) : trades.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">{t("analytics.noTrades")}</Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatTile label={t("stat.netPnl")} value={format.usd(stats.netPnl, { signed: true })} tone={signTone(stats.netPnl)} />
+            <StatTile
+              label={t("analytics.maxDrawdown")}
+              value={`${format.usd(drawdown.maxDrawdown)} (${format.percent(drawdown.maxDrawdownPercent, 1)})`}
+              tone={drawdown.maxDrawdown < 0 ? "negative" : undefined}
+            />
+            <StatTile
+              label={t(
+                drawdown.recoveryTime || !drawdown.peakTime ? "analytics.drawdownDuration" : "analytics.drawdownOngoing"
+              )}
+              value={formatDuration(drawdown.durationMs, t)}
+            />
+            <StatTile label={t("analytics.profitFactor")} value={formatRatio(stats.profitFactor, format)} />
+            <StatTile label={t("analytics.sharpe")} value={formatRatio(stats.sharpe, format)} tone={signTone(stats.sharpe)} />
+            <StatTile label={t("analytics.sortino")} value={formatRatio(stats.sortino, format)} tone={signTone(stats.sortino)} />
+            <StatTile
+              label={t("analytics.winRateStreaks")}
+              value={t("analytics.winRateStreaksValue", {
+                winRate: format.percent(stats.winRate * 100, 0),
+                wins: streaks.longestWin,
+                losses: streaks.longestLoss,
+              })}
+            />
+            <StatTile
+              label={t("analytics.fundingYield")}
+              value={format.signedPercent(stats.fundingYield)}
+              tone={signTone(stats.fundingYield)}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("analytics.equityCurve")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EquityCurveChart curve={stats.equityCurve} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("analytics.dailyPnl")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DailyReturnsChart returns={stats.dailyReturns} />
+            </CardContent>
+          </Card>
+
+          <Card className="p-6 text-sm text-muted-foreground space-y-1">
+            <p>• {t("analytics.bullet.returns")}</p>
+            <p>• {t("analytics.bullet.ratios")}</p>
+            <p>• {t("analytics.bullet.yield")}</p>
+            <p>
+              •{" "}
+              {t(streaks.current.kind === "win" ? "analytics.bullet.winStreak" : "analytics.bullet.lossStreak", {
+                count: streaks.current.length,
+              })}
+            </p>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { Link } from "react-router-dom"
+
+import { Card } from "@/components/ui/card"
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useI18n } from "@/hooks/use-i18n"
+
+export function NotFoundPage({ message }: { message?: string }) {
+  const links = useAppLinks()
+  const { t } = useI18n()
+
+  return (
+    <Card className="p-6 text-center space-y-2">
+      <p className="text-muted-foreground">{message ?? t("notFound.message")}</p>
+      <Link to={links.overview()} className="text-sm underline underline-offset-4">
+        {t("notFound.back")}
+      </Link>
+    </Card>
+  )
+}
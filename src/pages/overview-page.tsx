@@ -0,0 +1,109 @@
+import { BacktestPanel } from "@/components/backtest-panel"
+import { Card } from "@/components/ui/card"
+import { DashboardGrid } from "@/components/dashboard-grid"
+import { ExportMenu } from "@/components/export-menu"
+import { ImportDropZone } from "@/components/import-drop-zone"
+import { LayoutToolbar } from "@/components/layout-toolbar"
+import { PortfolioSummary } from "@/components/portfolio-summary"
+import { WatchlistEditor } from "@/components/watchlist-editor"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useI18n } from "@/hooks/use-i18n"
+import { useTradesForPairs } from "@/hooks/use-trade-stats"
+import { useTradesByPair } from "@/hooks/use-trades"
+import type { MessageKey } from "@/lib/i18n"
+import { useLayoutStore } from "@/stores/layout-store"
+import { useWatchlistStore } from "@/stores/watchlist-store"
+
+const LEGEND_BULLETS: MessageKey[] = [
+  "legend.bullet.bars",
+  "legend.bullet.open",
+  "legend.bullet.height",
+  "legend.bullet.axis",
+  "legend.bullet.sides",
+  "legend.bullet.keyboard",
+  "legend.bullet.hover",
+  "legend.bullet.timeline",
+  "legend.bullet.fundingRate",
+  "legend.bullet.table",
+  "legend.bullet.fundingTotals",
+  "legend.bullet.pnl",
+  "legend.bullet.openValuation",
+  "legend.bullet.layout",
+  "legend.bullet.import",
+  "legend.bullet.locale",
+]
+
+export function OverviewPage() {
+  const { range } = useDateRange()
+  const tradingPairs = useWatchlistStore((state) => state.pairs)
+  const { isPending, error } = useTradesByPair(tradingPairs, range)
+  const tradesByPair = useTradesForPairs(tradingPairs)
+  const showLegend = useLayoutStore((state) => state.current.showLegend)
+  const { t } = useI18n()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <WatchlistEditor />
+        <ExportMenu
+          subject="watchlist"
+          range={range}
+          trades={tradesByPair}
+          disabled={isPending || !!error || tradingPairs.length === 0}
+        />
+      </div>
+
+      {tradingPairs.length > 0 && (
+        <PortfolioSummary pairs={tradingPairs} isPending={isPending} />
+      )}
+
+      <BacktestPanel pairs={tradingPairs} range={range} />
+
+      <ImportDropZone>
+        {tradingPairs.length > 0 ? (
+          <div className="space-y-4">
+            <LayoutToolbar />
+            <DashboardGrid pairs={tradingPairs} range={range} />
+          </div>
+        ) : (
+          <Card className="p-6 text-center text-muted-foreground">
+            {t("overview.emptyWatchlist")}
+          </Card>
+        )}
+      </ImportDropZone>
+
+      {showLegend && (
+        <Card className="p-6">
+          <h3 className="font-semibold mb-4 text-lg">{t("legend.title")}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-medium mb-3">{t("legend.elements")}</h4>
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center gap-3">
+                  <div className="w-4 h-6 bg-long rounded-sm"></div>
+                  <span>{t("legend.longBar")}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-4 h-6 bg-[repeating-linear-gradient(45deg,var(--short)_0_4px,transparent_4px_6px)] rounded-sm"></div>
+                  <span>{t("legend.shortBar")}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-4 h-4 border border-muted-foreground rounded-sm"></div>
+                  <span>{t("legend.barHeight")}</span>
+                </div>
+              </div>
+            </div>
+            <div>
+              <h4 className="font-medium mb-3">{t("legend.information")}</h4>
+              <div className="space-y-2 text-sm text-muted-foreground">
+                {LEGEND_BULLETS.map((key) => (
+                  <p key={key}>• {t(key)}</p>
+                ))}
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { Link, useParams } from "react-router-dom"
+import { ArrowLeft } from "lucide-react"
+
+import { ExportMenu } from "@/components/export-menu"
+import { FundingComparisonChart } from "@/components/funding-comparison-chart"
+import { StatTile } from "@/components/stat-tile"
+import { TradeTable } from "@/components/trade-table"
+import { TradingChart } from "@/components/trading-chart"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useI18n } from "@/hooks/use-i18n"
+import { useTradeFilters } from "@/hooks/use-trade-filters"
+import { useFundingSeries, useTrades } from "@/hooks/use-trades"
+import { getExchangeLabel } from "@/lib/trading/exchanges"
+import { signTone } from "@/lib/trading/format"
+import { buildSpreadRows, summarizeSpread } from "@/lib/trading/funding-spread"
+import type { TimeRange, TradeBarData } from "@/lib/trading/types"
+import { selectTradeSummary, selectTrades, useAppStore } from "@/stores/app-store"
+import { NotFoundPage } from "./not-found-page"
+
+export function PairPage() {
+  const { symbol } = useParams()
+
+  if (!symbol) {
+    return <NotFoundPage />
+  }
+
+  return <PairDetail pair={symbol} />
+}
+
+function PairDetail({ pair }: { pair: string }) {
+  const { range } = useDateRange()
+  const links = useAppLinks()
+  const { isPending } = useTrades(pair, range)
+  // The same list and summary the chart above reads, derived once between them
+  const trades = useAppStore(selectTrades(pair))
+  const summary = useAppStore(selectTradeSummary(pair))
+  const { filters, setFilters, filtered } = useTradeFilters(pair)
+  const { t, format } = useI18n()
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to={links.overview()}
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="size-4" />
+        {t("nav.overview")}
+      </Link>
+
+      <TradingChart pair={pair} range={range} variant="detail" />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <StatTile
+          label={t("stat.trades")}
+          value={t("common.longShortCounts", { count: summary.count, long: summary.longCount, short: summary.shortCount })}
+        />
+        <StatTile label={t("stat.avgFunding")} value={format.signedPercent(summary.avgFunding)} tone={signTone(summary.avgFunding)} />
+        <StatTile label={t("stat.fundingCollected")} value={format.usd(summary.fundingPnl, { signed: true })} tone={signTone(summary.fundingPnl)} />
+        <StatTile label={t("stat.fees")} value={format.usd(summary.fees)} />
+        <StatTile label={t("stat.netPnl")} value={format.usd(summary.netPnl, { signed: true })} tone={signTone(summary.netPnl)} />
+        <StatTile label={t("stat.winRate")} value={format.percent(summary.winRate * 100, 0)} />
+        <StatTile
+          label={t("stat.avgHolding")}
+          value={t("common.days", { count: Number(summary.avgHoldingDays.toFixed(1)) })}
+        />
+        <StatTile label={t("stat.volume")} value={format.usd(summary.notional)} />
+      </div>
+
+      <VenueComparison pair={pair} range={range} trades={trades} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            {t("pair.allTrades")}
+            <ExportMenu subject={pair} range={range} trades={{ [pair]: filtered }} disabled={isPending} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isPending ? (
+            <p className="text-sm text-muted-foreground">{t("common.loadingTrades")}</p>
+          ) : (
+            <TradeTable
+              pair={pair}
+              trades={filtered}
+              totalCount={trades.length}
+              filters={filters}
+              onFiltersChange={setFilters}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Funding on every venue side by side, so spreads and venue choice can be reviewed together
+function VenueComparison({
+  pair,
+  range,
+  trades,
+}: {
+  pair: string
+  range: TimeRange
+  trades: TradeBarData[]
+}) {
+  const { series, isPending, error } = useFundingSeries(pair, range)
+  const { t, format } = useI18n()
+  const rows = buildSpreadRows(series)
+  const spread = summarizeSpread(rows)
+  const topVenue = Object.entries(spread.highShare).sort(([, a], [, b]) => b - a)[0]
+  const tradesByVenue = Object.entries(
+    trades.reduce<Record<string, number>>((counts, trade) => {
+      counts[trade.exchange] = (counts[trade.exchange] ?? 0) + 1
+      return counts
+    }, {})
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("pair.crossExchange")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p className="text-sm text-destructive">{t("pair.failedVenues", { message: error.message })}</p>
+        ) : isPending ? (
+          <p className="text-sm text-muted-foreground">{t("pair.loadingVenues")}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("pair.noVenues")}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatTile label={t("pair.avgSpread")} value={format.percent(spread.avgSpread, 4)} />
+              <StatTile label={t("pair.maxSpread")} value={format.percent(spread.maxSpread, 4)} />
+              <StatTile
+                label={t("pair.topVenue")}
+                value={topVenue ? `${getExchangeLabel(topVenue[0])} (${format.percent(topVenue[1] * 100, 0)})` : "—"}
+              />
+              <StatTile
+                label={t("pair.tradesByVenue")}
+                value={
+                  tradesByVenue.length
+                    ? tradesByVenue.map(([venue, count]) => `${getExchangeLabel(venue)} ${count}`).join(" · ")
+                    : "—"
+                }
+                className="[&>div:last-child]:text-sm"
+              />
+            </div>
+            <FundingComparisonChart rows={rows} trades={trades} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,125 @@
+import toast from "react-hot-toast"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { CloudOff, RefreshCw, Trash2 } from "lucide-react"
+
+import { StatTile } from "@/components/stat-tile"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/hooks/use-i18n"
+import type { MessageKey } from "@/lib/i18n"
+import { isStorageSupported } from "@/lib/storage/database"
+import { clearHistoryCache, summarizeHistoryCache } from "@/lib/storage/history-cache"
+import { useCacheStore } from "@/stores/cache-store"
+
+const SUMMARY_KEY = ["history-cache"]
+
+function sourceStatus(workOffline: boolean, reachable: boolean | null): MessageKey {
+  if (workOffline) {
+    return "settings.source.offline"
+  }
+  return reachable === null
+    ? "settings.source.unknown"
+    : reachable
+      ? "settings.source.online"
+      : "settings.source.unreachable"
+}
+
+// Local history cache: what it holds, whether the source is being used, and a way to empty it
+export function SettingsPage() {
+  const queryClient = useQueryClient()
+  const { workOffline, reachable, lastSyncedAt, setWorkOffline } = useCacheStore()
+  const { t, format } = useI18n()
+  const { data: summary } = useQuery({
+    queryKey: SUMMARY_KEY,
+    queryFn: summarizeHistoryCache,
+    enabled: isStorageSupported(),
+  })
+
+  const toggleOffline = () => {
+    setWorkOffline(!workOffline)
+    // Back online, every query syncs whatever it missed meanwhile
+    if (workOffline) {
+      void queryClient.invalidateQueries()
+    }
+  }
+
+  // The store knows this session's syncs, the cache the latest one from any visit
+  const syncedAt = lastSyncedAt ?? summary?.syncedAt
+
+  const clear = async () => {
+    try {
+      await clearHistoryCache()
+      toast.success(t("settings.cleared"))
+    } catch (error) {
+      toast.error(t("settings.clearFailed", { message: (error as Error).message }))
+    }
+    void queryClient.invalidateQueries({ queryKey: SUMMARY_KEY })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle>{t("settings.storage")}</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={toggleOffline}>
+              {workOffline ? <RefreshCw /> : <CloudOff />}
+              {t(workOffline ? "settings.goOnline" : "settings.workOffline")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!isStorageSupported()}
+              onClick={() => void clear()}
+            >
+              <Trash2 />
+              {t("settings.clear")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">{t("settings.source")}</dt>
+            <dd>{t(sourceStatus(workOffline, reachable))}</dd>
+            <dt className="text-muted-foreground">{t("settings.lastSynced")}</dt>
+            <dd>
+              {syncedAt
+                ? `${format.dateTime(syncedAt)} ${format.zoneName(syncedAt)}`
+                : t("settings.notSynced")}
+            </dd>
+          </dl>
+
+          {!isStorageSupported() ? (
+            <p className="text-sm text-muted-foreground">{t("settings.unsupported")}</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatTile
+                label={t("settings.used")}
+                value={
+                  summary?.usage == null
+                    ? "—"
+                    : summary.quota
+                      ? t("settings.usedOf", {
+                          usage: format.bytes(summary.usage),
+                          quota: format.bytes(summary.quota),
+                        })
+                      : format.bytes(summary.usage)
+                }
+              />
+              <StatTile label={t("settings.cachedPairs")} value={summary ? format.number(summary.pairs, 0) : "—"} />
+              <StatTile label={t("settings.cachedRecords")} value={summary ? format.number(summary.items, 0) : "—"} />
+              <StatTile label={t("settings.importedFiles")} value={summary ? format.number(summary.imports, 0) : "—"} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="p-6 text-sm text-muted-foreground space-y-1">
+        <p>• {t("settings.bullet.sync")}</p>
+        <p>• {t("settings.bullet.recent")}</p>
+        <p>• {t("settings.bullet.offline")}</p>
+        <p>• {t("settings.bullet.imports")}</p>
+      </Card>
+    </div>
+  )
+}
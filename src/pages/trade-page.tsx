@@ -0,0 +1,180 @@
+import { useEffect, useMemo } from "react"
+import { Link, useParams, useSearchParams } from "react-router-dom"
+import { ArrowLeft } from "lucide-react"
+
+import { FundingRateChart } from "@/components/funding-rate-chart"
+import { SideLabel } from "@/components/side-encoding"
+import { StatTile } from "@/components/stat-tile"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAppLinks } from "@/hooks/use-app-links"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useI18n } from "@/hooks/use-i18n"
+import { useFundingRates, useTrades } from "@/hooks/use-trades"
+import { computeMargin } from "@/lib/trading/accounting"
+import { getExchangeLabel, isKnownExchange } from "@/lib/trading/exchanges"
+import { signClass, signTone } from "@/lib/trading/format"
+import { buildFundingBreakdown } from "@/lib/trading/funding"
+import type { TradeBarData } from "@/lib/trading/types"
+import { cn } from "@/lib/utils"
+import { selectTrades, useAppStore } from "@/stores/app-store"
+import { NotFoundPage } from "./not-found-page"
+
+
+export function TradePage() {
+  const { id } = useParams()
+  const [searchParams] = useSearchParams()
+  const pair = searchParams.get("pair")
+  const { t } = useI18n()
+
+  if (!id || !pair) {
+    return <NotFoundPage message={t("trade.missingParams")} />
+  }
+
+  return <TradeLookup id={id} pair={pair} />
+}
+
+function TradeLookup({ id, pair }: { id: string; pair: string }) {
+  const { range } = useDateRange()
+  const { isPending, isError, error } = useTrades(pair, range)
+  const trades = useAppStore(selectTrades(pair))
+  const { t } = useI18n()
+
+  if (isPending) {
+    return <p className="text-center text-sm text-muted-foreground">{t("trade.loading")}</p>
+  }
+
+  if (isError) {
+    return <NotFoundPage message={t("common.failedTrades", { message: error.message })} />
+  }
+
+  const trade = trades.find((candidate) => candidate.id === id)
+
+  if (!trade) {
+    return <NotFoundPage message={t("trade.notInRange", { id, pair })} />
+  }
+
+  return <TradeDetail pair={pair} trade={trade} />
+}
+
+function TradeDetail({ pair, trade }: { pair: string; trade: TradeBarData }) {
+  const links = useAppLinks()
+  const selectTrade = useAppStore((state) => state.selectTrade)
+  // Opened from a link too, so charts and tables highlight it once the reader goes back
+  useEffect(() => selectTrade({ pair, id: trade.id }), [selectTrade, pair, trade.id])
+  const tradeWindow = useMemo(
+    () => ({ from: trade.startTime, to: trade.endTime }),
+    [trade.startTime, trade.endTime]
+  )
+  // Rates from the venue the trade ran on; imported and simulated trades use the pair-wide series
+  const { data: rates = [], isPending } = useFundingRates(pair, tradeWindow, {
+    exchange: isKnownExchange(trade.exchange) ? trade.exchange : undefined,
+  })
+  const breakdown = buildFundingBreakdown(trade, rates)
+  const breakdownTotal = breakdown[breakdown.length - 1]?.cumulative ?? 0
+  const { t, format } = useI18n()
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to={links.pair(pair)}
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="size-4" />
+        {pair}
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-baseline gap-3">
+            <SideLabel type={trade.type} className="text-xl" />
+            <span className="text-xl">{pair}</span>
+            <span className="text-sm font-normal text-muted-foreground font-mono">
+              {format.dateTime(trade.startTime)} → {format.dateTime(trade.endTime)} {format.zoneName(trade.startTime)}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatTile
+              label={t("stat.entryExit")}
+              value={`${format.number(trade.startPrice)} → ${format.number(trade.endPrice)}`}
+            />
+            <StatTile label={t("stat.notional")} value={format.usd(trade.notional)} />
+            <StatTile
+              label={t("stat.leverage")}
+              value={`${trade.leverage}x ${t(`marginMode.${trade.marginMode}`)} · ${format.usd(computeMargin(trade.notional, trade.leverage))}`}
+            />
+            <StatTile label={t("stat.exchange")} value={getExchangeLabel(trade.exchange)} />
+            <StatTile label={t("stat.pricePnl")} value={format.usd(trade.pricePnl, { signed: true })} tone={signTone(trade.pricePnl)} />
+            <StatTile
+              label={t("stat.funding")}
+              value={`${format.usd(trade.fundingPnl, { signed: true })} (${format.signedPercent(trade.fundingTotal)})`}
+              tone={signTone(trade.fundingPnl)}
+            />
+            <StatTile label={t("stat.fees")} value={format.usd(-trade.fee)} />
+            <StatTile
+              label={t("stat.netPnl")}
+              value={`${format.usd(trade.profitLoss, { signed: true })} (${format.signedPercent(trade.netReturn)})`}
+              tone={signTone(trade.profitLoss)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("trade.fundingByPeriod")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isPending ? (
+            <p className="text-sm text-muted-foreground">{t("common.loadingFundingRates")}</p>
+          ) : (
+            <>
+              {rates.length > 0 && <FundingRateChart rates={rates} trades={[trade]} />}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs font-mono">
+                  <thead className="text-muted-foreground text-left">
+                    <tr className="border-b">
+                      <th className="p-2">#</th>
+                      <th className="p-2">{t("trade.settlement", { zone: format.zoneName(trade.startTime) })}</th>
+                      <th className="p-2 text-right">{t("trade.rate")}</th>
+                      <th className="p-2 text-right">{t("trade.collected")}</th>
+                      <th className="p-2 text-right">{t("trade.payment")}</th>
+                      <th className="p-2 text-right">{t("trade.cumulative")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakdown.map((row, index) => (
+                      <tr key={row.time} className="border-b last:border-0">
+                        <td className="p-2">{index + 1}</td>
+                        <td className="p-2">{format.dateTime(row.time)}</td>
+                        <td className="p-2 text-right">{format.signedPercent(row.rate, 4)}</td>
+                        <td className={cn("p-2 text-right", signClass(row.collected))}>
+                          {format.signedPercent(row.collected, 4)}
+                        </td>
+                        <td className={cn("p-2 text-right", signClass(row.payment))}>
+                          {format.usd(row.payment, { signed: true })}
+                        </td>
+                        <td className={cn("p-2 text-right", signClass(row.cumulative))}>
+                          {format.usd(row.cumulative, { signed: true })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t("trade.breakdownSummary", {
+                  found: breakdown.length,
+                  periods: trade.periods,
+                  total: format.usd(breakdownTotal, { signed: true }),
+                  recorded: format.usd(trade.fundingPnl, { signed: true }),
+                })}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
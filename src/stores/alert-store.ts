@@ -0,0 +1,61 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import type { AlertEvent, AlertRule } from "@/lib/alerts/rules"
+
+// Oldest entries drop off past this, keeping localStorage small
+const MAX_HISTORY = 200
+
+// Omit applied to each member of the rule union, so every kind keeps its own fields
+type WithoutIdentity<Rule> = Rule extends AlertRule ? Omit<Rule, "id" | "enabled"> : never
+export type NewAlertRule = WithoutIdentity<AlertRule>
+
+interface AlertState {
+  rules: AlertRule[]
+  history: AlertEvent[] // Newest first
+  // Keys of the conditions holding at the last check, kept so a reload doesn't fire them again
+  activeKeys: string[]
+  addRule: (rule: NewAlertRule) => void
+  toggleRule: (id: string) => void
+  removeRule: (id: string) => void
+  recordEvents: (events: AlertEvent[]) => void
+  clearHistory: () => void
+  setActiveKeys: (keys: string[]) => void
+}
+
+// Time plus a counter rather than crypto.randomUUID, which only exists in secure contexts
+// and so fails when the dashboard is served over plain http on a LAN address
+let ruleCount = 0
+const createRuleId = () => `rule-${Date.now().toString(36)}-${(ruleCount++).toString(36)}`
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set) => ({
+      rules: [],
+      history: [],
+      activeKeys: [],
+      addRule: (rule) =>
+        set((state) => {
+          const added: AlertRule = { ...rule, id: createRuleId(), enabled: true }
+          return { rules: [...state.rules, added] }
+        }),
+      toggleRule: (id) =>
+        set((state) => ({
+          rules: state.rules.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)),
+        })),
+      removeRule: (id) => set((state) => ({ rules: state.rules.filter((rule) => rule.id !== id) })),
+      recordEvents: (events) =>
+        set((state) => ({ history: [...events, ...state.history].slice(0, MAX_HISTORY) })),
+      clearHistory: () => set({ history: [] }),
+      setActiveKeys: (activeKeys) => set({ activeKeys }),
+    }),
+    {
+      name: "trading-alerts",
+      partialize: (state) => ({
+        rules: state.rules,
+        history: state.history,
+        activeKeys: state.activeKeys,
+      }),
+    }
+  )
+)
@@ -0,0 +1,122 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import {
+  DEFAULT_RANGE_SELECTION,
+  isValidCustomRange,
+  parseDateRangeParams,
+  resolveDateRange,
+  type DateRangeSelection,
+} from "@/lib/trading/date-range"
+import { getTradeSummary } from "@/lib/trading/stats"
+import { DEFAULT_TRADE_FILTERS, type TradeFilters } from "@/lib/trading/trade-filters"
+import type { TimeRange, TradeBarData } from "@/lib/trading/types"
+
+// Bar modes size one bar per trade; timeline and fundingRate plot against real time
+export type ChartMode = "duration" | "profitLoss" | "timeline" | "fundingRate"
+
+export const CHART_MODES: ChartMode[] = ["duration", "profitLoss", "timeline", "fundingRate"]
+
+export interface SelectedTrade {
+  pair: string
+  id: string
+}
+
+interface AppState {
+  selection: DateRangeSelection
+  // Resolved once per selection, so every view shares one "now" and one query key
+  range: TimeRange
+  // Source, imported and backtested trades for the active range, as the trade queries return them
+  tradesByPair: Record<string, TradeBarData[]>
+  filtersByPair: Record<string, TradeFilters>
+  // Last trade opened from a chart or table, highlighted wherever that pair is shown
+  selectedTrade: SelectedTrade | null
+  chartModes: Record<string, ChartMode>
+  setSelection: (selection: DateRangeSelection) => void
+  publishTrades: (range: TimeRange, tradesByPair: Record<string, TradeBarData[]>) => void
+  setFilters: (pair: string, filters: TradeFilters) => void
+  selectTrade: (trade: SelectedTrade | null) => void
+  setChartMode: (pair: string, mode: ChartMode) => void
+}
+
+const selectionKey = (selection: DateRangeSelection) =>
+  selection.preset === "custom" ? `custom:${selection.from}:${selection.to}` : selection.preset
+
+// The URL holds the range; reading it up front saves the first queries fetching the default
+const initialSelection = () =>
+  typeof window === "undefined"
+    ? DEFAULT_RANGE_SELECTION
+    : parseDateRangeParams(new URLSearchParams(window.location.search))
+
+// State the dashboard's views share. Queries still fetch and cache; their results are
+// published here so charts, tables and summaries read the same lists and derive from them
+// once. Only chart modes persist.
+export const useAppStore = create<AppState>()(
+  persist(
+    (set) => {
+      const selection = initialSelection()
+
+      return {
+        selection,
+        range: resolveDateRange(selection),
+        tradesByPair: {},
+        filtersByPair: {},
+        selectedTrade: null,
+        chartModes: {},
+        // A new range drops the trades published for the old one. A custom range the URL
+        // couldn't hold is refused, so a shared link always reproduces the view.
+        setSelection: (next) =>
+          set((state) =>
+            selectionKey(next) === selectionKey(state.selection) ||
+            (next.preset === "custom" && !isValidCustomRange(next.from, next.to))
+              ? state
+              : { selection: next, range: resolveDateRange(next), tradesByPair: {} }
+          ),
+        // Results for another range (a query still settling after a switch) are ignored,
+        // and unchanged lists leave the state alone so readers don't re-render
+        publishTrades: (range, tradesByPair) =>
+          set((state) => {
+            if (range.from !== state.range.from || range.to !== state.range.to) {
+              return state
+            }
+
+            const changed = Object.entries(tradesByPair).filter(
+              ([pair, trades]) => state.tradesByPair[pair] !== trades
+            )
+            return changed.length
+              ? { tradesByPair: { ...state.tradesByPair, ...Object.fromEntries(changed) } }
+              : state
+          }),
+        setFilters: (pair, filters) =>
+          set((state) => ({ filtersByPair: { ...state.filtersByPair, [pair]: filters } })),
+        selectTrade: (selectedTrade) => set({ selectedTrade }),
+        setChartMode: (pair, mode) =>
+          set((state) => ({ chartModes: { ...state.chartModes, [pair]: mode } })),
+      }
+    },
+    {
+      name: "trading-app",
+      partialize: (state) => ({ chartModes: state.chartModes }),
+    }
+  )
+)
+
+// Selectors return stored or cached values, never fresh objects, so subscribers only
+// re-render when what they read has changed
+
+const NO_TRADES: TradeBarData[] = []
+
+export const selectTrades = (pair: string) => (state: AppState) =>
+  state.tradesByPair[pair] ?? NO_TRADES
+
+export const selectTradeSummary = (pair: string) => (state: AppState) =>
+  getTradeSummary(selectTrades(pair)(state))
+
+export const selectFilters = (pair: string) => (state: AppState) =>
+  state.filtersByPair[pair] ?? DEFAULT_TRADE_FILTERS
+
+export const selectChartMode = (pair: string) => (state: AppState): ChartMode =>
+  state.chartModes[pair] ?? "duration"
+
+export const selectIsSelected = (pair: string, id: string) => (state: AppState) =>
+  state.selectedTrade?.pair === pair && state.selectedTrade.id === id
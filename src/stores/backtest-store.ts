@@ -0,0 +1,40 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import { DEFAULT_BACKTEST_PARAMS, type BacktestParams } from "@/lib/trading/backtest"
+import type { TimeRange, TradeBarData } from "@/lib/trading/types"
+
+interface BacktestState {
+  params: BacktestParams
+  // Simulated trades per pair from the last run, shown next to real ones until cleared
+  results: Record<string, TradeBarData[]>
+  resultRange: TimeRange | null
+  setParams: (params: Partial<BacktestParams>) => void
+  setResults: (results: Record<string, TradeBarData[]>, range: TimeRange) => void
+  clear: () => void
+}
+
+// Only the parameters persist; results are cheap to recompute and tied to a range
+export const useBacktestStore = create<BacktestState>()(
+  persist(
+    (set) => ({
+      params: DEFAULT_BACKTEST_PARAMS,
+      results: {},
+      resultRange: null,
+      setParams: (params) => set((state) => ({ params: { ...state.params, ...params } })),
+      setResults: (results, range) => set({ results, resultRange: range }),
+      clear: () => set({ results: {}, resultRange: null }),
+    }),
+    {
+      name: "trading-backtest",
+      partialize: (state) => ({ params: state.params }),
+      merge: (persisted, current) => ({
+        ...current,
+        params: {
+          ...current.params,
+          ...(persisted as Partial<BacktestState> | undefined)?.params,
+        },
+      }),
+    }
+  )
+)
@@ -0,0 +1,33 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+interface CacheState {
+  // Chosen in settings: serve cached history only and leave the source alone
+  workOffline: boolean
+  // Whether the source answered the last request, null before the first one
+  reachable: boolean | null
+  lastSyncedAt: number | null
+  setWorkOffline: (workOffline: boolean) => void
+  recordSync: (result: { reachable: boolean; time: number }) => void
+}
+
+// Only the offline choice persists; reachability is learned again on every load
+export const useCacheStore = create<CacheState>()(
+  persist(
+    (set) => ({
+      workOffline: false,
+      reachable: null,
+      lastSyncedAt: null,
+      setWorkOffline: (workOffline) => set({ workOffline }),
+      recordSync: ({ reachable, time }) =>
+        set((state) => ({
+          reachable,
+          lastSyncedAt: reachable ? time : state.lastSyncedAt,
+        })),
+    }),
+    {
+      name: "trading-cache",
+      partialize: (state) => ({ workOffline: state.workOffline }),
+    }
+  )
+)
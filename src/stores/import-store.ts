@@ -0,0 +1,57 @@
+import { create } from "zustand"
+
+import {
+  buildImportedData,
+  parseImportFile,
+  type ImportedData,
+  type ImportRowError,
+  type ParsedImportFile,
+} from "@/lib/import/exchange-import"
+import { clearImportFiles, loadImportFiles, saveImportFiles } from "@/lib/storage/history-cache"
+
+interface ImportState {
+  // Keyed by file name, so dropping a file again replaces its earlier import
+  files: Record<string, ParsedImportFile>
+  data: ImportedData
+  // Parses and merges the files, returning the problems found in just these files
+  importFiles: (files: { name: string; text: string }[]) => ImportRowError[]
+  // Re-parses the files kept in IndexedDB from earlier visits
+  restore: () => Promise<void>
+  clear: () => void
+}
+
+const EMPTY_IMPORT: ImportedData = { trades: {}, fundingRates: {}, prices: {}, errors: [] }
+
+export const useImportStore = create<ImportState>()((set, get) => ({
+  files: {},
+  data: EMPTY_IMPORT,
+  importFiles: (incoming) => {
+    const names = new Set(incoming.map((file) => file.name))
+    const files = { ...get().files }
+
+    for (const { name, text } of incoming) {
+      files[name] = parseImportFile(name, text)
+    }
+
+    const data = buildImportedData(Object.values(files))
+    set({ files, data })
+    void saveImportFiles(incoming)
+    return data.errors.filter((error) => names.has(error.file))
+  },
+  restore: async () => {
+    const stored = await loadImportFiles()
+    // Files dropped while the stored ones loaded are newer and win
+    const files = Object.fromEntries(
+      stored.map(({ name, text }) => [name, parseImportFile(name, text)])
+    )
+    Object.assign(files, get().files)
+
+    if (stored.length) {
+      set({ files, data: buildImportedData(Object.values(files)) })
+    }
+  },
+  clear: () => {
+    set({ files: {}, data: EMPTY_IMPORT })
+    void clearImportFiles()
+  },
+}))
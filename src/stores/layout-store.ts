@@ -0,0 +1,83 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import {
+  DEFAULT_DASHBOARD_LAYOUT,
+  sanitizeLayout,
+  type CardWidget,
+  type DashboardLayout,
+} from "@/lib/layout/dashboard-layout"
+
+interface LayoutState {
+  current: DashboardLayout
+  saved: Record<string, DashboardLayout>
+  // Bumped whenever the whole layout is swapped, so panel groups remount at the new widths
+  revision: number
+  setColumns: (columns: number) => void
+  setOrder: (order: string[]) => void
+  setSizes: (sizes: Record<string, number>) => void
+  setCollapsed: (pair: string, collapsed: boolean) => void
+  setWidgets: (pair: string, widgets: CardWidget[]) => void
+  setShowLegend: (showLegend: boolean) => void
+  saveLayout: (name: string) => void
+  applyLayout: (name: string) => void
+  deleteLayout: (name: string) => void
+  reset: () => void
+}
+
+export const useLayoutStore = create<LayoutState>()(
+  persist(
+    (set) => {
+      const update = (patch: Partial<DashboardLayout>) =>
+        set((state) => ({ current: { ...state.current, ...patch } }))
+
+      return {
+        current: DEFAULT_DASHBOARD_LAYOUT,
+        saved: {},
+        revision: 0,
+        setColumns: (columns) => update({ columns }),
+        setOrder: (order) => update({ order }),
+        setSizes: (sizes) =>
+          set((state) => ({ current: { ...state.current, sizes: { ...state.current.sizes, ...sizes } } })),
+        setCollapsed: (pair, collapsed) =>
+          set((state) => {
+            const others = state.current.collapsed.filter((p) => p !== pair)
+            return { current: { ...state.current, collapsed: collapsed ? [...others, pair] : others } }
+          }),
+        setWidgets: (pair, widgets) =>
+          set((state) => ({
+            current: { ...state.current, widgets: { ...state.current.widgets, [pair]: widgets } },
+          })),
+        setShowLegend: (showLegend) => update({ showLegend }),
+        saveLayout: (name) => set((state) => ({ saved: { ...state.saved, [name]: state.current } })),
+        applyLayout: (name) =>
+          set((state) =>
+            state.saved[name] ? { current: state.saved[name], revision: state.revision + 1 } : state
+          ),
+        deleteLayout: (name) =>
+          set((state) => {
+            const saved = { ...state.saved }
+            delete saved[name]
+            return { saved }
+          }),
+        reset: () =>
+          set((state) => ({ current: DEFAULT_DASHBOARD_LAYOUT, revision: state.revision + 1 })),
+      }
+    },
+    {
+      name: "trading-layout",
+      partialize: (state) => ({ current: state.current, saved: state.saved }),
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<Pick<LayoutState, "current" | "saved">> | undefined
+        const saved = typeof stored?.saved === "object" && stored.saved !== null ? stored.saved : {}
+        return {
+          ...current,
+          current: stored?.current ? sanitizeLayout(stored.current) : current.current,
+          saved: Object.fromEntries(
+            Object.entries(saved).map(([name, layout]) => [name, sanitizeLayout(layout)])
+          ),
+        }
+      },
+    }
+  )
+)
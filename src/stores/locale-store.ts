@@ -0,0 +1,36 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import { LOCALES, TIME_ZONES, detectLocale, type Locale, type TimeZoneOption } from "@/lib/i18n"
+
+interface LocaleState {
+  locale: Locale
+  // Zone that axes, tooltips and trade lists display times in; data stays in UTC
+  timeZone: TimeZoneOption
+  setLocale: (locale: Locale) => void
+  setTimeZone: (timeZone: TimeZoneOption) => void
+}
+
+export const useLocaleStore = create<LocaleState>()(
+  persist(
+    (set) => ({
+      locale: detectLocale(typeof navigator === "undefined" ? undefined : navigator.language),
+      timeZone: "UTC",
+      setLocale: (locale) => set({ locale }),
+      setTimeZone: (timeZone) => set({ timeZone }),
+    }),
+    {
+      name: "trading-locale",
+      partialize: (state) => ({ locale: state.locale, timeZone: state.timeZone }),
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<Pick<LocaleState, "locale" | "timeZone">> | undefined
+        return {
+          ...current,
+          locale: stored?.locale && stored.locale in LOCALES ? stored.locale : current.locale,
+          timeZone:
+            stored?.timeZone && TIME_ZONES.includes(stored.timeZone) ? stored.timeZone : current.timeZone,
+        }
+      },
+    }
+  )
+)
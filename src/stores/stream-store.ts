@@ -0,0 +1,115 @@
+import { create } from "zustand"
+
+import { toCollectedRate } from "@/lib/trading/funding"
+import type { StreamConnectionStatus, StreamMessage } from "@/lib/trading/stream"
+import type { FundingRatePoint, OpenPosition } from "@/lib/trading/types"
+
+export interface PairLiveState {
+  markPrice?: number
+  markTime?: string
+  lastFunding?: FundingRatePoint // Most recent settlement seen on the stream
+  lastMessageAt?: number
+  openPositions: Record<string, OpenPosition>
+}
+
+interface StreamState {
+  enabled: boolean
+  status: StreamConnectionStatus
+  pairs: Record<string, PairLiveState>
+  setEnabled: (enabled: boolean) => void
+  setStatus: (status: StreamConnectionStatus) => void
+  applyMessage: (message: StreamMessage, receivedAt?: number) => void
+  // Forgets live open positions, whose closes may have been missed while disconnected
+  clearOpenPositions: () => void
+}
+
+const EMPTY_PAIR: PairLiveState = { openPositions: {} }
+
+function updatePair(
+  message: Exclude<StreamMessage, { type: "heartbeat" }>,
+  pair: PairLiveState
+): PairLiveState {
+  switch (message.type) {
+    case "position_open": {
+      const { id, side, ...details } = message.position
+      return {
+        ...pair,
+        openPositions: {
+          ...pair.openPositions,
+          [id]: {
+            id,
+            pair: message.pair,
+            type: side,
+            ...details,
+            fundingTotal: 0,
+            periods: 0,
+          },
+        },
+      }
+    }
+    case "funding_payment": {
+      const position = pair.openPositions[message.positionId]
+      const lastFunding =
+        !pair.lastFunding || message.time >= pair.lastFunding.time
+          ? { time: message.time, rate: message.rate }
+          : pair.lastFunding
+
+      if (!position) {
+        return { ...pair, lastFunding }
+      }
+
+      return {
+        ...pair,
+        lastFunding,
+        openPositions: {
+          ...pair.openPositions,
+          [position.id]: {
+            ...position,
+            fundingTotal:
+              position.fundingTotal + toCollectedRate(position.type, message.rate),
+            periods: position.periods + 1,
+          },
+        },
+      }
+    }
+    case "position_close": {
+      const openPositions = { ...pair.openPositions }
+      delete openPositions[message.trade.id]
+      return { ...pair, openPositions }
+    }
+    case "mark_price":
+      return { ...pair, markPrice: message.price, markTime: message.time }
+  }
+}
+
+export const useStreamStore = create<StreamState>()((set) => ({
+  enabled: false,
+  status: "closed",
+  pairs: {},
+  setEnabled: (enabled) => set({ enabled }),
+  setStatus: (status) => set({ status }),
+  applyMessage: (message, receivedAt = Date.now()) =>
+    set((state) => {
+      if (message.type === "heartbeat") {
+        return state
+      }
+
+      const pair = state.pairs[message.pair] ?? EMPTY_PAIR
+
+      return {
+        pairs: {
+          ...state.pairs,
+          [message.pair]: {
+            ...updatePair(message, pair),
+            lastMessageAt: receivedAt,
+          },
+        },
+      }
+    }),
+  clearOpenPositions: () =>
+    set((state) => ({
+      pairs: Object.fromEntries(
+        Object.entries(state.pairs).map(([pair, live]) => [pair, { ...live, openPositions: {} }])
+      ),
+    })),
+}))
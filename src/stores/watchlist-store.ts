@@ -0,0 +1,54 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import {
+  DEFAULT_WATCHLIST,
+  KNOWN_PAIRS,
+  normalizePairSymbol,
+  validatePairSymbol,
+  type PairSymbolError,
+} from "@/lib/trading/pairs"
+import { moveItem } from "@/lib/utils"
+
+interface WatchlistState {
+  pairs: string[]
+  // Returns the reason's message key instead of adding when the symbol is rejected
+  addPair: (symbol: string) => PairSymbolError | null
+  removePair: (pair: string) => void
+  movePair: (from: number, to: number) => void
+  reset: () => void
+}
+
+export const useWatchlistStore = create<WatchlistState>()(
+  persist(
+    (set, get) => ({
+      pairs: DEFAULT_WATCHLIST,
+      addPair: (symbol) => {
+        const pair = normalizePairSymbol(symbol)
+        const error = validatePairSymbol(pair, get().pairs)
+
+        if (!error) {
+          set((state) => ({ pairs: [...state.pairs, pair] }))
+        }
+
+        return error
+      },
+      removePair: (pair) =>
+        set((state) => ({ pairs: state.pairs.filter((p) => p !== pair) })),
+      movePair: (from, to) => set((state) => ({ pairs: moveItem(state.pairs, from, to) })),
+      reset: () => set({ pairs: DEFAULT_WATCHLIST }),
+    }),
+    {
+      name: "trading-watchlist",
+      partialize: (state) => ({ pairs: state.pairs }),
+      // Drop anything in storage that is no longer a known pair
+      merge: (persisted, current) => {
+        const stored = (persisted as Partial<WatchlistState> | undefined)?.pairs
+        const pairs = Array.isArray(stored)
+          ? [...new Set(stored)].filter((pair) => pair in KNOWN_PAIRS)
+          : current.pairs
+        return { ...current, pairs }
+      },
+    }
+  )
+)
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the trade log API; the mock source is used when unset
+  readonly VITE_TRADES_API_URL?: string
+  // Seed for the mock trade generator, so demos render the same data
+  readonly VITE_MOCK_SEED?: string
+  // WebSocket endpoint for live positions, funding and mark prices
+  readonly VITE_TRADE_STREAM_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}